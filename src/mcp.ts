@@ -6,17 +6,320 @@ import {
   ListToolsRequestSchema,
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
-import Database from 'duckdb';
+import { DuckDBInstance, DuckDBTypeId, JSDuckDBValueConverter, type DuckDBConnection, type DuckDBDecimalValue, type DuckDBValueConverter, type JS } from '@duckdb/node-api';
 import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
+import { decodeOFX, parseOFX, type OfxTransaction } from './ofx.ts';
+import { formatRows, OUTPUT_FORMATS, parseOutputFormat, safeStringify, type OutputFormat } from './output-format.ts';
+import { BUILTIN_PRESETS, loadPresets, presetsFilePath, type TransactionPreset } from './presets.ts';
+import {
+  checkQueryPolicy,
+  QUERY_POLICY_SUMMARIES,
+  queryPolicyFromEnv,
+  queryTimeoutFromEnv,
+  subquerySQL,
+  type QueryPolicy,
+} from './query-policy.ts';
+import { extractZipEntry, readZipEntries, readZipEntry, scanZipEntry, type ZipEntry } from './zip.ts';
+
+// Type names accepted in column_types, e.g. "DATE", "DECIMAL(10,2)", "VARCHAR[]", "TIMESTAMP WITH TIME ZONE"
+const SQL_TYPE_PATTERN = /^[A-Za-z][A-Za-z0-9_ ]*(\(\s*\d+\s*(,\s*\d+\s*)?\))?(\[\])*$/;
+
+// Temporary tables DuckDB fills when read_csv runs with store_rejects=true
+const REJECTS_ERRORS_TABLE = 'quack_reject_errors';
+const REJECTS_SCANS_TABLE = 'quack_reject_scans';
+
+// Filename column multi-file loads add to count rows per file when include_filename is off; dropped after counting
+const PROVENANCE_FILE_COLUMN = '__quack_source_file';
+
+// Files listed in a multi-file load response; files that contributed no rows are always listed
+const PROVENANCE_PREVIEW_FILES = 20;
+
+// Incremental and lazy loading options shared by the CSV and Excel loaders; see prepareAppend and prepareRelation
+const APPEND_OPTION_PROPERTIES = {
+  materialize: {
+    type: 'boolean',
+    description: 'Copy the data into memory (true) or register a view that reads the source files on every query, for files too large to copy (optional, default: true)',
+  },
+  append_to_table: {
+    type: 'string',
+    description: 'Existing table to append the new rows to instead of replacing it; columns are aligned by name (optional)',
+  },
+  skip_loaded_files: {
+    type: 'boolean',
+    description: 'With append_to_table, skip files already loaded into that table (optional, default: false)',
+  },
+};
+
+// Hive partitioning options shared by the multi-file loaders; see buildHivePartitioningOptions
+const HIVE_PARTITIONING_PROPERTIES = {
+  hive_partitioning: {
+    type: 'boolean',
+    description: 'Turn key=value directories such as year=2025/month=05 into columns (optional, default: false)',
+  },
+  hive_types: {
+    type: 'object',
+    additionalProperties: { type: 'string' },
+    description: 'Explicit DuckDB types for partition keys, e.g. {"year": "INTEGER", "month": "INTEGER"} (optional, types are inferred by default)',
+  },
+  hive_types_autocast: {
+    type: 'boolean',
+    description: 'Infer partition key types such as integers and dates; false keeps every key as VARCHAR (optional, default: true)',
+  },
+};
+
+// Opt-in polling of a table's source files; see watchTable
+const WATCH_OPTION_PROPERTIES = {
+  watch: {
+    type: 'boolean',
+    description: 'Keep watching the source path or glob and refresh the table when files change or new matches appear (optional, default: false)',
+  },
+  watch_mode: {
+    type: 'string',
+    description: 'How to refresh: "reload" re-runs the whole load, "append" only adds new files and falls back to a reload when loaded files change (default: reload)',
+    enum: ['reload', 'append'],
+  },
+  watch_interval_seconds: {
+    type: 'number',
+    description: 'Seconds between checks of the source files (default: 30)',
+  },
+};
+
+// Row-limited and sampled loading shared by the CSV and Excel loaders; see buildSampleClause
+const SAMPLE_OPTION_PROPERTIES = {
+  limit_rows: {
+    type: 'integer',
+    description: 'Load only the first N rows, e.g. to peek at a file too large to load (optional)',
+  },
+  sample_rows: {
+    type: 'integer',
+    description: 'Load a random reservoir sample of N rows (optional)',
+  },
+  sample_percent: {
+    type: 'number',
+    description: 'Load a random reservoir sample of this percentage of the rows, e.g. 5 (optional)',
+  },
+  sample_seed: {
+    type: 'integer',
+    description: 'Seed for sample_rows and sample_percent, so the same file yields the same sample (optional, default: 42)',
+  },
+};
+
+// Lines sampled to infer fixed-width column boundaries and header names
+const FIXED_WIDTH_SAMPLE_LINES = 500;
+
+// Pasted data beyond this size should be saved to a file and loaded with load_csv or load_json
+const INLINE_DATA_LIMIT_BYTES = 10 * 1024 * 1024;
+
+// Output option shared by query_csv, describe_table and list_tables
+const FORMAT_OPTION_PROPERTIES = {
+  format: {
+    type: 'string',
+    enum: OUTPUT_FORMATS,
+    description: 'How to render rows: json (default), jsonl (one object per line), markdown (aligned table) or csv (optional)',
+  },
+};
+
+// Converts result values as getRowObjectsJS() does, except that DECIMAL values stay the driver's exact values, so
+// query_csv prints them with all their digits instead of going through a double
+const exactDecimalConverter: DuckDBValueConverter<JS | DuckDBDecimalValue> = (value, type, converter) =>
+  type.typeId === DuckDBTypeId.DECIMAL ? value as DuckDBDecimalValue : JSDuckDBValueConverter(value, type, converter as DuckDBValueConverter<JS>);
+
+// Rows query_csv returns per page unless max_rows is given
+const DEFAULT_QUERY_PAGE_ROWS = 1000;
+
+// Truncated query_csv results kept for cursors; the oldest is dropped when another one is stored
+const MAX_QUERY_RESULTS = 10;
+
+// Rows kept for paging through statements that cannot be re-run with LIMIT and OFFSET (PRAGMA, CALL, EXPLAIN, ...)
+const MAX_KEPT_QUERY_ROWS = 10 * DEFAULT_QUERY_PAGE_ROWS;
+
+// Appended to load responses for materialize: false
+const VIEW_MODE_NOTE = '\n\n🔗 Registered as a view: queries read the source files directly and nothing was copied into memory';
+
+// Zip archive members loaded when no archive_member pattern is given, matched after stripping .gz/.zst
+const CSV_MEMBER_EXTENSIONS = ['.csv', '.tsv', '.txt'];
+const JSON_MEMBER_EXTENSIONS = ['.json', '.ndjson', '.jsonl'];
+
+// read_csv options shared by the CSV loading tools; see buildReadCSVOptions
+const READ_CSV_OPTION_PROPERTIES = {
+  quote: {
+    type: 'string',
+    description: 'Quote character (optional, auto-detected; empty string disables quoting)',
+  },
+  escape: {
+    type: 'string',
+    description: 'Escape character (optional, auto-detected; empty string disables escaping)',
+  },
+  skip: {
+    type: 'number',
+    description: 'Number of leading lines to skip before the header or data (optional)',
+  },
+  nullstr: {
+    oneOf: [
+      { type: 'string' },
+      { type: 'array', items: { type: 'string' } },
+    ],
+    description: 'String or list of strings to read as NULL, e.g. ["N/A", "-"] (optional)',
+  },
+  dateformat: {
+    type: 'string',
+    description: 'strptime format for DATE columns, e.g. "%d/%m/%Y" (optional)',
+  },
+  timestampformat: {
+    type: 'string',
+    description: 'strptime format for TIMESTAMP columns, e.g. "%d/%m/%Y %H:%M" (optional)',
+  },
+  column_types: {
+    type: 'object',
+    additionalProperties: { type: 'string' },
+    description: 'Explicit DuckDB types for specific columns, e.g. {"Amount": "DECIMAL(10,2)", "Zip": "VARCHAR"} (optional)',
+  },
+  column_names: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Column names to use instead of the header or generated names (optional)',
+  },
+  sample_size: {
+    type: 'number',
+    description: 'Rows sampled for dialect and type detection, -1 to scan the whole file (optional)',
+  },
+  ignore_errors: {
+    type: 'boolean',
+    description: 'Skip rows that cannot be parsed instead of failing the load (optional, default: false)',
+  },
+  store_rejects: {
+    type: 'boolean',
+    description: 'Load the good rows and keep malformed ones (line number, raw text, error) in a "<table>_rejects" companion table (optional, default: false)',
+  },
+};
+
+// What a loader recorded for a table: the source it was given and every file read into it so far
+type LoaderName =
+  | 'load_csv'
+  | 'load_multiple_csvs'
+  | 'load_excel'
+  | 'load_multiple_excels'
+  | 'load_workbook'
+  | 'load_parquet'
+  | 'load_multiple_parquets'
+  | 'load_json'
+  | 'load_inline_data'
+  | 'load_ofx'
+  | 'load_fixed_width';
+
+// The tool call that produced (or appended to) a table, kept so reload_table can replay it
+interface LoadSpec {
+  loader: LoaderName;
+  args: any;
+}
+
+interface LoadedTable {
+  source: string;
+  files: string[];
+  mode: 'table' | 'view';
+  // The original load followed by any appends, in order
+  loads: LoadSpec[];
+  // Set when any of the loads kept only some of the rows, e.g. "random sample of 1,000 rows (seed 42)"
+  sample: string | null;
+}
+
+// An append_to_table request: new rows are staged separately, then reconciled into the target
+interface AppendPlan {
+  target: string;
+  stagingTable: string;
+  pendingFiles: string[];
+  skippedFiles: string[];
+}
+
+// A polling watcher that replays a load when its source files change
+interface TableWatcher {
+  loader: Extract<LoaderName, 'load_csv' | 'load_multiple_csvs' | 'load_excel'>;
+  args: any;
+  source: string | string[];
+  mode: 'reload' | 'append';
+  intervalSeconds: number;
+  snapshot: Map<string, string>;
+  timer: NodeJS.Timeout;
+  busy: boolean;
+  lastChange: string | null;
+}
+
+// One column of a fixed-width file; a missing width runs to the end of the line
+interface FixedWidthColumn {
+  name: string;
+  start: number;
+  width?: number;
+  type?: string;
+}
+
+interface AttachedDatabase {
+  path: string;
+  type: 'sqlite' | 'duckdb';
+  readOnly: boolean;
+}
+
+// The rows a load with store_rejects added to "<target>_rejects": those from row id firstRow on. created tells
+// whether the load created the table or appended to the one an earlier load created
+interface StoredRejects {
+  target: string;
+  firstRow: number;
+  created: boolean;
+}
+
+// A truncated query_csv result that cursors page through. Statements that can be used as a subquery are run again
+// for every page and counted once, when the first page is read; the first rows of the rest (PRAGMA, CALL,
+// EXPLAIN, ...) are kept, along with how many there were
+interface QueryResult {
+  query: string;
+  subquery: string | null;
+  rows: any[] | null;
+  totalRows: number | null;
+}
+
+// One source file of a multi-file load, as stored in "<table>_provenance"; rows is null for views
+interface FileProvenance {
+  file: string;
+  rows: number | null;
+  columns: string[];
+  modified: Date | null;
+}
+
+interface CompressionInfo {
+  compression: 'gzip' | 'zstd' | 'zip';
+  compressedSize: number;
+  uncompressedSize: number | null;
+  members: ZipEntry[];
+}
+
+interface WorkbookSheet {
+  name: string;
+  state: string;
+  range: string | null;
+  estimatedRows: number;
+  header: string[];
+}
 
 
 export class QuackMCPServer {
   private server: Server;
-  private db: Database.Database;
-  private loadedTables: Map<string, string> = new Map();
-
-  constructor() {
+  private connection: Promise<DuckDBConnection>;
+  // Statements run one at a time on the connection, in the order they were sent
+  private queryQueue: Promise<void> = Promise.resolve();
+  private loadedTables: Map<string, LoadedTable> = new Map();
+  private watchers: Map<string, TableWatcher> = new Map();
+  private attachedDatabases: Map<string, AttachedDatabase> = new Map();
+  // Which statements query_csv may run; the loaders' own SQL is not restricted
+  private queryPolicy: QueryPolicy;
+  // Default query_csv timeout in seconds; 0 disables it
+  private queryTimeoutSeconds: number;
+  private queryResults: Map<string, QueryResult> = new Map();
+  private queryResultCount = 0;
+  // "<table>_rejects" tables created by loads, which later loads may replace or append to
+  private rejectsTables: Set<string> = new Set();
+
+  constructor(options: { queryPolicy?: QueryPolicy; queryTimeoutSeconds?: number } = {}) {
     this.server = new Server(
       {
         name: 'quack-mcp',
@@ -25,11 +328,19 @@ export class QuackMCPServer {
       {
         capabilities: {
           tools: {},
+          logging: {},
         },
       }
     );
 
-    this.db = new Database.Database(':memory:');
+    this.queryPolicy = options.queryPolicy ?? queryPolicyFromEnv();
+    this.queryTimeoutSeconds = options.queryTimeoutSeconds ?? queryTimeoutFromEnv();
+    // Reading a URL would otherwise install and load httpfs on the fly, reaching the network from a read_only
+    // query; the loaders install and load the extensions they need themselves
+    const config: Record<string, string> = this.queryPolicy === 'full'
+      ? {}
+      : { autoinstall_known_extensions: 'false', autoload_known_extensions: 'false' };
+    this.connection = DuckDBInstance.create(':memory:', config).then(instance => instance.connect());
     this.setupToolHandlers();
   }
 
@@ -44,12 +355,16 @@ export class QuackMCPServer {
             properties: {
               file_path: {
                 type: 'string',
-                description: 'Path to the CSV file to load',
+                description: 'Path to the CSV file to load; .gz and .zst files are decompressed transparently and .zip archives are extracted',
               },
               table_name: {
                 type: 'string',
                 description: 'Name for the table (optional, defaults to filename)',
               },
+              archive_member: {
+                type: 'string',
+                description: 'Member name or glob pattern to load from .zip archives, e.g. "exports/*.csv" (optional, defaults to all CSV members)',
+              },
               delimiter: {
                 type: 'string',
                 description: 'CSV delimiter (default: ",")',
@@ -60,22 +375,76 @@ export class QuackMCPServer {
                 description: 'Whether CSV has header row (default: true)',
                 default: true,
               },
+              preset: {
+                type: 'string',
+                description: `Normalize a bank export into the canonical Date, Name, Memo, Category, Amount columns (money out is negative). Built-in: ${Object.keys(BUILTIN_PRESETS).join(', ')}; user presets are read from the QUACK_MCP_PRESETS file (default ~/.quack-mcp/presets.json)`,
+              },
+              ...READ_CSV_OPTION_PROPERTIES,
+              ...APPEND_OPTION_PROPERTIES,
+              ...SAMPLE_OPTION_PROPERTIES,
+              ...WATCH_OPTION_PROPERTIES,
             },
             required: ['file_path'],
           },
         },
+        {
+          name: 'load_inline_data',
+          description: 'Load CSV or JSON text passed directly in the tool call, e.g. a small table pasted into the chat',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'string',
+                description: 'The CSV or JSON text to load',
+              },
+              table_name: {
+                type: 'string',
+                description: 'Name for the table',
+              },
+              format: {
+                type: 'string',
+                description: 'Format of the data; "auto" treats text starting with [ or { as JSON and anything else as CSV (default: auto)',
+                enum: ['auto', 'csv', 'json'],
+                default: 'auto',
+              },
+              delimiter: {
+                type: 'string',
+                description: 'CSV delimiter (optional, auto-detected)',
+              },
+              header: {
+                type: 'boolean',
+                description: 'Whether CSV has header row (default: true)',
+                default: true,
+              },
+              ...READ_CSV_OPTION_PROPERTIES,
+            },
+            required: ['data', 'table_name'],
+          },
+        },
         {
           name: 'query_csv',
-          description: 'Execute SQL query on loaded CSV data',
+          description: `Execute SQL query on loaded CSV data (query policy ${this.queryPolicy}: ${QUERY_POLICY_SUMMARIES[this.queryPolicy]})`,
           inputSchema: {
             type: 'object',
             properties: {
               query: {
                 type: 'string',
-                description: 'SQL query to execute',
+                description: 'SQL query to execute (required unless cursor is given)',
+              },
+              max_rows: {
+                type: 'number',
+                description: `Maximum rows to return; larger results are truncated and return a cursor for the next page (optional, default: ${DEFAULT_QUERY_PAGE_ROWS})`,
+              },
+              cursor: {
+                type: 'string',
+                description: 'Cursor from a truncated result, to fetch its next page without repeating the query text; the query runs again for each page, so without ORDER BY, or after the tables change, pages can skip or repeat rows (optional)',
               },
+              timeout_seconds: {
+                type: 'number',
+                description: `Give up on the query after this many seconds, 0 for no limit (optional, default: ${this.queryTimeoutSeconds})`,
+              },
+              ...FORMAT_OPTION_PROPERTIES,
             },
-            required: ['query'],
           },
         },
         {
@@ -88,6 +457,7 @@ export class QuackMCPServer {
                 type: 'string',
                 description: 'Name of the table to describe',
               },
+              ...FORMAT_OPTION_PROPERTIES,
             },
             required: ['table_name'],
           },
@@ -97,7 +467,23 @@ export class QuackMCPServer {
           description: 'List all loaded tables',
           inputSchema: {
             type: 'object',
-            properties: {},
+            properties: {
+              ...FORMAT_OPTION_PROPERTIES,
+            },
+          },
+        },
+        {
+          name: 'reload_table',
+          description: 'Reload a table by replaying the load tool call (and any appends) that created it, and report row count and schema changes. Tables loaded with load_inline_data cannot be reloaded',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              table_name: {
+                type: 'string',
+                description: 'Name of the table to reload',
+              },
+            },
+            required: ['table_name'],
           },
         },
         {
@@ -121,7 +507,7 @@ export class QuackMCPServer {
         },
         {
           name: 'load_multiple_csvs',
-          description: 'Load multiple CSV files using glob patterns or file lists into DuckDB for analysis',
+          description: 'Load multiple CSV files using glob patterns or file lists into DuckDB for analysis, recording per-file row counts and columns in a <table>_provenance table',
           inputSchema: {
             type: 'object',
             properties: {
@@ -143,11 +529,20 @@ export class QuackMCPServer {
                 type: 'string',
                 description: 'Name for the combined table (optional, defaults to "multi_csv_data")',
               },
+              archive_member: {
+                type: 'string',
+                description: 'Member name or glob pattern to load from .zip archives, e.g. "exports/*.csv" (optional, defaults to all CSV members)',
+              },
               union_by_name: {
                 type: 'boolean',
                 description: 'Combine files by column name instead of position (default: false)',
                 default: false,
               },
+              fail_on_schema_drift: {
+                type: 'boolean',
+                description: 'Refuse the load when files combined by position have different column names or order (default: false, which loads and reports the drift)',
+                default: false,
+              },
               include_filename: {
                 type: 'boolean',
                 description: 'Include a filename column to track source file for each row (default: false)',
@@ -163,13 +558,18 @@ export class QuackMCPServer {
                 description: 'Whether CSV files have header rows (default: true)',
                 default: true,
               },
+              ...READ_CSV_OPTION_PROPERTIES,
+              ...APPEND_OPTION_PROPERTIES,
+              ...SAMPLE_OPTION_PROPERTIES,
+              ...WATCH_OPTION_PROPERTIES,
+              ...HIVE_PARTITIONING_PROPERTIES,
             },
             required: ['pattern_or_files'],
           },
         },
         {
           name: 'discover_csv_files',
-          description: 'Discover CSV files matching a glob pattern',
+          description: 'Discover CSV files matching a glob pattern, reporting compression and the members of zip archives',
           inputSchema: {
             type: 'object',
             properties: {
@@ -181,6 +581,61 @@ export class QuackMCPServer {
             required: ['pattern'],
           },
         },
+        {
+          name: 'sniff_csv',
+          description: 'Detect the dialect (delimiter, quote, escape, header), date formats and column types of a CSV file without loading it',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file_path: {
+                type: 'string',
+                description: 'Path to the CSV file to inspect',
+              },
+              sample_size: {
+                type: 'number',
+                description: 'Number of rows to sample for detection, -1 to scan the whole file (optional, defaults to DuckDB\'s sample size)',
+              },
+            },
+            required: ['file_path'],
+          },
+        },
+        {
+          name: 'unwatch_table',
+          description: 'Stop watching the source files of a table loaded with watch: true',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              table_name: {
+                type: 'string',
+                description: 'Name of the watched table',
+              },
+            },
+            required: ['table_name'],
+          },
+        },
+        {
+          name: 'inspect_rejects',
+          description: 'Show the malformed rows that were rejected when a table was loaded with store_rejects',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              table_name: {
+                type: 'string',
+                description: 'Name of the loaded table whose rejected rows to show',
+              },
+              error_type: {
+                type: 'string',
+                description: 'Only show rejects of this error type, e.g. "CAST" or "TOO MANY COLUMNS" (optional)',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of rejected rows to show (default: 20)',
+                default: 20,
+              },
+            },
+            required: ['table_name'],
+          },
+        },
         {
           name: 'optimize_expenses',
           description: 'Analyze credit card spending data to identify expense optimization opportunities with actionable recommendations and savings estimates',
@@ -273,13 +728,16 @@ export class QuackMCPServer {
                 description: 'Force all columns to be treated as text (default: false)',
                 default: false,
               },
+              ...APPEND_OPTION_PROPERTIES,
+              ...SAMPLE_OPTION_PROPERTIES,
+              ...WATCH_OPTION_PROPERTIES,
             },
             required: ['file_path'],
           },
         },
         {
           name: 'load_multiple_excels',
-          description: 'Load multiple Excel files using glob patterns or file lists into DuckDB for analysis',
+          description: 'Load multiple Excel files using glob patterns or file lists into DuckDB for analysis, recording per-file row counts and columns in a <table>_provenance table',
           inputSchema: {
             type: 'object',
             properties: {
@@ -306,6 +764,11 @@ export class QuackMCPServer {
                 description: 'Combine files by column name instead of position (default: false)',
                 default: false,
               },
+              fail_on_schema_drift: {
+                type: 'boolean',
+                description: 'Refuse the load when files combined by position have different column names or order (default: false, which loads and reports the drift)',
+                default: false,
+              },
               include_filename: {
                 type: 'boolean',
                 description: 'Include a filename column to track source file for each row (default: false)',
@@ -325,6 +788,8 @@ export class QuackMCPServer {
                 description: 'Force all columns to be treated as text (default: false)',
                 default: false,
               },
+              ...APPEND_OPTION_PROPERTIES,
+              ...SAMPLE_OPTION_PROPERTIES,
             },
             required: ['pattern_or_files'],
           },
@@ -343,1359 +808,4740 @@ export class QuackMCPServer {
             required: ['pattern'],
           },
         },
-      ],
-    }));
-
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      switch (request.params.name) {
-        case 'load_csv':
-          return await this.loadCSV(request.params.arguments);
-        case 'query_csv':
-          return await this.queryCSV(request.params.arguments);
-        case 'describe_table':
-          return await this.describeTable(request.params.arguments);
-        case 'list_tables':
-          return await this.listTables();
-        case 'analyze_csv':
-          return await this.analyzeCSV(request.params.arguments);
-        case 'load_multiple_csvs':
-          return await this.loadMultipleCSVs(request.params.arguments);
-        case 'discover_csv_files':
-          return await this.discoverCSVFiles(request.params.arguments);
-        case 'optimize_expenses':
-          return await this.optimizeExpenses(request.params.arguments);
-        case 'detect_anomalies':
-          return await this.detectAnomalies(request.params.arguments);
-        case 'load_excel':
-          return await this.loadExcel(request.params.arguments);
-        case 'load_multiple_excels':
-          return await this.loadMultipleExcels(request.params.arguments);
-        case 'discover_excel_files':
-          return await this.discoverExcelFiles(request.params.arguments);
-        default:
-          throw new McpError(
-            ErrorCode.MethodNotFound,
-            `Unknown tool: ${request.params.name}`
-          );
-      }
-    });
-  }
-
-  async loadCSV(args: any) {
-    try {
-      const { file_path, table_name, header = true, delimiter } = args;
-
-      // Detect if file_path contains glob patterns
-      const isGlobPattern = file_path.includes('*') || file_path.includes('?') || file_path.includes('[');
-
-      if (isGlobPattern) {
-        // Use glob pattern - first discover files
-        const globQuery = `SELECT file FROM glob('${file_path.replace(/'/g, "''")}')`;
-        const globResult = await this.executeQuery(globQuery);
-        const discoveredFiles = globResult.map((row: any) => row.file);
-
-        if (discoveredFiles.length === 0) {
-          throw new Error(`No CSV files found matching pattern: ${file_path}`);
-        }
-
-        // Generate table name from pattern if not provided
-        const tableName = table_name || `csv_${file_path.replace(/[^a-zA-Z0-9_]/g, '_')}`;
-
-        // Build query for multiple files
-        const escapedPath = file_path.replace(/'/g, "''");
-        let query: string;
-
-        if (delimiter) {
-          query = `
-            CREATE OR REPLACE TABLE "${tableName}" AS 
-            SELECT * FROM read_csv('${escapedPath}', 
-              header=${header},
-              delim='${delimiter}'
-            )
-          `;
-        } else {
-          query = `
-            CREATE OR REPLACE TABLE "${tableName}" AS 
-            SELECT * FROM read_csv('${escapedPath}', 
-              header=${header}
-            )
-          `;
-        }
-
-        console.error('Executing glob CSV query:', query);
-        await this.executeQuery(query);
-
-        // Check if the table has any rows
-        const rowCountQuery = `SELECT COUNT(*) as row_count FROM "${tableName}"`;
-        const rowCountResult = await this.executeQuery(rowCountQuery);
-        const rowCount = Number(rowCountResult[0]?.row_count || 0);
-
-        if (rowCount === 0) {
-          await this.executeQuery(`DROP TABLE IF EXISTS "${tableName}"`);
-          throw new Error('No data was loaded from the CSV files');
-        }
-
-        this.loadedTables.set(tableName, file_path);
-
-        // Automatically inspect the schema and data
-        const schemaInfo = await this.inspectTableSchema(tableName);
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Successfully loaded ${discoveredFiles.length} CSV files matching "${file_path}" as table "${tableName}"\n\nFiles: ${discoveredFiles.slice(0, 5).join(', ')}${discoveredFiles.length > 5 ? '...' : ''}\n\n${schemaInfo}`,
-            },
-          ],
-        };
-      } else {
-        // Single file mode (original behavior)
-
-        // Check if file exists
-        await fs.access(file_path);
-
-        const tableName = table_name || path.basename(file_path, path.extname(file_path)).replace(/[^a-zA-Z0-9_]/g, '_');
-
-        // Build query for single file
-        const escapedPath = file_path.replace(/'/g, "''");
-        let query: string;
-
-        if (delimiter) {
-          query = `
-            CREATE OR REPLACE TABLE "${tableName}" AS 
-            SELECT * FROM read_csv('${escapedPath}', 
-              header=${header},
-              delim='${delimiter}'
-            )
-          `;
-        } else {
-          query = `
-            CREATE OR REPLACE TABLE "${tableName}" AS 
-            SELECT * FROM read_csv('${escapedPath}', 
-              header=${header}
-            )
-          `;
-        }
-
-        console.error('Executing single CSV query:', query);
-        await this.executeQuery(query);
-
-        // Check if the table has any rows
-        const rowCountQuery = `SELECT COUNT(*) as row_count FROM "${tableName}"`;
-        const rowCountResult = await this.executeQuery(rowCountQuery);
-        const rowCount = Number(rowCountResult[0]?.row_count || 0);
-
-        if (rowCount === 0) {
-          // Drop the empty table to clean up
-          await this.executeQuery(`DROP TABLE IF EXISTS "${tableName}"`);
-          throw new Error('CSV file is empty or contains no valid data');
-        }
-
-        this.loadedTables.set(tableName, file_path);
-
-        // Automatically inspect the schema and data
-        const schemaInfo = await this.inspectTableSchema(tableName);
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Successfully loaded CSV file "${file_path}" as table "${tableName}"\n\n${schemaInfo}`,
+        {
+          name: 'list_excel_sheets',
+          description: 'List the sheets of Excel workbooks with their used range, estimated row count and header row',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              pattern: {
+                type: 'string',
+                description: 'Path to an Excel file or glob pattern matching Excel files (e.g., "report.xlsx", "finance/*.xlsx")',
+              },
             },
-          ],
-        };
-      }
-    } catch (error) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Failed to load CSV: ${error instanceof Error ? error.message : String(error)}`
-      );
-    }
-  }
-
-  private async queryCSV(args: any) {
-    try {
-      const { query } = args;
-      const result = await this.executeQuery(query);
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: this.safeStringify(result, null, 2),
+            required: ['pattern'],
           },
-        ],
-      };
-    } catch (error) {
-      throw new McpError(
+        },
+        {
+          name: 'load_workbook',
+          description: 'Load every sheet (or sheets matching a name pattern) of an Excel workbook, either as separate tables or one combined table',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file_path: {
+                type: 'string',
+                description: 'Path to the Excel (.xlsx) workbook to load',
+              },
+              sheet_pattern: {
+                type: 'string',
+                description: 'Only load sheets whose name matches this pattern, using * and ? wildcards (e.g., "2025-*") (optional, defaults to all sheets)',
+              },
+              mode: {
+                type: 'string',
+                description: 'separate: one table per sheet named after the sheet; union: one table with a sheet_name column, or sheet_name_2 if a sheet already has one (default: separate)',
+                default: 'separate',
+                enum: ['separate', 'union'],
+              },
+              table_name: {
+                type: 'string',
+                description: 'Name for the combined table in union mode, or a prefix for sheet tables in separate mode (optional)',
+              },
+              union_by_name: {
+                type: 'boolean',
+                description: 'In union mode, combine sheets by column name instead of position (default: true)',
+                default: true,
+              },
+              range: {
+                type: 'string',
+                description: 'Cell range to load from every sheet (e.g., "A1:C10") (optional, loads all data by default)',
+              },
+              header: {
+                type: 'boolean',
+                description: 'Whether sheets have a header row (default: true)',
+                default: true,
+              },
+              all_varchar: {
+                type: 'boolean',
+                description: 'Force all columns to be treated as text (default: false)',
+                default: false,
+              },
+            },
+            required: ['file_path'],
+          },
+        },
+        {
+          name: 'load_parquet',
+          description: 'Load a Parquet file into DuckDB for analysis',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file_path: {
+                type: 'string',
+                description: 'Path to the Parquet file to load (glob patterns are also accepted)',
+              },
+              table_name: {
+                type: 'string',
+                description: 'Name for the table (optional, defaults to filename)',
+              },
+            },
+            required: ['file_path'],
+          },
+        },
+        {
+          name: 'load_multiple_parquets',
+          description: 'Load multiple Parquet files using glob patterns or file lists into DuckDB for analysis',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              pattern_or_files: {
+                oneOf: [
+                  {
+                    type: 'string',
+                    description: 'Glob pattern to match Parquet files (e.g., "*.parquet", "data/**/*.parquet")',
+                  },
+                  {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Array of specific Parquet file paths to load',
+                  },
+                ],
+                description: 'Glob pattern or array of file paths to load',
+              },
+              table_name: {
+                type: 'string',
+                description: 'Name for the combined table (optional, defaults to "multi_parquet_data")',
+              },
+              union_by_name: {
+                type: 'boolean',
+                description: 'Combine files by column name instead of position (default: false)',
+                default: false,
+              },
+              include_filename: {
+                type: 'boolean',
+                description: 'Include a filename column to track source file for each row (default: false)',
+                default: false,
+              },
+              ...HIVE_PARTITIONING_PROPERTIES,
+            },
+            required: ['pattern_or_files'],
+          },
+        },
+        {
+          name: 'load_json',
+          description: 'Load JSON or newline-delimited JSON files (single file, glob pattern or file list) into DuckDB for analysis',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              pattern_or_files: {
+                oneOf: [
+                  {
+                    type: 'string',
+                    description: 'Path or glob pattern to match JSON files (e.g., "dump.json", "logs/*.ndjson")',
+                  },
+                  {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Array of specific JSON file paths to load',
+                  },
+                ],
+                description: 'File path, glob pattern or array of file paths to load',
+              },
+              table_name: {
+                type: 'string',
+                description: 'Name for the table (optional, defaults to filename for a single file or "json_data")',
+              },
+              archive_member: {
+                type: 'string',
+                description: 'Member name or glob pattern to load from .zip archives, e.g. "exports/*.csv" (optional, defaults to all JSON members)',
+              },
+              format: {
+                type: 'string',
+                description: 'JSON layout: auto, array, newline_delimited or unstructured (default: auto)',
+                default: 'auto',
+                enum: ['auto', 'array', 'newline_delimited', 'unstructured'],
+              },
+              maximum_depth: {
+                type: 'number',
+                description: 'Maximum nesting depth to detect types for; deeper values are kept as JSON (default: -1, unlimited)',
+                default: -1,
+              },
+              flatten_nested: {
+                type: 'boolean',
+                description: 'Flatten nested objects into dotted columns such as "user.address.city" (default: false)',
+                default: false,
+              },
+              union_by_name: {
+                type: 'boolean',
+                description: 'Combine files by key name instead of position (default: false)',
+                default: false,
+              },
+              include_filename: {
+                type: 'boolean',
+                description: 'Include a filename column to track source file for each row (default: false)',
+                default: false,
+              },
+              ...HIVE_PARTITIONING_PROPERTIES,
+            },
+            required: ['pattern_or_files'],
+          },
+        },
+        {
+          name: 'load_fixed_width',
+          description: 'Load a fixed-width text file (e.g. a mainframe report) by slicing each line into columns, from a column spec or inferred from whitespace alignment',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file_path: {
+                type: 'string',
+                description: 'Path to the fixed-width text file; .gz and .zst files are decompressed transparently',
+              },
+              table_name: {
+                type: 'string',
+                description: 'Name for the table (optional, defaults to filename)',
+              },
+              columns: {
+                type: 'array',
+                description: 'Column spec (optional; when omitted, columns are inferred from character positions that are blank on every sampled line)',
+                items: {
+                  type: 'object',
+                  properties: {
+                    name: { type: 'string', description: 'Column name' },
+                    start: { type: 'number', description: '1-based character position where the column starts' },
+                    width: { type: 'number', description: 'Number of characters (optional for the last column, which then runs to the end of the line)' },
+                    type: { type: 'string', description: 'DuckDB type such as INTEGER, DECIMAL(10,2) or DATE (optional, inferred from the values by default)' },
+                  },
+                  required: ['name', 'start'],
+                },
+              },
+              header: {
+                type: 'boolean',
+                description: 'Whether the first line after skip holds column names; used to name inferred columns (default: false)',
+                default: false,
+              },
+              skip: {
+                type: 'number',
+                description: 'Number of leading lines to skip, e.g. report banners (default: 0)',
+                default: 0,
+              },
+            },
+            required: ['file_path'],
+          },
+        },
+        {
+          name: 'load_ofx',
+          description: 'Load OFX/QFX bank or credit card statements into a transactions table ready for optimize_expenses and detect_anomalies',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file_path: {
+                type: 'string',
+                description: 'Path to an .ofx/.qfx file, or a glob pattern such as "downloads/*.qfx"',
+              },
+              table_name: {
+                type: 'string',
+                description: 'Name for the table (optional, defaults to the filename for a single file, otherwise "ofx_transactions")',
+              },
+              deduplicate: {
+                type: 'boolean',
+                description: 'Drop transactions repeated across overlapping downloads, matched by account and FITID (default: true)',
+                default: true,
+              },
+            },
+            required: ['file_path'],
+          },
+        },
+        {
+          name: 'attach_database',
+          description: 'Attach a SQLite or DuckDB database file under an alias so its tables can be queried as alias.table',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file_path: {
+                type: 'string',
+                description: 'Path to the .sqlite/.db or .duckdb file',
+              },
+              alias: {
+                type: 'string',
+                description: 'Name to address the database by in queries (optional, defaults to the file name)',
+              },
+              type: {
+                type: 'string',
+                description: 'Database type (optional, detected from the file header by default)',
+                enum: ['sqlite', 'duckdb'],
+              },
+              read_only: {
+                type: 'boolean',
+                description: 'Attach without write access (default: true)',
+                default: true,
+              },
+            },
+            required: ['file_path'],
+          },
+        },
+      ],
+    }));
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      switch (request.params.name) {
+        case 'load_csv':
+          return await this.loadCSV(request.params.arguments);
+        case 'load_inline_data':
+          return await this.loadInlineData(request.params.arguments);
+        case 'query_csv':
+          return await this.queryCSV(request.params.arguments, extra.signal);
+        case 'describe_table':
+          return await this.describeTable(request.params.arguments);
+        case 'list_tables':
+          return await this.listTables(request.params.arguments);
+        case 'reload_table':
+          return await this.reloadTable(request.params.arguments);
+        case 'analyze_csv':
+          return await this.analyzeCSV(request.params.arguments);
+        case 'load_multiple_csvs':
+          return await this.loadMultipleCSVs(request.params.arguments);
+        case 'discover_csv_files':
+          return await this.discoverCSVFiles(request.params.arguments);
+        case 'sniff_csv':
+          return await this.sniffCSV(request.params.arguments);
+        case 'inspect_rejects':
+          return await this.inspectRejects(request.params.arguments);
+        case 'unwatch_table':
+          return await this.unwatchTable(request.params.arguments);
+        case 'optimize_expenses':
+          return await this.optimizeExpenses(request.params.arguments);
+        case 'detect_anomalies':
+          return await this.detectAnomalies(request.params.arguments);
+        case 'load_excel':
+          return await this.loadExcel(request.params.arguments);
+        case 'load_multiple_excels':
+          return await this.loadMultipleExcels(request.params.arguments);
+        case 'discover_excel_files':
+          return await this.discoverExcelFiles(request.params.arguments);
+        case 'list_excel_sheets':
+          return await this.listExcelSheets(request.params.arguments);
+        case 'load_workbook':
+          return await this.loadWorkbook(request.params.arguments);
+        case 'load_parquet':
+          return await this.loadParquet(request.params.arguments);
+        case 'load_multiple_parquets':
+          return await this.loadMultipleParquets(request.params.arguments);
+        case 'load_json':
+          return await this.loadJSON(request.params.arguments);
+        case 'load_fixed_width':
+          return await this.loadFixedWidth(request.params.arguments);
+        case 'load_ofx':
+          return await this.loadOFX(request.params.arguments);
+        case 'attach_database':
+          return await this.attachDatabase(request.params.arguments);
+        default:
+          throw new McpError(
+            ErrorCode.MethodNotFound,
+            `Unknown tool: ${request.params.name}`
+          );
+      }
+    });
+  }
+
+  async loadCSV(args: any) {
+    let archiveDir: string | null = null;
+    try {
+      const {
+        file_path,
+        table_name,
+        archive_member,
+        store_rejects = false,
+        append_to_table,
+        skip_loaded_files = false,
+        materialize = true,
+        watch = false,
+        preset: presetName
+      } = args;
+
+      this.validateWatchOptions(args);
+      const sampleClause = this.buildSampleClause(args);
+
+      // A preset supplies read options its export needs; explicit arguments still win
+      const preset = presetName !== undefined ? await this.resolvePreset(presetName) : null;
+      const readArgs = preset ? { ...this.presetReadOptions(preset), ...args } : args;
+
+      // Validate and escape read_csv options before touching the filesystem
+      const readOptions = this.buildReadCSVOptions(readArgs).join(',\n            ');
+      const presetNote = preset ? `\n\n🏦 Normalized with preset "${presetName}" into Date, Name, Memo, Category, Amount (money out is negative)` : '';
+
+      // Detect if file_path contains glob patterns
+      const isGlobPattern = file_path.includes('*') || file_path.includes('?') || file_path.includes('[');
+
+      if (isGlobPattern) {
+        // Use glob pattern - first discover files
+        const globQuery = `SELECT file FROM glob('${file_path.replace(/'/g, "''")}')`;
+        const globResult = await this.executeQuery(globQuery);
+        const discoveredFiles = globResult.map((row: any) => row.file);
+
+        if (discoveredFiles.length === 0) {
+          throw new Error(`No CSV files found matching pattern: ${file_path}`);
+        }
+
+        this.validateMaterializeOption(args, discoveredFiles);
+
+        const append = await this.prepareAppend(append_to_table, discoveredFiles, skip_loaded_files);
+        if (append && append.pendingFiles.length === 0) {
+          return this.nothingToAppend(append);
+        }
+        const files = append ? append.pendingFiles : discoveredFiles;
+
+        // Generate table name from pattern if not provided; appends load into a staging table first
+        const tableName = append ? append.stagingTable : table_name || `csv_${file_path.replace(/[^a-zA-Z0-9_]/g, '_')}`;
+
+        // Zip archives matched by the pattern are extracted and read member by member
+        const archive = await this.extractArchiveMembers(files, archive_member, CSV_MEMBER_EXTENSIONS);
+        archiveDir = archive.tempDir;
+
+        // Build query for multiple files
+        const relation = await this.prepareRelation(tableName, materialize);
+        const source = archiveDir || files.length < discoveredFiles.length
+          ? this.buildFileListSource(archive.files)
+          : `'${file_path.replace(/'/g, "''")}'`;
+        const selectList = preset ? await this.buildPresetSelect(presetName, preset, source, readOptions) : '*';
+        const query = `
+          CREATE OR REPLACE ${relation} "${tableName}" AS 
+          SELECT ${selectList} FROM read_csv(${source}, 
+            ${readOptions}
+          ) ${sampleClause}
+        `;
+
+        console.error('Executing glob CSV query:', query);
+        const rejects = await this.runLoadQuery(query, store_rejects ? (append ? append.target : tableName) : null, append !== null);
+
+        // Check if the table has any rows
+        const rowCountQuery = `SELECT COUNT(*) as row_count FROM "${tableName}"`;
+        const rowCountResult = await this.executeQuery(rowCountQuery);
+        const rowCount = Number(rowCountResult[0]?.row_count || 0);
+
+        if (rowCount === 0) {
+          await this.executeQuery(`DROP ${relation} IF EXISTS "${tableName}"`);
+          throw new Error(`No data was loaded from the CSV files${rejects ? await this.summarizeRejectedRows(rejects, false) : ''}`);
+        }
+
+        const rejectSummary = rejects ? await this.summarizeRejectedRows(rejects) : '';
+
+        const appendSummary = append ? await this.appendStagedRows(append, rowCount) : '';
+        const loadedTable = append ? append.target : tableName;
+
+        this.recordLoadedTable(loadedTable, file_path, files, { loader: 'load_csv', args }, append !== null, materialize ? 'table' : 'view');
+
+        const watchNote = watch ? await this.watchTable(loadedTable, 'load_csv', args) : '';
+        const compressionSummary = await this.summarizeCompression(files);
+
+        // Automatically inspect the schema and data
+        const schemaInfo = await this.inspectTableSchema(loadedTable);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Successfully loaded ${files.length} CSV files matching "${file_path}" as table "${loadedTable}"\n\nFiles: ${files.slice(0, 5).join(', ')}${files.length > 5 ? '...' : ''}${materialize ? '' : VIEW_MODE_NOTE}${presetNote}${this.sampleNote(loadedTable)}${appendSummary}${watchNote}${compressionSummary}${rejectSummary}\n\n${schemaInfo}`,
+            },
+          ],
+        };
+      } else {
+        // Single file mode (original behavior)
+
+        // Check if file exists
+        await fs.access(file_path);
+
+        this.validateMaterializeOption(args, [file_path]);
+
+        const append = await this.prepareAppend(append_to_table, [file_path], skip_loaded_files);
+        if (append && append.pendingFiles.length === 0) {
+          return this.nothingToAppend(append);
+        }
+
+        const tableName = append ? append.stagingTable : table_name || this.defaultTableName(file_path);
+
+        // A zip archive is extracted so each matching member can be read
+        const archive = await this.extractArchiveMembers([file_path], archive_member, CSV_MEMBER_EXTENSIONS);
+        archiveDir = archive.tempDir;
+
+        // Build query for single file
+        const relation = await this.prepareRelation(tableName, materialize);
+        const source = archiveDir ? this.buildFileListSource(archive.files) : `'${file_path.replace(/'/g, "''")}'`;
+        const selectList = preset ? await this.buildPresetSelect(presetName, preset, source, readOptions) : '*';
+        const query = `
+          CREATE OR REPLACE ${relation} "${tableName}" AS 
+          SELECT ${selectList} FROM read_csv(${source}, 
+            ${readOptions}
+          ) ${sampleClause}
+        `;
+
+        console.error('Executing single CSV query:', query);
+        const rejects = await this.runLoadQuery(query, store_rejects ? (append ? append.target : tableName) : null, append !== null);
+
+        // Check if the table has any rows
+        const rowCountQuery = `SELECT COUNT(*) as row_count FROM "${tableName}"`;
+        const rowCountResult = await this.executeQuery(rowCountQuery);
+        const rowCount = Number(rowCountResult[0]?.row_count || 0);
+
+        if (rowCount === 0) {
+          // Drop the empty table to clean up
+          await this.executeQuery(`DROP ${relation} IF EXISTS "${tableName}"`);
+          throw new Error(`CSV file is empty or contains no valid data${rejects ? await this.summarizeRejectedRows(rejects, false) : ''}`);
+        }
+
+        const rejectSummary = rejects ? await this.summarizeRejectedRows(rejects) : '';
+
+        const appendSummary = append ? await this.appendStagedRows(append, rowCount) : '';
+        const loadedTable = append ? append.target : tableName;
+
+        this.recordLoadedTable(loadedTable, file_path, [file_path], { loader: 'load_csv', args }, append !== null, materialize ? 'table' : 'view');
+
+        const watchNote = watch ? await this.watchTable(loadedTable, 'load_csv', args) : '';
+        const compressionSummary = await this.summarizeCompression([file_path]);
+
+        // Automatically inspect the schema and data
+        const schemaInfo = await this.inspectTableSchema(loadedTable);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Successfully loaded CSV file "${file_path}" as table "${loadedTable}"${materialize ? '' : VIEW_MODE_NOTE}${presetNote}${this.sampleNote(loadedTable)}${appendSummary}${watchNote}${compressionSummary}${rejectSummary}\n\n${schemaInfo}`,
+            },
+          ],
+        };
+      }
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to load CSV: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      if (archiveDir) {
+        await fs.rm(archiveDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  async loadInlineData(args: any) {
+    let inlineDir: string | null = null;
+    try {
+      const { data, table_name, format = 'auto', store_rejects = false } = args;
+
+      if (typeof data !== 'string' || data.trim().length === 0) {
+        throw new Error('data must be a non-empty string');
+      }
+      if (Buffer.byteLength(data) > INLINE_DATA_LIMIT_BYTES) {
+        throw new Error(`Inline data is limited to ${this.formatBytes(INLINE_DATA_LIMIT_BYTES)}; save it to a file and use load_csv or load_json instead`);
+      }
+      if (typeof table_name !== 'string' || table_name.length === 0) {
+        throw new Error('table_name is required');
+      }
+      if (!['auto', 'csv', 'json'].includes(format)) {
+        throw new Error(`Unsupported format "${format}". Use auto, csv or json.`);
+      }
+
+      const tableName = table_name.replace(/[^a-zA-Z0-9_]/g, '_');
+      const trimmed = data.trimStart();
+      const isJSON = format === 'json' || (format === 'auto' && (trimmed.startsWith('[') || trimmed.startsWith('{')));
+
+      // Validate and escape read_csv options before touching the filesystem
+      const readOptions = isJSON ? "format='auto'" : this.buildReadCSVOptions(args).join(',\n            ');
+
+      // DuckDB reads from files, so the text is staged in a private temp directory for the duration of the load
+      inlineDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quack-mcp-inline-'));
+      const dataPath = path.join(inlineDir, isJSON ? 'data.json' : 'data.csv');
+      await fs.writeFile(dataPath, data);
+
+      const query = `
+        CREATE OR REPLACE TABLE "${tableName}" AS 
+        SELECT * FROM ${isJSON ? 'read_json' : 'read_csv'}('${dataPath.replace(/'/g, "''")}', 
+          ${readOptions}
+        )
+      `;
+
+      console.error('Executing inline data query:', query);
+      const rejects = await this.runLoadQuery(query, store_rejects && !isJSON ? tableName : null);
+
+      // Check if the table has any rows
+      const rowCountResult = await this.executeQuery(`SELECT COUNT(*) as row_count FROM "${tableName}"`);
+      const rowCount = Number(rowCountResult[0]?.row_count || 0);
+
+      if (rowCount === 0) {
+        await this.executeQuery(`DROP TABLE IF EXISTS "${tableName}"`);
+        throw new Error(`Inline data contains no rows${rejects ? await this.summarizeRejectedRows(rejects, false) : ''}`);
+      }
+
+      const rejectSummary = rejects ? await this.summarizeRejectedRows(rejects) : '';
+
+      // The text itself is not kept, so the table is listed but cannot be reloaded
+      const recordedArgs = Object.fromEntries(Object.entries(args).filter(([key]) => key !== 'data'));
+      this.recordLoadedTable(tableName, `(inline ${isJSON ? 'JSON' : 'CSV'} data)`, [], { loader: 'load_inline_data', args: recordedArgs });
+
+      // Automatically inspect the schema and data
+      const schemaInfo = await this.inspectTableSchema(tableName);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Successfully loaded inline ${isJSON ? 'JSON' : 'CSV'} data (${this.formatBytes(Buffer.byteLength(data))}) as table "${tableName}"${rejectSummary}\n\n${schemaInfo}`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to load inline data: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      if (inlineDir) {
+        await fs.rm(inlineDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * Runs a query_csv call. The query gives up when timeout_seconds pass or the client cancels the request
+   * (cancelSignal), whichever comes first.
+   */
+  private async queryCSV(args: any, cancelSignal?: AbortSignal) {
+    const { query, cursor, max_rows: maxRows = DEFAULT_QUERY_PAGE_ROWS, timeout_seconds: timeoutSeconds = this.queryTimeoutSeconds } = args;
+    const format = this.outputFormat(args);
+
+    if (!Number.isInteger(maxRows) || maxRows < 1) {
+      throw new McpError(ErrorCode.InvalidParams, 'max_rows must be a positive integer');
+    }
+    // Timers cannot wait longer than 2^31 - 1 milliseconds
+    if (typeof timeoutSeconds !== 'number' || !(timeoutSeconds >= 0 && timeoutSeconds * 1000 <= 2 ** 31 - 1)) {
+      throw new McpError(ErrorCode.InvalidParams, 'timeout_seconds must be a number of seconds up to 2147483, or 0 for no timeout');
+    }
+
+    const signals = [
+      ...(timeoutSeconds > 0 ? [AbortSignal.timeout(Math.ceil(timeoutSeconds * 1000))] : []),
+      ...(cancelSignal ? [cancelSignal] : []),
+    ];
+    const signal = signals.length > 0 ? AbortSignal.any(signals) : undefined;
+
+    if (cursor !== undefined) {
+      return this.queryResultPage(String(cursor), query, maxRows, format, signal, timeoutSeconds);
+    }
+    if (query === undefined) {
+      throw new McpError(ErrorCode.InvalidParams, 'Provide a query, or a cursor from a truncated result');
+    }
+
+    // Rejected before the try block so policy violations are not reported as failed queries
+    const violation = checkQueryPolicy(String(query), this.queryPolicy);
+    if (violation) {
+      throw new McpError(ErrorCode.InvalidRequest, `Query rejected: ${violation}`);
+    }
+
+    try {
+      const subquery = subquerySQL(String(query));
+      let result: QueryResult;
+
+      if (subquery) {
+        result = { query, subquery, rows: null, totalRows: null };
+      } else {
+        const rows = await this.executeQuery(query, signal, { multipleStatements: true, exactDecimals: true });
+        if (rows.length <= maxRows) return this.formatQueryPage(rows, format);
+        result = { query, subquery: null, rows: rows.slice(0, MAX_KEPT_QUERY_ROWS), totalRows: rows.length };
+      }
+
+      // Results that fit on one page need no cursor
+      const page = await this.fetchQueryPage(result, 0, maxRows, signal);
+      if (!page.hasMore) {
+        return this.formatQueryPage(page.rows, format, await this.resultColumnTypes(result, format, signal));
+      }
+
+      if (result.subquery) {
+        const [{ total }] = await this.executeQuery(`SELECT COUNT(*) AS total FROM (\n${result.subquery}\n)`, signal);
+        result.totalRows = Number(total);
+      }
+
+      const id = `q${++this.queryResultCount}`;
+      this.queryResults.set(id, result);
+      this.evictQueryResults();
+
+      return await this.renderQueryPage(id, result, 0, page, maxRows, format, signal);
+    } catch (error) {
+      throw this.queryError(error, signal, timeoutSeconds);
+    }
+  }
+
+  /**
+   * Returns the page of a stored result that a cursor ("<result id>:<offset>") points at.
+   */
+  private async queryResultPage(
+    cursor: string,
+    query: string | undefined,
+    maxRows: number,
+    format: OutputFormat,
+    signal: AbortSignal | undefined,
+    timeoutSeconds: number
+  ) {
+    const match = cursor.match(/^(q\d+):(\d+)$/);
+    if (!match) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid cursor "${cursor}"; pass the cursor from a truncated query_csv result`);
+    }
+
+    const [, id, offsetText] = match;
+    const offset = Number(offsetText);
+    const result = this.queryResults.get(id);
+    if (!result) {
+      throw new McpError(ErrorCode.InvalidParams, `Cursor "${cursor}" has expired (only the last ${MAX_QUERY_RESULTS} truncated results are kept); run the query again`);
+    }
+    if (query !== undefined && query !== result.query) {
+      throw new McpError(ErrorCode.InvalidParams, `Cursor "${cursor}" belongs to a different query; omit query when passing a cursor`);
+    }
+    if (result.rows && offset >= result.rows.length) {
+      throw new McpError(ErrorCode.InvalidParams, `Cursor "${cursor}" is past the last kept row (${result.rows.length} of ${result.totalRows} rows are kept)`);
+    }
+    if (!result.rows && offset >= result.totalRows!) {
+      throw new McpError(ErrorCode.InvalidParams, `Cursor "${cursor}" is past the last row (the result has ${result.totalRows} rows)`);
+    }
+
+    let page: { rows: any[]; hasMore: boolean };
+    try {
+      page = await this.fetchQueryPage(result, offset, maxRows, signal);
+    } catch (error) {
+      throw this.queryError(error, signal, timeoutSeconds);
+    }
+    if (page.rows.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Cursor "${cursor}" is past the last row of the result`);
+    }
+
+    try {
+      return await this.renderQueryPage(id, result, offset, page, maxRows, format, signal);
+    } catch (error) {
+      throw this.queryError(error, signal, timeoutSeconds);
+    }
+  }
+
+  /**
+   * Reads maxRows rows of a result from offset on. Subquery results are run again with LIMIT and OFFSET, fetching
+   * one row more than the page to find out whether another page follows.
+   */
+  private async fetchQueryPage(result: QueryResult, offset: number, maxRows: number, signal?: AbortSignal) {
+    if (result.rows) {
+      return { rows: result.rows.slice(offset, offset + maxRows), hasMore: offset + maxRows < result.rows.length };
+    }
+
+    const rows = await this.executeQuery(`SELECT * FROM (\n${result.subquery}\n) LIMIT ${maxRows + 1} OFFSET ${offset}`, signal, { exactDecimals: true });
+    return { rows: rows.slice(0, maxRows), hasMore: rows.length > maxRows };
+  }
+
+  private async renderQueryPage(
+    id: string,
+    result: QueryResult,
+    offset: number,
+    page: { rows: any[]; hasMore: boolean },
+    maxRows: number,
+    format: OutputFormat,
+    signal?: AbortSignal
+  ) {
+    const first = offset + 1;
+    const last = offset + page.rows.length;
+    const of = result.totalRows !== null ? ` of ${result.totalRows}` : '';
+
+    let pageInfo: string;
+    if (page.hasMore) {
+      pageInfo = `⚠️ Truncated: showing rows ${first}-${last}${of}. Call query_csv with cursor "${id}:${last}" for the next page.`;
+    } else if (result.rows && result.totalRows! > result.rows.length) {
+      pageInfo = `⚠️ Last kept page: rows ${first}-${last}${of}. Only the first ${MAX_KEPT_QUERY_ROWS} rows of statements ` +
+        'that cannot be used as a subquery are kept for paging; narrow the statement to see the rest.';
+    } else {
+      pageInfo = `✅ Last page: rows ${first}-${last}${of}.`;
+    }
+
+    return this.formatQueryPage(page.rows, format, await this.resultColumnTypes(result, format, signal), pageInfo);
+  }
+
+  // Timeouts and cancellation get their own errors so clients can tell them apart from SQL errors
+  private queryError(error: unknown, signal: AbortSignal | undefined, timeoutSeconds: number): McpError {
+    if (error instanceof McpError) return error;
+
+    if (signal?.aborted && error === signal.reason) {
+      return error instanceof DOMException && error.name === 'TimeoutError'
+        ? new McpError(ErrorCode.RequestTimeout, `Query timed out after ${timeoutSeconds} seconds`)
+        : new McpError(ErrorCode.InternalError, 'Query cancelled by the client');
+    }
+
+    return new McpError(
+      ErrorCode.InternalError,
+      `Query failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  // The rows are always the first content item, in the requested format; paging information follows as a second one
+  private formatQueryPage(rows: any[], format: OutputFormat, columnTypes: Record<string, string> = {}, pageInfo?: string) {
+    const content = [{ type: 'text', text: formatRows(rows, format, columnTypes) }];
+    if (pageInfo) content.push({ type: 'text', text: pageInfo });
+    return { content };
+  }
+
+  // Column types for type-aware markdown and csv output; JSON output and kept rows, which have no query to describe, go without
+  private async resultColumnTypes(result: QueryResult, format: OutputFormat, signal?: AbortSignal): Promise<Record<string, string>> {
+    if (format === 'json' || format === 'jsonl' || !result.subquery) return {};
+
+    const schema = await this.executeQuery(`DESCRIBE SELECT * FROM (\n${result.subquery}\n)`, signal);
+    return Object.fromEntries(schema.map((column: any) => [column.column_name, column.column_type]));
+  }
+
+  private outputFormat(args: any): OutputFormat {
+    try {
+      return parseOutputFormat(args?.format);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private evictQueryResults() {
+    for (const id of this.queryResults.keys()) {
+      if (this.queryResults.size <= MAX_QUERY_RESULTS) break;
+      this.queryResults.delete(id);
+    }
+  }
+
+  private async describeTable(args: any) {
+    const format = this.outputFormat(args);
+
+    try {
+      const { table_name } = args;
+      const result = await this.executeQuery(`DESCRIBE ${await this.tableReference(table_name)}`);
+
+      const loaded = this.loadedTables.get(table_name);
+      const attached = this.attachedDatabases.get(String(table_name).split('.')[0]);
+      const modeInfo = loaded?.mode === 'view'
+        ? `\n\nView over source files (materialize: false): ${loaded.source}`
+        : attached
+          ? `\n\nAttached ${attached.type} database${attached.readOnly ? ' (read-only)' : ''}: ${attached.path}`
+          : '';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Schema for table "${table_name}":\n${formatRows(result, format)}${modeInfo}${this.sampleNote(table_name)}`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to describe table: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async listTables(args: any = {}) {
+    const format = this.outputFormat(args);
+
+    try {
+      const tables: any[] = Array.from(this.loadedTables.entries()).map(([name, info]) => ({
+        table_name: name,
+        file_path: info.source,
+        files_loaded: info.files.length,
+        loaded_by: info.loads[0]?.loader,
+        mode: info.mode,
+        sample: info.sample,
+        watch: this.describeWatcher(name),
+      }));
+
+      for (const [alias, database] of this.attachedDatabases) {
+        for (const table of await this.listAttachedTables(alias)) {
+          tables.push({
+            table_name: table.name,
+            file_path: database.path,
+            mode: `attached ${database.type}${database.readOnly ? ' (read-only)' : ''} ${table.kind}`,
+          });
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Loaded tables:\n${formatRows(tables, format)}`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to list tables: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async reloadTable(args: any) {
+    try {
+      const { table_name } = args;
+      const loaded = this.loadedTables.get(table_name);
+
+      if (!loaded) {
+        throw new Error(`Table "${table_name}" was not created by a load tool, so there is no load to replay`);
+      }
+
+      const loads = loaded.loads;
+      if (loads.some(spec => spec.loader === 'load_inline_data')) {
+        throw new Error(`Table "${table_name}" was loaded from inline data, which is not kept; call load_inline_data with the data again instead`);
+      }
+
+      const beforeRows = await this.executeQuery(`SELECT COUNT(*) as row_count FROM "${table_name}"`);
+      const beforeSchema = await this.executeQuery(`DESCRIBE "${table_name}"`);
+
+      for (const spec of loads) {
+        await this.replayLoad(spec);
+      }
+
+      const afterRows = await this.executeQuery(`SELECT COUNT(*) as row_count FROM "${table_name}"`);
+      const afterSchema = await this.executeQuery(`DESCRIBE "${table_name}"`);
+
+      const rowsBefore = Number(beforeRows[0]?.row_count || 0);
+      const rowsAfter = Number(afterRows[0]?.row_count || 0);
+      const rowDelta = rowsAfter - rowsBefore;
+
+      const beforeTypes = new Map<string, string>(beforeSchema.map((column: any) => [column.column_name, column.column_type]));
+      const afterTypes = new Map<string, string>(afterSchema.map((column: any) => [column.column_name, column.column_type]));
+
+      const added = [...afterTypes.keys()].filter(name => !beforeTypes.has(name));
+      const removed = [...beforeTypes.keys()].filter(name => !afterTypes.has(name));
+      const retyped = [...afterTypes.keys()].filter(name => beforeTypes.has(name) && beforeTypes.get(name) !== afterTypes.get(name));
+
+      let schemaSummary = '';
+      if (added.length > 0) {
+        schemaSummary += `\n➕ Added columns: ${added.map(name => `${name} (${afterTypes.get(name)})`).join(', ')}`;
+      }
+      if (removed.length > 0) {
+        schemaSummary += `\n➖ Removed columns: ${removed.map(name => `${name} (${beforeTypes.get(name)})`).join(', ')}`;
+      }
+      if (retyped.length > 0) {
+        schemaSummary += `\n🔀 Changed types: ${retyped.map(name => `${name} ${beforeTypes.get(name)} → ${afterTypes.get(name)}`).join(', ')}`;
+      }
+      if (!schemaSummary) {
+        schemaSummary = '\n✅ Schema unchanged';
+      }
+
+      const replayInfo = loads.length > 1
+        ? `${loads[0].loader} and ${loads.length - 1} append${loads.length > 2 ? 's' : ''}`
+        : loads[0].loader;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Reloaded table "${table_name}" by replaying ${replayInfo}\n\nRows: ${rowsBefore} → ${rowsAfter} (${rowDelta >= 0 ? '+' : ''}${rowDelta})${schemaSummary}`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to reload table: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async analyzeCSV(args: any) {
+    try {
+      const { table_name, columns } = args;
+      const table = await this.tableReference(table_name);
+
+      let query: string;
+      if (columns && columns.length > 0) {
+        const columnStats = columns
+          .map((col: string) => {
+            const quoted = this.quoteIdentifier(col);
+            const alias = (suffix: string) => this.quoteIdentifier(`${col}_${suffix}`);
+            return `
+            COUNT(${quoted}) as ${alias('count')},
+            COUNT(DISTINCT ${quoted}) as ${alias('unique')},
+            MIN(${quoted}) as ${alias('min')},
+            MAX(${quoted}) as ${alias('max')},
+            AVG(TRY_CAST(${quoted} AS DOUBLE)) as ${alias('avg')}
+          `;
+          })
+          .join(',');
+        query = `SELECT ${columnStats} FROM ${table}`;
+      } else {
+        query = `
+          SELECT 
+            COUNT(*) as total_rows,
+            COUNT(*) - COUNT(*) as missing_values
+          FROM ${table}
+        `;
+      }
+
+      const result = await this.executeQuery(query);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Analysis for table "${table_name}":\n${safeStringify(result, 2)}${this.sampleNote(table_name)}`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Analysis failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async loadMultipleCSVs(args: any) {
+    let archiveDir: string | null = null;
+    try {
+      const {
+        pattern_or_files,
+        table_name = 'multi_csv_data',
+        union_by_name = false,
+        fail_on_schema_drift = false,
+        include_filename = false,
+        delimiter = ',',
+        archive_member,
+        store_rejects = false,
+        append_to_table,
+        skip_loaded_files = false,
+        hive_partitioning = false,
+        materialize = true,
+        watch = false
+      } = args;
+
+      this.validateWatchOptions(args);
+      const sampleClause = this.buildSampleClause(args);
+
+      // Validate table name; appends always go to the existing table
+      const tableName = (append_to_table || table_name).replace(/[^a-zA-Z0-9_]/g, '_');
+
+      // Validate and escape read_csv options before touching the filesystem
+      const readOptions = [
+        ...this.buildReadCSVOptions({ ...args, delimiter }),
+        ...this.buildHivePartitioningOptions(args),
+      ].join(',\n            ');
+
+      let discoveredFiles: string[] = [];
+
+      if (typeof pattern_or_files === 'string') {
+        // Discover files if it's a glob pattern
+        if (pattern_or_files.includes('*') || pattern_or_files.includes('?') || pattern_or_files.includes('[')) {
+          const globQuery = `SELECT file FROM glob('${pattern_or_files.replace(/'/g, "''")}')`;
+          const globResult = await this.executeQuery(globQuery);
+          discoveredFiles = globResult.map((row: any) => row.file);
+
+          if (discoveredFiles.length === 0) {
+            throw new Error(`No CSV files found matching pattern: ${pattern_or_files}`);
+          }
+        }
+      } else if (Array.isArray(pattern_or_files)) {
+        // For arrays, we'll create a list format that DuckDB can handle
+        discoveredFiles = pattern_or_files;
+
+        // Check if all files exist
+        for (const filePath of pattern_or_files) {
+          try {
+            await fs.access(filePath);
+          } catch {
+            throw new Error(`File not found: ${filePath}`);
+          }
+        }
+      } else {
+        throw new Error('pattern_or_files must be a string (glob pattern) or array of file paths');
+      }
+
+      // Zip archives are extracted and their members read alongside the plain files
+      const inputFiles: string[] = discoveredFiles.length === 0 && typeof pattern_or_files === 'string' ? [pattern_or_files] : discoveredFiles;
+
+      this.validateMaterializeOption(args, inputFiles);
+
+      const append = await this.prepareAppend(append_to_table, inputFiles, skip_loaded_files);
+      if (append && append.pendingFiles.length === 0) {
+        return this.nothingToAppend(append);
+      }
+      const files = append ? append.pendingFiles : inputFiles;
+      const loadTable = append ? append.stagingTable : tableName;
+
+      // Extracted members lose their directory path, and with it the partition values
+      if (hive_partitioning && files.some(file => file.toLowerCase().endsWith('.zip'))) {
+        throw new Error('hive_partitioning cannot be combined with zip archives; extract them into the partitioned directories first');
+      }
+
+      const archive = await this.extractArchiveMembers(files, archive_member, CSV_MEMBER_EXTENSIONS);
+      archiveDir = archive.tempDir;
+
+      // Compare the files first: without union_by_name, read_csv combines files with different columns by position
+      const readSource = (file: string) => `read_csv('${file.replace(/'/g, "''")}', ${readOptions})`;
+      const schemas = await this.describeFiles(archive.files, readSource);
+      const driftSummary = this.checkSchemaDrift(schemas, archive.labels, union_by_name, fail_on_schema_drift);
+
+      // Build the DuckDB query based on input type
+      const relation = await this.prepareRelation(loadTable, materialize);
+      let query: string;
+
+      // Tables always tag rows with their file so they can be counted per file; the column is dropped unless requested
+      const fileColumn = include_filename ? 'filename' : PROVENANCE_FILE_COLUMN;
+      const filenameOption = materialize && !include_filename ? `'${PROVENANCE_FILE_COLUMN}'` : include_filename;
+
+      if (archiveDir || files.length < inputFiles.length) {
+        query = `
+          CREATE OR REPLACE ${relation} "${loadTable}" AS 
+          SELECT * FROM read_csv(${this.buildFileListSource(archive.files)},
+            ${readOptions},
+            union_by_name=${union_by_name},
+            filename=${filenameOption}
+          ) ${sampleClause}
+        `;
+      } else if (typeof pattern_or_files === 'string') {
+        // Use direct string for glob patterns
+        const escapedPattern = pattern_or_files.replace(/'/g, "''");
+        query = `
+          CREATE OR REPLACE ${relation} "${loadTable}" AS 
+          SELECT * FROM read_csv('${escapedPattern}',
+            ${readOptions},
+            union_by_name=${union_by_name},
+            filename=${filenameOption}
+          ) ${sampleClause}
+        `;
+      } else {
+        // Use array format for file lists
+        const fileList = pattern_or_files.map(f => `'${f.replace(/'/g, "''")}'`).join(', ');
+        query = `
+          CREATE OR REPLACE ${relation} "${loadTable}" AS 
+          SELECT * FROM read_csv([${fileList}],
+            ${readOptions},
+            union_by_name=${union_by_name},
+            filename=${filenameOption}
+          ) ${sampleClause}
+        `;
+      }
+
+      console.error('Executing multi-CSV query:', query);
+      const rejects = await this.runLoadQuery(query, store_rejects ? tableName : null, append !== null);
+
+      // Check if the table has any rows
+      const rowCountQuery = `SELECT COUNT(*) as row_count FROM "${loadTable}"`;
+      const rowCountResult = await this.executeQuery(rowCountQuery);
+      const rowCount = Number(rowCountResult[0]?.row_count || 0);
+
+      if (rowCount === 0) {
+        await this.executeQuery(`DROP ${relation} IF EXISTS "${loadTable}"`);
+        throw new Error(`No data was loaded from the CSV files${rejects ? await this.summarizeRejectedRows(rejects, false) : ''}`);
+      }
+
+      const rejectSummary = rejects ? await this.summarizeRejectedRows(rejects) : '';
+
+      if (include_filename) {
+        await this.relabelArchiveFilenames(loadTable, archive.labels);
+      }
+
+      const rowCounts = materialize ? await this.countRowsPerFile(loadTable, fileColumn) : null;
+      if (materialize && !include_filename) {
+        await this.executeQuery(`ALTER TABLE "${loadTable}" DROP COLUMN "${PROVENANCE_FILE_COLUMN}"`);
+      }
+
+      const appendSummary = append ? await this.appendStagedRows(append, rowCount) : '';
+
+      // Store the table reference
+      this.recordLoadedTable(
+        tableName,
+        typeof pattern_or_files === 'string' ? pattern_or_files : pattern_or_files.join(', '),
+        files,
+        { loader: 'load_multiple_csvs', args },
+        append !== null,
+        materialize ? 'table' : 'view'
+      );
+
+      const provenance = await this.collectFileProvenance(archive.files, files, archive.labels, rowCounts, schemas);
+      const provenanceSummary = await this.recordFileProvenance(tableName, provenance, append !== null, sampleClause !== '');
+
+      const watchNote = watch ? await this.watchTable(tableName, 'load_multiple_csvs', args) : '';
+      const compressionSummary = await this.summarizeCompression(files);
+      const partitionSummary = hive_partitioning ? await this.describePartitionColumns(tableName, files) : '';
+
+      // Get schema and sample information
+      const schemaInfo = await this.inspectTableSchema(tableName);
+
+      const fileCountText = discoveredFiles.length > 0
+        ? `${files.length} files`
+        : 'multiple files';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Successfully loaded ${fileCountText} as table "${tableName}"${provenanceSummary}${driftSummary}${materialize ? '' : VIEW_MODE_NOTE}${this.sampleNote(tableName)}${appendSummary}${watchNote}${partitionSummary}${compressionSummary}${rejectSummary}\n\n${schemaInfo}`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Multi-CSV loading failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      if (archiveDir) {
+        await fs.rm(archiveDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  private async discoverCSVFiles(args: any) {
+    try {
+      const { pattern } = args;
+
+      // Use DuckDB's glob function to find matching files
+      const query = `SELECT file FROM glob('${pattern.replace(/'/g, "''")}') ORDER BY file`;
+      const result = await this.executeQuery(query);
+
+      const files = result.map((row: any) => row.file);
+
+      // Get additional file info if possible
+      const fileInfo = await Promise.all(files.map(async (filePath: string) => {
+        try {
+          const stats = await fs.stat(filePath);
+          return {
+            path: filePath,
+            size: stats.size,
+            modified: stats.mtime.toISOString(),
+            exists: true,
+            compression: await this.describeCompression(filePath)
+          };
+        } catch (error) {
+          return {
+            path: filePath,
+            size: 0,
+            modified: null,
+            exists: false,
+            compression: null,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          };
+        }
+      }));
+
+      const totalSize = fileInfo.reduce((sum, info) => sum + (info.exists ? info.size : 0), 0);
+      const existingFiles = fileInfo.filter(info => info.exists);
+      const compressedFiles = fileInfo.filter(info => info.compression);
+
+      const describeFile = (info: typeof fileInfo[number]) => {
+        if (!info.exists) return `- ${info.path} (NOT FOUND)`;
+
+        let line = `- ${info.path} (${(info.size / 1024).toFixed(1)} KB, modified: ${info.modified}`;
+        if (info.compression) {
+          line += `, ${this.formatCompression(info.compression)}`;
+        }
+        line += ')';
+
+        // List archive members so a single one can be picked with archive_member
+        for (const member of info.compression?.members || []) {
+          line += `\n    • ${member.name} (${this.formatBytes(member.compressedSize)} → ${this.formatBytes(member.uncompressedSize)})`;
+        }
+        return line;
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Found ${files.length} files matching pattern "${pattern}"\n\nExisting files: ${existingFiles.length}\nCompressed files and archives: ${compressedFiles.length}\nTotal size: ${(totalSize / 1024 / 1024).toFixed(2)} MB${this.summarizeHivePartitions(files)}\n\nFile Details:\n${fileInfo.map(describeFile).join('\n')}`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `CSV file discovery failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async sniffCSV(args: any) {
+    try {
+      const { file_path, sample_size } = args;
+
+      if (sample_size !== undefined && (!Number.isInteger(sample_size) || (sample_size < 1 && sample_size !== -1))) {
+        throw new Error('sample_size must be a positive integer or -1');
+      }
+
+      // Check if file exists
+      await fs.access(file_path);
+
+      const escapedPath = file_path.replace(/'/g, "''");
+      const sampleOption = sample_size !== undefined ? `, sample_size=${sample_size}` : '';
+      const result = await this.executeQuery(`SELECT * FROM sniff_csv('${escapedPath}'${sampleOption})`);
+      const sniff = result[0];
+
+      if (!sniff) {
+        throw new Error('Could not detect a CSV dialect for this file');
+      }
+
+      const columns: { name: string; type: string }[] = sniff.Columns || [];
+      const describe = (value: string | null | undefined) =>
+        value === null || value === undefined || value === '' || value === '(empty)' ? 'none' : JSON.stringify(value);
+
+      let response = `🔎 CSV DIALECT: "${file_path}"\n`;
+      response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
+      response += `Delimiter: ${describe(sniff.Delimiter)}\n`;
+      response += `Quote: ${describe(sniff.Quote)}\n`;
+      response += `Escape: ${describe(sniff.Escape)}\n`;
+      response += `New line: ${describe(sniff.NewLineDelimiter)}\n`;
+      response += `Skipped leading rows: ${Number(sniff.SkipRows || 0)}\n`;
+      response += `Header row: ${sniff.HasHeader ? 'yes' : 'no'}\n`;
+      response += `Date format: ${describe(sniff.DateFormat)}\n`;
+      response += `Timestamp format: ${describe(sniff.TimestampFormat)}\n`;
+
+      response += `\n🏗️ INFERRED COLUMNS (${columns.length}):\n`;
+      columns.forEach((col, index) => {
+        response += `  ${index + 1}. ${this.getColumnTypeIcon(col.type)} ${col.name} (${col.type})\n`;
+      });
+
+      // Leave out what was not detected: an explicit empty quote or escape would turn it off rather than auto-detect it
+      const suggestedArgs: Record<string, any> = { file_path, delimiter: sniff.Delimiter, header: Boolean(sniff.HasHeader) };
+      if (describe(sniff.Quote) !== 'none') suggestedArgs.quote = sniff.Quote;
+      if (describe(sniff.Escape) !== 'none') suggestedArgs.escape = sniff.Escape;
+      if (Number(sniff.SkipRows || 0) > 0) suggestedArgs.skip = Number(sniff.SkipRows);
+      if (describe(sniff.DateFormat) !== 'none') suggestedArgs.dateformat = sniff.DateFormat;
+      if (describe(sniff.TimestampFormat) !== 'none') suggestedArgs.timestampformat = sniff.TimestampFormat;
+      response += `\n💡 Suggested load_csv arguments:\n${safeStringify(suggestedArgs, 2)}\n`;
+
+      if (sniff.Prompt) {
+        response += `\nEquivalent DuckDB call:\n${sniff.Prompt}`;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: response,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `CSV sniffing failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async inspectRejects(args: any) {
+    try {
+      const { table_name, error_type, limit = 20 } = args;
+
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error('limit must be a positive integer');
+      }
+
+      const rejectsTable = `${table_name}_rejects`;
+      const exists = await this.executeQuery(
+        `SELECT 1 FROM duckdb_tables() WHERE table_name = '${rejectsTable.replace(/'/g, "''")}' AND database_name = current_database() AND NOT temporary`
+      );
+      if (exists.length === 0) {
+        throw new Error(`No rejected rows recorded for table "${table_name}". Load it with store_rejects: true to capture them.`);
+      }
+
+      const filter = error_type ? `WHERE error_type = '${error_type.replace(/'/g, "''")}'` : '';
+      const summary = await this.executeQuery(`
+        SELECT error_type, COUNT(*) as reject_count
+        FROM ${this.quoteIdentifier(rejectsTable)}
+        ${filter}
+        GROUP BY error_type
+        ORDER BY reject_count DESC
+      `);
+      const rows = await this.executeQuery(`
+        SELECT file, line, column_name, error_type, raw_line, error_message
+        FROM ${this.quoteIdentifier(rejectsTable)}
+        ${filter}
+        ORDER BY file, line
+        LIMIT ${limit}
+      `);
+
+      const total = summary.reduce((sum, row) => sum + Number(row.reject_count), 0);
+
+      let response = `🚫 REJECTED ROWS: "${table_name}" (stored in "${rejectsTable}")\n`;
+      response += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
+      response += `Total rejected${error_type ? ` (${error_type})` : ''}: ${total.toLocaleString()}\n`;
+      summary.forEach(row => {
+        response += `  - ${row.error_type}: ${Number(row.reject_count).toLocaleString()}\n`;
+      });
+
+      if (rows.length > 0) {
+        response += `\n${error_type ? `${error_type} rejects` : 'Rejects'} (showing ${rows.length}):\n`;
+        rows.forEach(row => {
+          response += `\n- ${row.file}, line ${row.line}${row.column_name ? `, column "${row.column_name}"` : ''} [${row.error_type}]\n`;
+          response += `  Error: ${row.error_message}\n`;
+          response += `  Raw: ${row.raw_line}\n`;
+        });
+      }
+
+      response += `\n💡 Query "${rejectsTable}" with query_csv for further analysis.`;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: response,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to inspect rejects: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async unwatchTable(args: any) {
+    try {
+      const { table_name } = args;
+      const watcher = this.watchers.get(table_name);
+
+      if (!watcher) {
+        throw new Error(`Table "${table_name}" is not being watched`);
+      }
+
+      clearInterval(watcher.timer);
+      this.watchers.delete(table_name);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Stopped watching ${Array.isArray(watcher.source) ? watcher.source.join(', ') : watcher.source} for table "${table_name}"`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to unwatch table: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async optimizeExpenses(args: any) {
+    try {
+      const {
+        table_name,
+        amount_column = 'Amount',
+        name_column = 'Name',
+        date_column = 'Date'
+      } = args;
+
+      const report = await this.generateExpenseOptimizationReport(
+        table_name,
+        amount_column,
+        name_column,
+        date_column
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${report}${this.sampleNote(table_name)}`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Expense optimization failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async detectAnomalies(args: any) {
+    try {
+      const {
+        table_name,
+        severity_threshold = 'medium',
+        focus_columns = [],
+        anomaly_types = ['statistical', 'duplicates', 'nulls', 'outliers', 'patterns']
+      } = args;
+
+      const report = await this.generateAnomalyReport(
+        table_name,
+        severity_threshold,
+        focus_columns,
+        anomaly_types
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${report}${this.sampleNote(table_name)}`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Anomaly detection failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async loadExcel(args: any) {
+    try {
+      const {
+        file_path,
+        table_name,
+        sheet,
+        range,
+        header = true,
+        all_varchar = false,
+        append_to_table,
+        skip_loaded_files = false,
+        materialize = true,
+        watch = false
+      } = args;
+
+      this.validateWatchOptions(args);
+      const sampleClause = this.buildSampleClause(args);
+
+      // Validate file extension
+      if (!file_path.toLowerCase().endsWith('.xlsx')) {
+        throw new Error('Only .xlsx files are supported. Please convert .xls files to .xlsx format.');
+      }
+
+      // Check if file exists
+      await fs.access(file_path);
+
+      this.validateMaterializeOption(args, [file_path]);
+
+      const append = await this.prepareAppend(append_to_table, [file_path], skip_loaded_files);
+      if (append && append.pendingFiles.length === 0) {
+        return this.nothingToAppend(append);
+      }
+
+      // Ensure Excel extension is loaded
+      await this.#ensureExcelExtension();
+
+      const tableName = append
+        ? append.stagingTable
+        : table_name || path.basename(file_path, path.extname(file_path)).replace(/[^a-zA-Z0-9_]/g, '_');
+
+      const relation = await this.prepareRelation(tableName, materialize);
+
+      // Build query parameters
+      const escapedPath = file_path.replace(/'/g, "''");
+      const queryParams: string[] = [`'${escapedPath}'`];
+
+      // Add optional parameters
+      const options = this.buildReadXlsxOptions({ sheet, range, header, all_varchar });
+
+      const optionsStr = options.length > 0 ? `, ${options.join(', ')}` : '';
+
+      const query = `
+        CREATE OR REPLACE ${relation} "${tableName}" AS 
+        SELECT * FROM read_xlsx(${queryParams[0]}${optionsStr}) ${sampleClause}
+      `;
+
+      console.error('Executing Excel query:', query);
+      await this.executeQuery(query);
+
+      // Check if the table has any rows
+      const rowCountQuery = `SELECT COUNT(*) as row_count FROM "${tableName}"`;
+      const rowCountResult = await this.executeQuery(rowCountQuery);
+      const rowCount = Number(rowCountResult[0]?.row_count || 0);
+
+      if (rowCount === 0) {
+        await this.executeQuery(`DROP ${relation} IF EXISTS "${tableName}"`);
+        throw new Error('Excel file is empty or contains no valid data in the specified sheet/range');
+      }
+
+      const appendSummary = append ? await this.appendStagedRows(append, rowCount) : '';
+      const loadedTable = append ? append.target : tableName;
+
+      this.recordLoadedTable(loadedTable, file_path, [file_path], { loader: 'load_excel', args }, append !== null, materialize ? 'table' : 'view');
+
+      const watchNote = watch ? await this.watchTable(loadedTable, 'load_excel', args) : '';
+
+      // Automatically inspect the schema and data
+      const schemaInfo = await this.inspectTableSchema(loadedTable);
+
+      const sheetInfo = sheet ? ` (sheet: ${sheet})` : '';
+      const rangeInfo = range ? ` (range: ${range})` : '';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Successfully loaded Excel file "${file_path}"${sheetInfo}${rangeInfo} as table "${loadedTable}"${materialize ? '' : VIEW_MODE_NOTE}${this.sampleNote(loadedTable)}${appendSummary}${watchNote}\n\n${schemaInfo}`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to load Excel: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async loadMultipleExcels(args: any) {
+    try {
+      const {
+        pattern_or_files,
+        table_name = 'multi_excel_data',
+        union_by_name = false,
+        fail_on_schema_drift = false,
+        include_filename = false,
+        sheet,
+        header = true,
+        all_varchar = false,
+        append_to_table,
+        skip_loaded_files = false,
+        materialize = true
+      } = args;
+
+      const sampleClause = this.buildSampleClause(args);
+
+      // Validate table name; appends always go to the existing table
+      const tableName = (append_to_table || table_name).replace(/[^a-zA-Z0-9_]/g, '_');
+
+      let discoveredFiles: string[] = [];
+
+      if (typeof pattern_or_files === 'string') {
+        // Discover files if it's a glob pattern
+        if (pattern_or_files.includes('*') || pattern_or_files.includes('?') || pattern_or_files.includes('[')) {
+          const globQuery = `SELECT file FROM glob('${pattern_or_files.replace(/'/g, "''")}')`;
+          const globResult = await this.executeQuery(globQuery);
+          discoveredFiles = globResult.map((row: any) => row.file);
+
+          if (discoveredFiles.length === 0) {
+            throw new Error(`No Excel files found matching pattern: ${pattern_or_files}`);
+          }
+        } else {
+          // Single file path - validate it's xlsx and exists
+          if (!pattern_or_files.toLowerCase().endsWith('.xlsx')) {
+            throw new Error('Only .xlsx files are supported. Please convert .xls files to .xlsx format.');
+          }
+          try {
+            await fs.access(pattern_or_files);
+          } catch {
+            throw new Error(`File not found: ${pattern_or_files}`);
+          }
+          discoveredFiles = [pattern_or_files];
+        }
+      } else if (Array.isArray(pattern_or_files)) {
+        discoveredFiles = pattern_or_files;
+
+        // Check if all files exist and are xlsx files
+        for (const filePath of pattern_or_files) {
+          if (!filePath.toLowerCase().endsWith('.xlsx')) {
+            throw new Error(`Only .xlsx files are supported. Found non-xlsx file: ${filePath}`);
+          }
+          try {
+            await fs.access(filePath);
+          } catch {
+            throw new Error(`File not found: ${filePath}`);
+          }
+        }
+      } else {
+        throw new Error('pattern_or_files must be a string (glob pattern) or array of file paths');
+      }
+
+      // Validate that we found xlsx files
+      const nonXlsxFiles = discoveredFiles.filter(file => !file.toLowerCase().endsWith('.xlsx'));
+      if (nonXlsxFiles.length > 0) {
+        throw new Error(`Found non-xlsx files: ${nonXlsxFiles.join(', ')}. Only .xlsx files are supported.`);
+      }
+
+      this.validateMaterializeOption(args, discoveredFiles);
+
+      const append = await this.prepareAppend(append_to_table, discoveredFiles, skip_loaded_files);
+      if (append && append.pendingFiles.length === 0) {
+        return this.nothingToAppend(append);
+      }
+      const files = append ? append.pendingFiles : discoveredFiles;
+      const loadTable = append ? append.stagingTable : tableName;
+
+      // Ensure Excel extension is loaded
+      await this.#ensureExcelExtension();
+
+      // Compare the files first: without union_by_name, read_xlsx combines files with different columns by position
+      const readSource = (file: string) =>
+        `read_xlsx('${file.replace(/'/g, "''")}', ${this.buildReadXlsxOptions({ sheet, header, all_varchar }).join(', ')})`;
+      const schemas = await this.describeFiles(files, readSource);
+      const driftSummary = this.checkSchemaDrift(schemas, new Map(), union_by_name, fail_on_schema_drift);
+
+      // Build the DuckDB query based on input type
+      const relation = await this.prepareRelation(loadTable, materialize);
+      let query: string;
+
+      // Tables always tag rows with their file so they can be counted per file; the column is dropped unless requested
+      const fileColumn = include_filename ? 'filename' : PROVENANCE_FILE_COLUMN;
+      const filenameOption = materialize && !include_filename ? `'${PROVENANCE_FILE_COLUMN}'` : include_filename;
+
+      if (typeof pattern_or_files === 'string' && pattern_or_files.includes('*') && files.length === discoveredFiles.length) {
+        // Use direct string for glob patterns
+        const escapedPattern = pattern_or_files.replace(/'/g, "''");
+        const options: string[] = [];
+        if (sheet) options.push(`sheet='${sheet.replace(/'/g, "''")}'`);
+        options.push(`header=${header}`);
+        options.push(`union_by_name=${union_by_name}`);
+        options.push(`filename=${filenameOption}`);
+        if (all_varchar) options.push(`all_varchar=${all_varchar}`);
+
+        const optionsStr = options.join(', ');
+        query = `
+          CREATE OR REPLACE ${relation} "${loadTable}" AS 
+          SELECT * FROM read_xlsx('${escapedPattern}', ${optionsStr}) ${sampleClause}
+        `;
+      } else {
+        // Use array format for file lists
+        const fileList = files.map(f => `'${f.replace(/'/g, "''")}'`).join(', ');
+        const options: string[] = [];
+        if (sheet) options.push(`sheet='${sheet.replace(/'/g, "''")}'`);
+        options.push(`header=${header}`);
+        options.push(`union_by_name=${union_by_name}`);
+        options.push(`filename=${filenameOption}`);
+        if (all_varchar) options.push(`all_varchar=${all_varchar}`);
+
+        const optionsStr = options.join(', ');
+        query = `
+          CREATE OR REPLACE ${relation} "${loadTable}" AS 
+          SELECT * FROM read_xlsx([${fileList}], ${optionsStr}) ${sampleClause}
+        `;
+      }
+
+      console.error('Executing multi-Excel query:', query);
+      await this.executeQuery(query);
+
+      // Check if the table has any rows
+      const rowCountQuery = `SELECT COUNT(*) as row_count FROM "${loadTable}"`;
+      const rowCountResult = await this.executeQuery(rowCountQuery);
+      const rowCount = Number(rowCountResult[0]?.row_count || 0);
+
+      if (rowCount === 0) {
+        await this.executeQuery(`DROP ${relation} IF EXISTS "${loadTable}"`);
+        throw new Error('No data was loaded from the Excel files');
+      }
+
+      const rowCounts = materialize ? await this.countRowsPerFile(loadTable, fileColumn) : null;
+      if (materialize && !include_filename) {
+        await this.executeQuery(`ALTER TABLE "${loadTable}" DROP COLUMN "${PROVENANCE_FILE_COLUMN}"`);
+      }
+
+      const appendSummary = append ? await this.appendStagedRows(append, rowCount) : '';
+
+      // Store the table reference
+      this.recordLoadedTable(
+        tableName,
+        typeof pattern_or_files === 'string' ? pattern_or_files : pattern_or_files.join(', '),
+        files,
+        { loader: 'load_multiple_excels', args },
+        append !== null,
+        materialize ? 'table' : 'view'
+      );
+
+      const provenance = await this.collectFileProvenance(files, files, new Map(), rowCounts, schemas);
+      const provenanceSummary = await this.recordFileProvenance(tableName, provenance, append !== null, sampleClause !== '');
+
+      // Get schema and sample information
+      const schemaInfo = await this.inspectTableSchema(tableName);
+
+      const fileCountText = files.length > 0
+        ? `${files.length} files`
+        : 'multiple files';
+
+      const sheetInfo = sheet ? ` (sheet: ${sheet})` : '';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Successfully loaded ${fileCountText} Excel files${sheetInfo} as table "${tableName}"${provenanceSummary}${driftSummary}${materialize ? '' : VIEW_MODE_NOTE}${this.sampleNote(tableName)}${appendSummary}\n\n${schemaInfo}`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Multi-Excel loading failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async discoverExcelFiles(args: any) {
+    try {
+      const { pattern } = args;
+
+      // Use DuckDB's glob function to find matching files
+      const query = `SELECT file FROM glob('${pattern.replace(/'/g, "''")}') ORDER BY file`;
+      const result = await this.executeQuery(query);
+
+      const files = result.map((row: any) => row.file);
+
+      // Filter to only Excel files and get additional info
+      const excelFiles = files.filter(file => file.toLowerCase().endsWith('.xlsx'));
+      const nonExcelFiles = files.filter(file => !file.toLowerCase().endsWith('.xlsx'));
+
+      // Get additional file info for Excel files
+      const fileInfo = await Promise.all(excelFiles.map(async (filePath: string) => {
+        try {
+          const stats = await fs.stat(filePath);
+          return {
+            path: filePath,
+            size: stats.size,
+            modified: stats.mtime.toISOString(),
+            exists: true
+          };
+        } catch (error) {
+          return {
+            path: filePath,
+            size: 0,
+            modified: null,
+            exists: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          };
+        }
+      }));
+
+      const totalSize = fileInfo.reduce((sum, info) => sum + (info.exists ? info.size : 0), 0);
+      const existingFiles = fileInfo.filter(info => info.exists);
+
+      let response = `Found ${files.length} files matching pattern "${pattern}"\n\n`;
+      response += `Excel files (.xlsx): ${excelFiles.length}\n`;
+      response += `Other files: ${nonExcelFiles.length}\n`;
+
+      if (excelFiles.length > 0) {
+        response += `Existing Excel files: ${existingFiles.length}\n`;
+        response += `Total Excel file size: ${(totalSize / 1024 / 1024).toFixed(2)} MB\n\n`;
+      }
+
+      if (nonExcelFiles.length > 0) {
+        response += `\n⚠️  Non-Excel files found (will be ignored by Excel tools):\n`;
+        nonExcelFiles.slice(0, 5).forEach(file => {
+          response += `- ${file}\n`;
+        });
+        if (nonExcelFiles.length > 5) {
+          response += `... and ${nonExcelFiles.length - 5} more\n`;
+        }
+      }
+
+      if (excelFiles.length > 0) {
+        response += `\n📊 Excel File Details:\n`;
+        fileInfo.forEach(info => {
+          response += `- ${info.path} (${info.exists ? `${(info.size / 1024).toFixed(1)} KB, modified: ${info.modified}` : 'NOT FOUND'})\n`;
+        });
+      } else {
+        response += `\nNo Excel (.xlsx) files found matching the pattern.`;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: response,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Excel file discovery failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async listExcelSheets(args: any) {
+    try {
+      const { pattern } = args;
+
+      let files: string[];
+      if (pattern.includes('*') || pattern.includes('?') || pattern.includes('[')) {
+        const result = await this.executeQuery(`SELECT file FROM glob('${pattern.replace(/'/g, "''")}') ORDER BY file`);
+        files = result.map((row: any) => row.file).filter((file: string) => file.toLowerCase().endsWith('.xlsx'));
+
+        if (files.length === 0) {
+          throw new Error(`No Excel (.xlsx) files found matching pattern: ${pattern}`);
+        }
+      } else {
+        if (!pattern.toLowerCase().endsWith('.xlsx')) {
+          throw new Error('Only .xlsx files are supported. Please convert .xls files to .xlsx format.');
+        }
+        await fs.access(pattern);
+        files = [pattern];
+      }
+
+      let response = `Found ${files.length} Excel workbook${files.length === 1 ? '' : 's'} matching "${pattern}"\n`;
+
+      for (const file of files) {
+        response += `\n📒 ${file}\n`;
+
+        try {
+          const sheets = await this.readWorkbookSheets(file);
+          if (sheets.length === 0) {
+            response += `  No sheets found\n`;
+            continue;
+          }
+
+          sheets.forEach((sheet, index) => {
+            response += `  ${index + 1}. "${sheet.name}"${sheet.state !== 'visible' ? ` (${sheet.state})` : ''}\n`;
+            response += `     Used range: ${sheet.range ?? 'empty'}\n`;
+            response += `     Estimated rows: ${sheet.estimatedRows.toLocaleString()} (excluding header)\n`;
+            response += `     Header: ${sheet.header.length > 0 ? sheet.header.map(value => value === '' ? '(blank)' : value).join(' | ') : '(none)'}\n`;
+          });
+        } catch (error) {
+          response += `  ⚠️ Could not read workbook: ${error instanceof Error ? error.message : String(error)}\n`;
+        }
+      }
+
+      response += `\n💡 Pass a sheet name to load_excel or load_multiple_excels via the "sheet" argument.`;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: response,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Excel sheet listing failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async loadWorkbook(args: any) {
+    try {
+      const {
+        file_path,
+        sheet_pattern,
+        mode = 'separate',
+        table_name,
+        union_by_name = true,
+        range,
+        header = true,
+        all_varchar = false
+      } = args;
+
+      if (!file_path.toLowerCase().endsWith('.xlsx')) {
+        throw new Error('Only .xlsx files are supported. Please convert .xls files to .xlsx format.');
+      }
+      if (mode !== 'separate' && mode !== 'union') {
+        throw new Error(`Unsupported mode "${mode}". Use "separate" or "union".`);
+      }
+
+      // Check if file exists
+      await fs.access(file_path);
+
+      const allSheets = await this.readWorkbookSheets(file_path);
+      const matcher = sheet_pattern
+        ? this.wildcardMatcher(sheet_pattern)
+        : null;
+      const matchingSheets = allSheets.filter(sheet => !matcher || matcher.test(sheet.name));
+
+      if (matchingSheets.length === 0) {
+        throw new Error(sheet_pattern
+          ? `No sheets matching "${sheet_pattern}" in ${file_path}. Available sheets: ${allSheets.map(sheet => sheet.name).join(', ')}`
+          : `No sheets found in ${file_path}`);
+      }
+
+      // Empty sheets would make read_xlsx fail, so skip them up front
+      const sheetsToLoad = matchingSheets.filter(sheet => sheet.range !== null);
+      const skippedSheets = matchingSheets.filter(sheet => sheet.range === null).map(sheet => sheet.name);
+
+      if (sheetsToLoad.length === 0) {
+        throw new Error(`All matching sheets are empty: ${skippedSheets.join(', ')}`);
+      }
+
+      // Ensure Excel extension is loaded
+      await this.#ensureExcelExtension();
+
+      const escapedPath = file_path.replace(/'/g, "''");
+      const readSheet = (sheetName: string) =>
+        `read_xlsx('${escapedPath}', ${this.buildReadXlsxOptions({ sheet: sheetName, range, header, all_varchar }).join(', ')})`;
+
+      // Tables this load replaces, so the response can say so instead of overwriting them silently
+      const existingTables = new Set<string>();
+      for (const row of await this.executeQuery(`SELECT table_name FROM duckdb_tables() WHERE database_name = current_database() AND NOT temporary`)) {
+        existingTables.add(row.table_name.toLowerCase());
+      }
+      const replacedTables: string[] = [];
+
+      let response: string;
+
+      if (mode === 'union') {
+        const tableName = (table_name || path.basename(file_path, path.extname(file_path))).replace(/[^a-zA-Z0-9_]/g, '_');
+
+        // A sheet may already have a sheet_name column, so add a numeric suffix to ours until it is free
+        const sheetColumns = new Set<string>();
+        for (const sheet of sheetsToLoad) {
+          for (const column of await this.executeQuery(`DESCRIBE SELECT * FROM ${readSheet(sheet.name)}`)) {
+            sheetColumns.add(column.column_name.toLowerCase());
+          }
+        }
+        let sheetColumn = 'sheet_name';
+        for (let suffix = 2; sheetColumns.has(sheetColumn); suffix++) {
+          sheetColumn = `sheet_name_${suffix}`;
+        }
+
+        const query = `
+          CREATE OR REPLACE TABLE "${tableName}" AS
+          ${sheetsToLoad.map(sheet => `SELECT '${sheet.name.replace(/'/g, "''")}' AS "${sheetColumn}", * FROM ${readSheet(sheet.name)}`)
+            .join(union_by_name ? '\nUNION ALL BY NAME\n' : '\nUNION ALL\n')}
+        `;
+
+        console.error('Executing workbook union query:', query);
+        await this.executeQuery(query);
+
+        const rowCountResult = await this.executeQuery(`SELECT COUNT(*) as row_count FROM "${tableName}"`);
+        if (Number(rowCountResult[0]?.row_count || 0) === 0) {
+          await this.executeQuery(`DROP TABLE IF EXISTS "${tableName}"`);
+          throw new Error('Workbook sheets contain no valid data');
+        }
+
+        this.recordLoadedTable(tableName, file_path, [file_path], { loader: 'load_workbook', args });
+        if (existingTables.has(tableName.toLowerCase())) replacedTables.push(tableName);
+
+        const schemaInfo = await this.inspectTableSchema(tableName);
+        response = `Successfully loaded ${sheetsToLoad.length} sheets from "${file_path}" into table "${tableName}" (sheet name in column "${sheetColumn}")\n\nSheets: ${sheetsToLoad.map(sheet => sheet.name).join(', ')}\n\n${schemaInfo}`;
+        if (sheetColumn !== 'sheet_name') {
+          response += `\n\n⚠️ The sheet name is in column "${sheetColumn}" because a sheet already has a "sheet_name" column`;
+        }
+      } else {
+        const prefix = table_name ? `${table_name}_` : '';
+        const loaded: { sheet: string; table: string; rows: number }[] = [];
+        const usedNames = new Set<string>();
+
+        for (const sheet of sheetsToLoad) {
+          let tableName = `${prefix}${sheet.name}`.replace(/[^a-zA-Z0-9_]/g, '_');
+          // Sheet names like "Q1 2025" and "Q1-2025" sanitize to the same table name
+          for (let suffix = 2; usedNames.has(tableName); suffix++) {
+            tableName = `${`${prefix}${sheet.name}`.replace(/[^a-zA-Z0-9_]/g, '_')}_${suffix}`;
+          }
+          usedNames.add(tableName);
+
+          const query = `
+            CREATE OR REPLACE TABLE "${tableName}" AS
+            SELECT * FROM ${readSheet(sheet.name)}
+          `;
+
+          console.error('Executing workbook sheet query:', query);
+          await this.executeQuery(query);
+
+          const rowCountResult = await this.executeQuery(`SELECT COUNT(*) as row_count FROM "${tableName}"`);
+          const rowCount = Number(rowCountResult[0]?.row_count || 0);
+
+          if (rowCount === 0) {
+            await this.executeQuery(`DROP TABLE IF EXISTS "${tableName}"`);
+            skippedSheets.push(sheet.name);
+            continue;
+          }
+
+          this.recordLoadedTable(tableName, file_path, [file_path], { loader: 'load_workbook', args });
+          if (existingTables.has(tableName.toLowerCase())) replacedTables.push(tableName);
+          loaded.push({ sheet: sheet.name, table: tableName, rows: rowCount });
+        }
+
+        if (loaded.length === 0) {
+          throw new Error('Workbook sheets contain no valid data');
+        }
+
+        const schemaInfo = await this.inspectTableSchema(loaded[0].table);
+        response = `Successfully loaded ${loaded.length} sheets from "${file_path}" as separate tables\n\n` +
+          loaded.map(entry => `- "${entry.sheet}" → table "${entry.table}" (${entry.rows.toLocaleString()} rows)`).join('\n') +
+          `\n\n${schemaInfo}` +
+          (loaded.length > 1 ? `\n\nUse describe_table to inspect the other sheet tables.` : '');
+      }
+
+      if (replacedTables.length > 0) {
+        response += `\n\n⚠️ Replaced existing tables: ${replacedTables.map(name => `"${name}"`).join(', ')}`;
+      }
+      if (skippedSheets.length > 0) {
+        response += `\n\n⚠️ Skipped empty sheets: ${skippedSheets.join(', ')}`;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: response,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to load workbook: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async loadParquet(args: any) {
+    try {
+      const { file_path, table_name } = args;
+
+      // Detect if file_path contains glob patterns
+      const isGlobPattern = file_path.includes('*') || file_path.includes('?') || file_path.includes('[');
+
+      let discoveredFiles: string[] = [file_path];
+
+      if (isGlobPattern) {
+        const globQuery = `SELECT file FROM glob('${file_path.replace(/'/g, "''")}')`;
+        const globResult = await this.executeQuery(globQuery);
+        discoveredFiles = globResult.map((row: any) => row.file);
+
+        if (discoveredFiles.length === 0) {
+          throw new Error(`No Parquet files found matching pattern: ${file_path}`);
+        }
+      } else {
+        // Check if file exists
+        await fs.access(file_path);
+      }
+
+      const tableName = table_name || (isGlobPattern
+        ? `parquet_${file_path.replace(/[^a-zA-Z0-9_]/g, '_')}`
+        : path.basename(file_path, path.extname(file_path)).replace(/[^a-zA-Z0-9_]/g, '_'));
+
+      const escapedPath = file_path.replace(/'/g, "''");
+      const query = `
+        CREATE OR REPLACE TABLE "${tableName}" AS
+        SELECT * FROM read_parquet('${escapedPath}')
+      `;
+
+      console.error('Executing Parquet query:', query);
+      await this.executeQuery(query);
+
+      // Check if the table has any rows
+      const rowCountQuery = `SELECT COUNT(*) as row_count FROM "${tableName}"`;
+      const rowCountResult = await this.executeQuery(rowCountQuery);
+      const rowCount = Number(rowCountResult[0]?.row_count || 0);
+
+      if (rowCount === 0) {
+        await this.executeQuery(`DROP TABLE IF EXISTS "${tableName}"`);
+        throw new Error('Parquet file is empty or contains no rows');
+      }
+
+      this.recordLoadedTable(tableName, file_path, discoveredFiles, { loader: 'load_parquet', args });
+
+      // Automatically inspect the schema and data
+      const schemaInfo = await this.inspectTableSchema(tableName);
+
+      const header = isGlobPattern
+        ? `Successfully loaded ${discoveredFiles.length} Parquet files matching "${file_path}" as table "${tableName}"\n\nFiles: ${discoveredFiles.slice(0, 5).join(', ')}${discoveredFiles.length > 5 ? '...' : ''}`
+        : `Successfully loaded Parquet file "${file_path}" as table "${tableName}"`;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${header}\n\n${schemaInfo}`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to load Parquet: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async loadMultipleParquets(args: any) {
+    try {
+      const {
+        pattern_or_files,
+        table_name = 'multi_parquet_data',
+        union_by_name = false,
+        include_filename = false,
+        hive_partitioning = false
+      } = args;
+
+      // Validate table name
+      const tableName = table_name.replace(/[^a-zA-Z0-9_]/g, '_');
+      const hiveOptions = this.buildHivePartitioningOptions(args).map(option => `,\n          ${option}`).join('');
+
+      let discoveredFiles: string[] = [];
+
+      if (typeof pattern_or_files === 'string') {
+        // Discover files if it's a glob pattern
+        if (pattern_or_files.includes('*') || pattern_or_files.includes('?') || pattern_or_files.includes('[')) {
+          const globQuery = `SELECT file FROM glob('${pattern_or_files.replace(/'/g, "''")}')`;
+          const globResult = await this.executeQuery(globQuery);
+          discoveredFiles = globResult.map((row: any) => row.file);
+
+          if (discoveredFiles.length === 0) {
+            throw new Error(`No Parquet files found matching pattern: ${pattern_or_files}`);
+          }
+        }
+      } else if (Array.isArray(pattern_or_files)) {
+        discoveredFiles = pattern_or_files;
+
+        // Check if all files exist
+        for (const filePath of pattern_or_files) {
+          try {
+            await fs.access(filePath);
+          } catch {
+            throw new Error(`File not found: ${filePath}`);
+          }
+        }
+      } else {
+        throw new Error('pattern_or_files must be a string (glob pattern) or array of file paths');
+      }
+
+      // Build the DuckDB query based on input type
+      const source = typeof pattern_or_files === 'string'
+        ? `'${pattern_or_files.replace(/'/g, "''")}'`
+        : `[${pattern_or_files.map((f: string) => `'${f.replace(/'/g, "''")}'`).join(', ')}]`;
+
+      const query = `
+        CREATE OR REPLACE TABLE "${tableName}" AS
+        SELECT * FROM read_parquet(${source},
+          union_by_name=${union_by_name},
+          filename=${include_filename}${hiveOptions}
+        )
+      `;
+
+      console.error('Executing multi-Parquet query:', query);
+      await this.executeQuery(query);
+
+      // Check if the table has any rows
+      const rowCountQuery = `SELECT COUNT(*) as row_count FROM "${tableName}"`;
+      const rowCountResult = await this.executeQuery(rowCountQuery);
+      const rowCount = Number(rowCountResult[0]?.row_count || 0);
+
+      if (rowCount === 0) {
+        await this.executeQuery(`DROP TABLE IF EXISTS "${tableName}"`);
+        throw new Error('No data was loaded from the Parquet files');
+      }
+
+      // Store the table reference
+      this.recordLoadedTable(
+        tableName,
+        typeof pattern_or_files === 'string' ? pattern_or_files : pattern_or_files.join(', '),
+        typeof pattern_or_files === 'string' && discoveredFiles.length === 0 ? [pattern_or_files] : discoveredFiles,
+        { loader: 'load_multiple_parquets', args }
+      );
+
+      const partitionSummary = hive_partitioning ? await this.describePartitionColumns(tableName, discoveredFiles) : '';
+
+      // Get schema and sample information
+      const schemaInfo = await this.inspectTableSchema(tableName);
+
+      const fileCountText = discoveredFiles.length > 0
+        ? `${discoveredFiles.length} files`
+        : 'multiple files';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Successfully loaded ${fileCountText} as table "${tableName}"\n\nFiles processed: ${discoveredFiles.length > 0 ? discoveredFiles.slice(0, 10).join(', ') + (discoveredFiles.length > 10 ? '...' : '') : 'matched by pattern'}${partitionSummary}\n\n${schemaInfo}`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Multi-Parquet loading failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async loadJSON(args: any) {
+    let archiveDir: string | null = null;
+    try {
+      const {
+        pattern_or_files,
+        table_name,
+        format = 'auto',
+        maximum_depth = -1,
+        flatten_nested = false,
+        union_by_name = false,
+        include_filename = false,
+        archive_member,
+        hive_partitioning = false
+      } = args;
+
+      if (!['auto', 'array', 'newline_delimited', 'unstructured'].includes(format)) {
+        throw new Error(`Unsupported JSON format "${format}". Use auto, array, newline_delimited or unstructured.`);
+      }
+      if (!Number.isInteger(maximum_depth) || maximum_depth < -1) {
+        throw new Error('maximum_depth must be -1 (unlimited) or a non-negative integer');
+      }
+      const hiveOptions = this.buildHivePartitioningOptions(args).map(option => `,\n          ${option}`).join('');
+
+      let discoveredFiles: string[] = [];
+
+      if (typeof pattern_or_files === 'string') {
+        if (pattern_or_files.includes('*') || pattern_or_files.includes('?') || pattern_or_files.includes('[')) {
+          const globQuery = `SELECT file FROM glob('${pattern_or_files.replace(/'/g, "''")}')`;
+          const globResult = await this.executeQuery(globQuery);
+          discoveredFiles = globResult.map((row: any) => row.file);
+
+          if (discoveredFiles.length === 0) {
+            throw new Error(`No JSON files found matching pattern: ${pattern_or_files}`);
+          }
+        } else {
+          // Single file mode
+          await fs.access(pattern_or_files);
+          discoveredFiles = [pattern_or_files];
+        }
+      } else if (Array.isArray(pattern_or_files)) {
+        discoveredFiles = pattern_or_files;
+
+        // Check if all files exist
+        for (const filePath of pattern_or_files) {
+          try {
+            await fs.access(filePath);
+          } catch {
+            throw new Error(`File not found: ${filePath}`);
+          }
+        }
+      } else {
+        throw new Error('pattern_or_files must be a string (file path or glob pattern) or array of file paths');
+      }
+
+      const isSingleFile = typeof pattern_or_files === 'string' && discoveredFiles.length === 1 && discoveredFiles[0] === pattern_or_files;
+      const defaultName = isSingleFile ? this.defaultTableName(pattern_or_files) : 'json_data';
+      const tableName = (table_name || defaultName).replace(/[^a-zA-Z0-9_]/g, '_');
+
+      // Extracted members lose their directory path, and with it the partition values
+      if (hive_partitioning && discoveredFiles.some(file => file.toLowerCase().endsWith('.zip'))) {
+        throw new Error('hive_partitioning cannot be combined with zip archives; extract them into the partitioned directories first');
+      }
+
+      // Zip archives are extracted and their members read alongside the plain files
+      const archive = await this.extractArchiveMembers(discoveredFiles, archive_member, JSON_MEMBER_EXTENSIONS);
+      archiveDir = archive.tempDir;
+
+      const source = archiveDir
+        ? this.buildFileListSource(archive.files)
+        : typeof pattern_or_files === 'string'
+          ? `'${pattern_or_files.replace(/'/g, "''")}'`
+          : this.buildFileListSource(pattern_or_files);
+
+      const query = `
+        CREATE OR REPLACE TABLE "${tableName}" AS
+        SELECT * FROM read_json(${source},
+          format='${format}',
+          maximum_depth=${maximum_depth},
+          union_by_name=${union_by_name},
+          filename=${include_filename}${hiveOptions}
+        )
+      `;
+
+      console.error('Executing JSON query:', query);
+      await this.executeQuery(query);
+
+      // Check if the table has any rows
+      const rowCountQuery = `SELECT COUNT(*) as row_count FROM "${tableName}"`;
+      const rowCountResult = await this.executeQuery(rowCountQuery);
+      const rowCount = Number(rowCountResult[0]?.row_count || 0);
+
+      if (rowCount === 0) {
+        await this.executeQuery(`DROP TABLE IF EXISTS "${tableName}"`);
+        throw new Error('No data was loaded from the JSON files');
+      }
+
+      if (include_filename) {
+        await this.relabelArchiveFilenames(tableName, archive.labels);
+      }
+
+      const flattened = flatten_nested ? await this.flattenStructColumns(tableName) : null;
+
+      this.recordLoadedTable(
+        tableName,
+        typeof pattern_or_files === 'string' ? pattern_or_files : pattern_or_files.join(', '),
+        discoveredFiles,
+        { loader: 'load_json', args }
+      );
+
+      // Get schema and sample information
+      const schemaInfo = await this.inspectTableSchema(tableName);
+
+      const header = isSingleFile
+        ? `Successfully loaded JSON file "${pattern_or_files}" as table "${tableName}"`
+        : `Successfully loaded ${discoveredFiles.length} JSON files as table "${tableName}"\n\nFiles processed: ${discoveredFiles.slice(0, 10).join(', ')}${discoveredFiles.length > 10 ? '...' : ''}`;
+      const flattenInfo = flattened
+        ? `\n\nFlattened ${flattened.expanded} nested object columns into dotted columns` +
+          flattened.renamed.map(rename => `\n⚠️ Renamed ${rename} because the table already has a column with that name`).join('')
+        : '';
+      const compressionSummary = await this.summarizeCompression(discoveredFiles);
+      const partitionSummary = hive_partitioning ? await this.describePartitionColumns(tableName, discoveredFiles) : '';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${header}${partitionSummary}${compressionSummary}${flattenInfo}\n\n${schemaInfo}`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to load JSON: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      if (archiveDir) {
+        await fs.rm(archiveDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  async loadFixedWidth(args: any) {
+    try {
+      const { file_path, table_name, columns, header = false, skip = 0 } = args;
+
+      if (typeof header !== 'boolean') throw new Error('header must be a boolean');
+      if (!Number.isInteger(skip) || skip < 0) throw new Error('skip must be a non-negative integer');
+
+      // Check if file exists
+      await fs.access(file_path);
+
+      const tableName = (table_name || this.defaultTableName(file_path)).replace(/[^a-zA-Z0-9_]/g, '_');
+
+      // Each line is read whole: the unit separator never occurs in text reports, and quoting is disabled
+      const lineSource = (skipLines: number) => `
+        SELECT line FROM read_csv('${file_path.replace(/'/g, "''")}',
+          columns={'line': 'VARCHAR'}, header=false, delim=chr(31), quote='', escape='', auto_detect=false, skip=${skipLines})
+        WHERE line IS NOT NULL AND trim(line) <> ''
+      `;
+
+      let spec: FixedWidthColumn[];
+      if (columns === undefined) {
+        const sample = await this.executeQuery(`${lineSource(skip)} LIMIT ${FIXED_WIDTH_SAMPLE_LINES}`);
+        spec = this.inferFixedWidthColumns(sample.map((row: any) => row.line), header);
+      } else {
+        spec = this.validateFixedWidthColumns(columns);
+      }
+
+      // Header lines are only skipped when present; blank lines never count
+      const headerLines = header ? 1 : 0;
+      const fields = spec.map(column => {
+        const slice = column.width === undefined
+          ? `substring(line, ${column.start})`
+          : `substring(line, ${column.start}, ${column.width})`;
+        return `NULLIF(trim(${slice}), '') AS "${column.name.replace(/"/g, '""')}"`;
+      });
+
+      const query = `
+        CREATE OR REPLACE TABLE "${tableName}" AS
+        SELECT ${fields.join(', ')}
+        FROM (${lineSource(skip)}) OFFSET ${headerLines}
+      `;
+
+      console.error('Executing fixed-width query:', query);
+      await this.executeQuery(query);
+
+      // Check if the table has any rows
+      const rowCountResult = await this.executeQuery(`SELECT COUNT(*) as row_count FROM "${tableName}"`);
+      const rowCount = Number(rowCountResult[0]?.row_count || 0);
+
+      if (rowCount === 0) {
+        await this.executeQuery(`DROP TABLE IF EXISTS "${tableName}"`);
+        throw new Error('Fixed-width file contains no data lines');
+      }
+
+      // Columns are sliced as text, then converted to the requested or inferred types
+      const conversionWarnings: string[] = [];
+      const casts: string[] = [];
+      for (const column of spec) {
+        const quoted = `"${column.name.replace(/"/g, '""')}"`;
+        const type = column.type ?? await this.inferTextColumnType(tableName, quoted);
+        column.type = type;
+
+        if (type === 'VARCHAR') {
+          casts.push(quoted);
+          continue;
+        }
+
+        const failed = await this.executeQuery(
+          `SELECT COUNT(*) as failed FROM "${tableName}" WHERE ${quoted} IS NOT NULL AND TRY_CAST(${quoted} AS ${type}) IS NULL`
+        );
+        const failedCount = Number(failed[0]?.failed || 0);
+        if (failedCount > 0) {
+          conversionWarnings.push(`⚠️ ${failedCount} values in ${column.name} could not be converted to ${type} and were set to NULL`);
+        }
+        casts.push(`TRY_CAST(${quoted} AS ${type}) AS ${quoted}`);
+      }
+
+      if (spec.some(column => column.type !== 'VARCHAR')) {
+        await this.executeQuery(`CREATE OR REPLACE TABLE "${tableName}" AS SELECT ${casts.join(', ')} FROM "${tableName}"`);
+      }
+
+      this.recordLoadedTable(tableName, file_path, [file_path], { loader: 'load_fixed_width', args });
+
+      const columnSummary = spec
+        .map(column => `- ${column.name}: ${column.width === undefined ? `${column.start}-end` : `${column.start}-${column.start + column.width - 1}`} (${column.type})`)
+        .join('\n');
+      const warnings = conversionWarnings.length > 0 ? `\n\n${conversionWarnings.join('\n')}` : '';
+
+      // Automatically inspect the schema and data
+      const schemaInfo = await this.inspectTableSchema(tableName);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Successfully loaded fixed-width file "${file_path}" as table "${tableName}"\n\nColumns (${columns === undefined ? 'inferred from whitespace alignment' : 'from column spec'}):\n${columnSummary}${warnings}\n\n${schemaInfo}`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
         ErrorCode.InternalError,
-        `Query failed: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to load fixed-width file: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
 
-  private async describeTable(args: any) {
+  private validateFixedWidthColumns(columns: any): FixedWidthColumn[] {
+    if (!Array.isArray(columns) || columns.length === 0) {
+      throw new Error('columns must be a non-empty array of { name, start, width, type }');
+    }
+
+    const names = new Set<string>();
+    return columns.map((column: any, index: number) => {
+      const { name, start, width, type } = column ?? {};
+
+      if (typeof name !== 'string' || name.length === 0) throw new Error(`Column ${index + 1} needs a name`);
+      if (names.has(name.toLowerCase())) throw new Error(`Duplicate column name "${name}"`);
+      names.add(name.toLowerCase());
+
+      if (!Number.isInteger(start) || start < 1) throw new Error(`Column "${name}": start must be a 1-based position`);
+      if (width !== undefined && (!Number.isInteger(width) || width < 1)) {
+        throw new Error(`Column "${name}": width must be a positive integer`);
+      }
+      if (width === undefined && index !== columns.length - 1) {
+        throw new Error(`Column "${name}": only the last column may omit width`);
+      }
+      if (type !== undefined && (typeof type !== 'string' || !SQL_TYPE_PATTERN.test(type.trim()))) {
+        throw new Error(`Invalid type "${String(type)}" for column "${name}"`);
+      }
+
+      return { name, start, width, type: type?.trim().toUpperCase() };
+    });
+  }
+
+  /**
+   * Splits sampled lines at character positions that are blank on every line.
+   * Each column runs up to the start of the next one, and the last column to the end of the line,
+   * so values longer than any sampled one are still captured.
+   */
+  private inferFixedWidthColumns(lines: string[], header: boolean): FixedWidthColumn[] {
+    if (lines.length === 0) {
+      throw new Error('Fixed-width file contains no data lines');
+    }
+
+    const length = Math.max(...lines.map(line => line.length));
+    const occupied = Array.from({ length }, (_, position) => lines.some(line => (line[position] ?? ' ').trim() !== ''));
+
+    const starts: number[] = [];
+    for (let position = 0; position < length; position++) {
+      if (occupied[position] && (position === 0 || !occupied[position - 1])) starts.push(position);
+    }
+
+    const names = new Set<string>();
+    return starts.map((start, index) => {
+      const end = starts[index + 1];
+      // The first column starts at the beginning of the line so indented values are not cut off
+      const column: FixedWidthColumn = {
+        name: '',
+        start: index === 0 ? 1 : start + 1,
+        width: end === undefined ? undefined : end - (index === 0 ? 0 : start),
+      };
+
+      let name = header ? lines[0].slice(start, end).trim() : '';
+      if (!name || names.has(name.toLowerCase())) name = `column_${index + 1}`;
+      names.add(name.toLowerCase());
+      column.name = name;
+
+      return column;
+    });
+  }
+
+  /**
+   * Picks the narrowest type every non-NULL value of a text column converts to, falling back to VARCHAR.
+   * Zero-padded numbers such as account ids stay VARCHAR so their leading zeros survive.
+   */
+  private async inferTextColumnType(tableName: string, quotedColumn: string): Promise<string> {
+    const candidates = ['BIGINT', 'DOUBLE', 'DATE', 'TIMESTAMP'];
+    // Casting text to BIGINT rounds decimals instead of failing, so integers are matched by pattern
+    const matches = (type: string) => type === 'BIGINT'
+      ? `COUNT(*) FILTER (WHERE regexp_matches(${quotedColumn}, '^[+-]?[0-9]+$'))`
+      : `COUNT(TRY_CAST(${quotedColumn} AS ${type}))`;
+    const result = await this.executeQuery(`
+      SELECT COUNT(${quotedColumn}) as non_null,
+        COUNT(*) FILTER (WHERE regexp_matches(${quotedColumn}, '^[+-]?0[0-9]')) as zero_padded,
+        ${candidates.map(type => `${matches(type)} as "${type}"`).join(',\n        ')}
+      FROM "${tableName}"
+    `);
+
+    const nonNull = Number(result[0]?.non_null || 0);
+    if (nonNull === 0) return 'VARCHAR';
+
+    const zeroPadded = Number(result[0]?.zero_padded || 0) > 0;
+    return candidates
+      .filter(type => !(zeroPadded && (type === 'BIGINT' || type === 'DOUBLE')))
+      .find(type => Number(result[0][type]) === nonNull) ?? 'VARCHAR';
+  }
+
+  async loadOFX(args: any) {
     try {
-      const { table_name } = args;
-      const result = await this.executeQuery(`DESCRIBE ${table_name}`);
+      const { file_path, table_name, deduplicate = true } = args;
+
+      // Detect if file_path contains glob patterns
+      const isGlobPattern = file_path.includes('*') || file_path.includes('?') || file_path.includes('[');
+
+      let files: string[];
+      if (isGlobPattern) {
+        const globResult = await this.executeQuery(`SELECT file FROM glob('${file_path.replace(/'/g, "''")}')`);
+        files = globResult.map((row: any) => row.file);
+
+        if (files.length === 0) {
+          throw new Error(`No OFX files found matching pattern: ${file_path}`);
+        }
+      } else {
+        // Check if file exists
+        await fs.access(file_path);
+        files = [file_path];
+      }
+
+      const tableName = (table_name || (isGlobPattern ? 'ofx_transactions' : this.defaultTableName(file_path))).replace(/[^a-zA-Z0-9_]/g, '_');
+
+      const transactions: OfxTransaction[] = [];
+      for (const filePath of files) {
+        try {
+          transactions.push(...parseOFX(decodeOFX(await fs.readFile(filePath))));
+        } catch (error) {
+          throw new Error(`${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      // Overlapping statement downloads repeat transactions; FITID is unique per account
+      const seen = new Set<string>();
+      const rows = deduplicate
+        ? transactions.filter(transaction => {
+          if (!transaction.fitid) return true;
+          const key = `${transaction.accountId}\u0000${transaction.fitid}`;
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        })
+        : transactions;
+
+      if (rows.length === 0) {
+        throw new Error('No transactions found in the OFX data');
+      }
+
+      await this.executeQuery(`
+        CREATE OR REPLACE TABLE "${tableName}" (
+          "Date" DATE,
+          "Name" VARCHAR,
+          "Memo" VARCHAR,
+          "Amount" DECIMAL(18, 2),
+          "Type" VARCHAR,
+          "FITID" VARCHAR,
+          "AccountId" VARCHAR
+        )
+      `);
+
+      const literal = (value: string | null) => (value === null ? 'NULL' : `'${value.replace(/'/g, "''")}'`);
+
+      // Insert in batches to keep each statement a reasonable size
+      for (let i = 0; i < rows.length; i += 500) {
+        const values = rows.slice(i, i + 500).map(row =>
+          `(${literal(row.date)}, ${literal(row.name)}, ${literal(row.memo)}, ${row.amount}, ${literal(row.type)}, ${literal(row.fitid)}, ${literal(row.accountId)})`
+        );
+        await this.executeQuery(`INSERT INTO "${tableName}" VALUES ${values.join(', ')}`);
+      }
+
+      this.recordLoadedTable(tableName, file_path, files, { loader: 'load_ofx', args });
+
+      const accounts = await this.executeQuery(`
+        SELECT COALESCE("AccountId", '(unknown)') as account, COUNT(*) as transactions,
+          strftime(MIN("Date"), '%Y-%m-%d') as first_date, strftime(MAX("Date"), '%Y-%m-%d') as last_date
+        FROM "${tableName}"
+        GROUP BY ALL
+        ORDER BY account
+      `);
+      const accountSummary = accounts
+        .map((account: any) => `- ${account.account}: ${Number(account.transactions)} transactions (${account.first_date} to ${account.last_date})`)
+        .join('\n');
+      const duplicateInfo = transactions.length > rows.length
+        ? `\n\n⏭️ Dropped ${transactions.length - rows.length} duplicate transactions (same account and FITID)`
+        : '';
+
+      // Automatically inspect the schema and data
+      const schemaInfo = await this.inspectTableSchema(tableName);
 
       return {
         content: [
           {
             type: 'text',
-            text: `Schema for table "${table_name}":\n${this.safeStringify(result, null, 2)}`,
+            text: `Successfully loaded ${rows.length} transactions from ${files.length === 1 ? `OFX file "${files[0]}"` : `${files.length} OFX files matching "${file_path}"`} as table "${tableName}"\n\nAccounts:\n${accountSummary}${duplicateInfo}\n\n💡 Date, Name and Amount match the optimize_expenses defaults; negative amounts are debits\n\n${schemaInfo}`,
           },
         ],
       };
     } catch (error) {
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to describe table: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to load OFX: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async attachDatabase(args: any) {
+    try {
+      const { file_path, alias, type, read_only = true } = args;
+
+      // Check if file exists
+      await fs.access(file_path);
+
+      if (type !== undefined && type !== 'sqlite' && type !== 'duckdb') {
+        throw new Error(`Unsupported database type "${type}". Use sqlite or duckdb.`);
+      }
+      const databaseType: AttachedDatabase['type'] = type || await this.detectDatabaseType(file_path);
+
+      const databaseAlias = alias || path.basename(file_path, path.extname(file_path)).replace(/[^a-zA-Z0-9_]/g, '_');
+      if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(databaseAlias)) {
+        throw new Error(`Invalid alias "${databaseAlias}": use letters, digits and underscores, starting with a letter`);
+      }
+
+      // Re-attaching one of our aliases replaces it; any other existing database name is off limits
+      if (this.attachedDatabases.has(databaseAlias)) {
+        await this.executeQuery(`DETACH DATABASE IF EXISTS "${databaseAlias}"`);
+        this.attachedDatabases.delete(databaseAlias);
+      } else {
+        const existing = await this.executeQuery(
+          `SELECT 1 FROM duckdb_databases() WHERE database_name = '${databaseAlias}'`
+        );
+        if (existing.length > 0 || ['main', 'memory', 'system', 'temp'].includes(databaseAlias.toLowerCase())) {
+          throw new Error(`Alias "${databaseAlias}" is already in use. Choose another alias.`);
+        }
+      }
+
+      if (databaseType === 'sqlite') {
+        await this.#ensureSqliteExtension();
+      }
+
+      const query = `ATTACH '${file_path.replace(/'/g, "''")}' AS "${databaseAlias}" (TYPE ${databaseType}${read_only ? ', READ_ONLY' : ''})`;
+
+      console.error('Executing attach query:', query);
+      await this.executeQuery(query);
+
+      this.attachedDatabases.set(databaseAlias, { path: file_path, type: databaseType, readOnly: read_only });
+
+      const tables = await this.listAttachedTables(databaseAlias);
+      const tableList = tables.length > 0
+        ? tables.map(table => `- ${table.name}${table.kind === 'view' ? ' (view)' : ''}`).join('\n')
+        : '(no tables)';
+      const example = tables.length > 0 ? `\n\nExample: SELECT * FROM ${tables[0].name} LIMIT 10` : '';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Successfully attached ${databaseType === 'sqlite' ? 'SQLite' : 'DuckDB'} database "${file_path}" as "${databaseAlias}"${read_only ? ' (read-only)' : ''}\n\nTables (${tables.length}):\n${tableList}${example}`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to attach database: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Tells SQLite and DuckDB database files apart by their header bytes.
+   */
+  private async detectDatabaseType(filePath: string): Promise<AttachedDatabase['type']> {
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const header = Buffer.alloc(16);
+      await handle.read(header, 0, 16, 0);
+
+      if (header.toString('latin1', 0, 16) === 'SQLite format 3\0') return 'sqlite';
+      // DuckDB stores its magic bytes after an 8 byte checksum
+      if (header.toString('latin1', 8, 12) === 'DUCK') return 'duckdb';
+    } finally {
+      await handle.close();
+    }
+
+    throw new Error(`${filePath} is not a SQLite or DuckDB database file`);
+  }
+
+  /**
+   * Lists the tables and views of an attached database as names usable in queries.
+   * Objects outside the main schema keep their schema in the name.
+   */
+  private async listAttachedTables(alias: string): Promise<{ name: string; kind: 'table' | 'view' }[]> {
+    const objects = await this.executeQuery(`
+      SELECT schema_name, table_name AS name, 'table' AS kind FROM duckdb_tables() WHERE database_name = '${alias}'
+      UNION ALL
+      SELECT schema_name, view_name AS name, 'view' AS kind FROM duckdb_views() WHERE database_name = '${alias}' AND NOT internal
+      ORDER BY schema_name, name
+    `);
+
+    return objects.map((object: any) => ({
+      name: object.schema_name === 'main' ? `${alias}.${object.name}` : `${alias}.${object.schema_name}.${object.name}`,
+      kind: object.kind,
+    }));
+  }
+
+  /**
+   * Replaces struct columns with one dotted column per field. A dotted name that is already taken (DuckDB column names
+   * are case-insensitive) gets a numeric suffix, e.g. "user.id_2"; renamed lists those as '"user.id" to "user.id_2"'.
+   */
+  private async flattenStructColumns(tableName: string): Promise<{ expanded: number; renamed: string[] }> {
+    let expanded = 0;
+    const renamed: string[] = [];
+
+    // Each pass removes one level of nesting; the cap guards against pathological schemas
+    for (let pass = 0; pass < 32; pass++) {
+      const schema = await this.executeQuery(`DESCRIBE "${tableName}"`);
+      const structColumns = schema.filter((col: any) => col.column_type.toUpperCase().startsWith('STRUCT('));
+
+      if (structColumns.length === 0) break;
+
+      const taken = new Set<string>(
+        schema.filter((col: any) => !structColumns.includes(col)).map((col: any) => col.column_name.toLowerCase())
       );
+      const selectParts: string[] = [];
+      for (const col of schema) {
+        const quotedName = `"${col.column_name.replace(/"/g, '""')}"`;
+
+        if (!structColumns.includes(col)) {
+          selectParts.push(quotedName);
+          continue;
+        }
+
+        const fields = await this.executeQuery(`DESCRIBE SELECT ${quotedName}.* FROM "${tableName}"`);
+        for (const field of fields) {
+          const quotedField = `"${field.column_name.replace(/"/g, '""')}"`;
+          const dottedName = `${col.column_name}.${field.column_name}`;
+          let flatName = dottedName;
+          for (let suffix = 2; taken.has(flatName.toLowerCase()); suffix++) {
+            flatName = `${dottedName}_${suffix}`;
+          }
+          if (flatName !== dottedName) renamed.push(`"${dottedName}" to "${flatName}"`);
+          taken.add(flatName.toLowerCase());
+
+          selectParts.push(`${quotedName}.${quotedField} AS "${flatName.replace(/"/g, '""')}"`);
+        }
+        expanded++;
+      }
+
+      await this.executeQuery(`CREATE OR REPLACE TABLE "${tableName}" AS SELECT ${selectParts.join(', ')} FROM "${tableName}"`);
+    }
+
+    return { expanded, renamed };
+  }
+
+  private async generateAnomalyReport(
+    tableName: string,
+    severityThreshold: string,
+    focusColumns: string[],
+    anomalyTypes: string[]
+  ): Promise<string> {
+    const anomalies: any[] = [];
+    const sevOrder = { low: 1, medium: 2, high: 3, critical: 4 };
+    const minSeverity = sevOrder[severityThreshold as keyof typeof sevOrder] || 2;
+
+    // Get table schema for analysis
+    const table = await this.tableReference(tableName);
+    const schema = await this.executeQuery(`DESCRIBE ${table}`);
+    const totalRows = (await this.executeQuery(`SELECT COUNT(*) as count FROM ${table}`))[0].count;
+
+    let report = `# 🔍 Anomaly Detection Report\n**Table:** ${tableName} (${totalRows.toLocaleString()} rows)\n**Severity Threshold:** ${severityThreshold}\n\n`;
+
+    // 1. DUPLICATE DETECTION
+    if (anomalyTypes.includes('duplicates')) {
+      const duplicateQueries = await this.checkDuplicates(table, schema, focusColumns);
+      for (const dup of duplicateQueries) {
+        if (sevOrder[dup.severity as keyof typeof sevOrder] >= minSeverity) {
+          anomalies.push(dup);
+        }
+      }
+    }
+
+    // 2. NULL VALUE ANALYSIS  
+    if (anomalyTypes.includes('nulls')) {
+      const nullAnomalies = await this.checkNullValues(table, schema, totalRows, focusColumns);
+      for (const null_anomaly of nullAnomalies) {
+        if (sevOrder[null_anomaly.severity as keyof typeof sevOrder] >= minSeverity) {
+          anomalies.push(null_anomaly);
+        }
+      }
+    }
+
+    // 3. STATISTICAL OUTLIERS
+    if (anomalyTypes.includes('statistical') || anomalyTypes.includes('outliers')) {
+      const outlierAnomalies = await this.checkStatisticalOutliers(table, schema, focusColumns);
+      for (const outlier of outlierAnomalies) {
+        if (sevOrder[outlier.severity as keyof typeof sevOrder] >= minSeverity) {
+          anomalies.push(outlier);
+        }
+      }
+    }
+
+    // 4. PATTERN ANALYSIS
+    if (anomalyTypes.includes('patterns')) {
+      const patternAnomalies = await this.checkPatternAnomalies(table, schema, focusColumns);
+      for (const pattern of patternAnomalies) {
+        if (sevOrder[pattern.severity as keyof typeof sevOrder] >= minSeverity) {
+          anomalies.push(pattern);
+        }
+      }
+    }
+
+    // 5. BUSINESS LOGIC RULES
+    if (anomalyTypes.includes('business_logic')) {
+      const businessAnomalies = await this.checkBusinessLogicAnomalies(table, schema);
+      for (const business of businessAnomalies) {
+        if (sevOrder[business.severity as keyof typeof sevOrder] >= minSeverity) {
+          anomalies.push(business);
+        }
+      }
+    }
+
+    // Sort anomalies by severity
+    anomalies.sort((a, b) => sevOrder[b.severity as keyof typeof sevOrder] - sevOrder[a.severity as keyof typeof sevOrder]);
+
+    // Format report
+    if (anomalies.length === 0) {
+      report += `✅ **No anomalies detected** above ${severityThreshold} severity threshold.\n`;
+    } else {
+      const criticalCount = anomalies.filter(a => a.severity === 'critical').length;
+      const highCount = anomalies.filter(a => a.severity === 'high').length;
+      const mediumCount = anomalies.filter(a => a.severity === 'medium').length;
+      const lowCount = anomalies.filter(a => a.severity === 'low').length;
+
+      report += `## 📊 Summary\n`;
+      if (criticalCount > 0) report += `🚨 **Critical:** ${criticalCount} anomalies\n`;
+      if (highCount > 0) report += `⚠️ **High:** ${highCount} anomalies\n`;
+      if (mediumCount > 0) report += `🔶 **Medium:** ${mediumCount} anomalies\n`;
+      if (lowCount > 0) report += `🔵 **Low:** ${lowCount} anomalies\n`;
+
+      report += `\n## 🔍 Detailed Findings\n\n`;
+
+      for (const anomaly of anomalies) {
+        const icon = anomaly.severity === 'critical' ? '🚨' :
+          anomaly.severity === 'high' ? '⚠️' :
+            anomaly.severity === 'medium' ? '🔶' : '🔵';
+
+        report += `### ${icon} ${anomaly.title}\n`;
+        report += `**Severity:** ${anomaly.severity.toUpperCase()}\n`;
+        report += `**Impact:** ${anomaly.impact}\n`;
+        if (anomaly.affected_records) report += `**Affected Records:** ${anomaly.affected_records.toLocaleString()}\n`;
+        if (anomaly.percentage) report += `**Percentage:** ${anomaly.percentage}%\n`;
+        report += `**Details:** ${anomaly.description}\n`;
+        if (anomaly.examples) {
+          report += `**Examples:**\n\`\`\`\n${anomaly.examples}\`\`\`\n`;
+        }
+        if (anomaly.recommendation) report += `**Recommendation:** ${anomaly.recommendation}\n`;
+        report += '\n---\n\n';
+      }
+    }
+
+    return report;
+  }
+
+  private async checkDuplicates(table: string, schema: any[], focusColumns: string[]): Promise<any[]> {
+    const anomalies: any[] = [];
+    const columnsToCheck = focusColumns.length > 0 ? focusColumns : schema.map(col => col.column_name);
+
+    for (const column of columnsToCheck.slice(0, 8)) { // Check more columns
+      const quoted = this.quoteIdentifier(column);
+      const duplicateQuery = `
+        SELECT ${quoted}, COUNT(*) as duplicate_count
+        FROM ${table} 
+        WHERE ${quoted} IS NOT NULL
+        GROUP BY ${quoted}
+        HAVING COUNT(*) > 1
+        ORDER BY duplicate_count DESC
+        LIMIT 10
+      `;
+
+      try {
+        const duplicates = await this.executeQuery(duplicateQuery);
+
+        if (duplicates.length > 0) {
+          const totalDuplicateRecords = duplicates.reduce((sum, dup) => sum + Number(dup.duplicate_count || 0), 0);
+          const maxDuplicates = Math.max(...duplicates.map(d => Number(d.duplicate_count || 0)));
+
+          let severity = 'low';
+          if (maxDuplicates > 50000) severity = 'critical'; // Lowered from 1000 to catch tracking number issue
+          else if (maxDuplicates > 1000) severity = 'high';
+          else if (maxDuplicates > 10) severity = 'medium';
+          else if (maxDuplicates > 1) severity = 'low'; // Report any duplicates
+
+          const examples = duplicates.slice(0, 3).map(d =>
+            `${Object.values(d)[0]}: ${d.duplicate_count} occurrences`
+          ).join('\n');
+
+          anomalies.push({
+            type: 'duplicate',
+            severity,
+            title: `Duplicate Values in ${column}`,
+            impact: 'Data integrity, potential processing errors',
+            affected_records: totalDuplicateRecords,
+            description: `Found ${duplicates.length} unique values with duplicates, max ${maxDuplicates} occurrences`,
+            examples,
+            recommendation: maxDuplicates > 1000 ? 'URGENT: Investigate data corruption, tracking number system failure' : 'Review business logic for duplicates'
+          });
+        }
+      } catch (error) {
+        console.error(`Failed to analyze duplicates for column ${column}:`, error);
+      }
     }
+
+    return anomalies;
   }
 
-  private async listTables() {
-    try {
-      const tables = Array.from(this.loadedTables.entries()).map(([name, path]) => ({
-        table_name: name,
-        file_path: path,
-      }));
+  private async checkNullValues(table: string, schema: any[], totalRows: number, focusColumns: string[]): Promise<any[]> {
+    const anomalies: any[] = [];
+    const columnsToCheck = focusColumns.length > 0 ? focusColumns : schema.map(col => col.column_name);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Loaded tables:\n${this.safeStringify(tables, null, 2)}`,
-          },
-        ],
-      };
-    } catch (error) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Failed to list tables: ${error instanceof Error ? error.message : String(error)}`
-      );
+    for (const column of columnsToCheck) {
+      const quoted = this.quoteIdentifier(column);
+      const nullQuery = `
+        SELECT 
+          COUNT(*) - COUNT(${quoted}) as null_count,
+          ROUND((COUNT(*) - COUNT(${quoted})) * 100.0 / COUNT(*), 2) as null_percentage
+        FROM ${table}
+      `;
+
+      try {
+        const result = await this.executeQuery(nullQuery);
+        const nullCount = result[0]?.null_count || 0;
+        const nullPercentage = result[0]?.null_percentage || 0;
+
+        if (nullCount > 0) {
+          let severity = 'low';
+          if (nullPercentage > 50) severity = 'critical';
+          else if (nullPercentage > 25) severity = 'high';
+          else if (nullPercentage > 10) severity = 'medium';
+
+          if (severity !== 'low' || nullCount > 100) {
+            anomalies.push({
+              type: 'null_values',
+              severity,
+              title: `High Null Rate in ${column.column_name}`,
+              impact: 'Data completeness, analysis accuracy',
+              affected_records: nullCount,
+              percentage: nullPercentage,
+              description: `${nullCount} null values (${nullPercentage}% of total)`,
+              recommendation: nullPercentage > 25 ? 'Investigate data source, implement validation' : 'Consider default values or imputation'
+            });
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to analyze duplicates for column ${column}:`, error);
+      }
     }
+
+    return anomalies;
   }
 
-  private async analyzeCSV(args: any) {
-    try {
-      const { table_name, columns } = args;
+  private async checkStatisticalOutliers(table: string, schema: any[], focusColumns: string[]): Promise<any[]> {
+    const anomalies: any[] = [];
+    const numericColumns = schema.filter(col =>
+      ['DOUBLE', 'BIGINT', 'INTEGER', 'DECIMAL'].includes(col.column_type.toUpperCase())
+    );
 
-      let query: string;
-      if (columns && columns.length > 0) {
-        const columnStats = columns
-          .map((col: string) => `
-            COUNT(${col}) as ${col}_count,
-            COUNT(DISTINCT ${col}) as ${col}_unique,
-            MIN(${col}) as ${col}_min,
-            MAX(${col}) as ${col}_max,
-            AVG(TRY_CAST(${col} AS DOUBLE)) as ${col}_avg
-          `)
-          .join(',');
-        query = `SELECT ${columnStats} FROM ${table_name}`;
-      } else {
-        query = `
-          SELECT 
-            COUNT(*) as total_rows,
-            COUNT(*) - COUNT(*) as missing_values
-          FROM ${table_name}
-        `;
-      }
+    const columnsToCheck = focusColumns.length > 0
+      ? numericColumns.filter(col => focusColumns.includes(col.column_name))
+      : numericColumns;
 
-      const result = await this.executeQuery(query);
+    for (const column of columnsToCheck.slice(0, 5)) {
+      const quoted = this.quoteIdentifier(column.column_name);
+      const statsQuery = `
+        SELECT 
+          AVG(${quoted}) as mean,
+          MIN(${quoted}) as min_val,
+          MAX(${quoted}) as max_val,
+          STDDEV(${quoted}) as stddev,
+          COUNT(*) as total_count
+        FROM ${table} 
+        WHERE ${quoted} IS NOT NULL
+      `;
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Analysis for table "${table_name}":\n${this.safeStringify(result, null, 2)}`,
-          },
-        ],
-      };
-    } catch (error) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Analysis failed: ${error instanceof Error ? error.message : String(error)}`
-      );
-    }
-  }
+      try {
+        const stats = await this.executeQuery(statsQuery);
+        const { mean, min_val, max_val, stddev, total_count } = stats[0] || {};
 
-  private async loadMultipleCSVs(args: any) {
-    try {
-      const {
-        pattern_or_files,
-        table_name = 'multi_csv_data',
-        union_by_name = false,
-        include_filename = false,
-        delimiter = ',',
-        header = true
-      } = args;
+        if (stddev && stddev > 0) {
+          let outlierCount = 0;
+          let outlierQuery = '';
+          let method = '';
 
-      // Validate table name
-      const tableName = table_name.replace(/[^a-zA-Z0-9_]/g, '_');
+          // Use IQR method for small datasets (< 30 rows), 3-sigma for larger ones
+          if (Number(total_count) < 30) {
+            // Use IQR method: Q1 - 1.5*IQR and Q3 + 1.5*IQR
+            const iqrQuery = `
+              SELECT 
+                percentile_cont(0.25) WITHIN GROUP (ORDER BY ${quoted}) as q1,
+                percentile_cont(0.75) WITHIN GROUP (ORDER BY ${quoted}) as q3
+              FROM ${table}
+              WHERE ${quoted} IS NOT NULL
+            `;
+            const iqrResult = await this.executeQuery(iqrQuery);
+            const q1 = Number(iqrResult[0]?.q1 || 0);
+            const q3 = Number(iqrResult[0]?.q3 || 0);
+            const iqr = q3 - q1;
+            const lowerBound = q1 - 1.5 * iqr;
+            const upperBound = q3 + 1.5 * iqr;
 
-      let discoveredFiles: string[] = [];
+            outlierQuery = `
+              SELECT COUNT(*) as outlier_count
+              FROM ${table}
+              WHERE ${quoted} IS NOT NULL 
+                AND (${quoted} < ${lowerBound} OR ${quoted} > ${upperBound})
+            `;
+            method = `IQR (Q1=${Math.round(q1 * 100) / 100}, Q3=${Math.round(q3 * 100) / 100})`;
+          } else {
+            // Use 3-sigma method for larger datasets
+            outlierQuery = `
+              SELECT COUNT(*) as outlier_count
+              FROM ${table}
+              WHERE ${quoted} IS NOT NULL 
+                AND (${quoted} > ${mean + 3 * stddev} OR ${quoted} < ${mean - 3 * stddev})
+            `;
+            method = `3σ (mean: ${Math.round(mean * 100) / 100}, σ: ${Math.round(stddev * 100) / 100})`;
+          }
 
-      if (typeof pattern_or_files === 'string') {
-        // Discover files if it's a glob pattern
-        if (pattern_or_files.includes('*') || pattern_or_files.includes('?') || pattern_or_files.includes('[')) {
-          const globQuery = `SELECT file FROM glob('${pattern_or_files.replace(/'/g, "''")}')`;
-          const globResult = await this.executeQuery(globQuery);
-          discoveredFiles = globResult.map((row: any) => row.file);
+          const outlierResult = await this.executeQuery(outlierQuery);
+          outlierCount = Number(outlierResult[0]?.outlier_count || 0);
+          const outlierPercentage = (outlierCount / Number(total_count)) * 100;
 
-          if (discoveredFiles.length === 0) {
-            throw new Error(`No CSV files found matching pattern: ${pattern_or_files}`);
+          if (outlierCount > 0) {
+            let severity = 'low';
+            if (outlierPercentage > 5) severity = 'high';
+            else if (outlierPercentage > 1) severity = 'medium';
+
+            // Get examples of outliers - reuse the same query logic
+            const exampleQuery = outlierQuery.replace('COUNT(*) as outlier_count', quoted) + ' ORDER BY ABS(' + quoted + ' - ' + mean + ') DESC LIMIT 5';
+
+            const examples = await this.executeQuery(exampleQuery);
+            const exampleText = examples.map(e => `${e[column.column_name]}`).join(', ');
+
+            anomalies.push({
+              type: 'statistical_outlier',
+              severity,
+              title: `Statistical Outliers in ${column.column_name}`,
+              impact: 'Potential data quality issues, skewed analysis',
+              affected_records: outlierCount,
+              percentage: Math.round(outlierPercentage * 100) / 100,
+              description: `${outlierCount} values identified using ${method}`,
+              examples: `Range: ${min_val} to ${max_val}\nOutlier examples: ${exampleText}`,
+              recommendation: 'Investigate extreme values, consider data validation rules'
+            });
           }
         }
-      } else if (Array.isArray(pattern_or_files)) {
-        // For arrays, we'll create a list format that DuckDB can handle
-        discoveredFiles = pattern_or_files;
+      } catch (error) {
+        console.error(`Failed to analyze duplicates for column ${column}:`, error);
+      }
+    }
 
-        // Check if all files exist
-        for (const filePath of pattern_or_files) {
-          try {
-            await fs.access(filePath);
-          } catch {
-            throw new Error(`File not found: ${filePath}`);
-          }
+    return anomalies;
+  }
+
+  private async checkPatternAnomalies(table: string, schema: any[], focusColumns: string[]): Promise<any[]> {
+    const anomalies: any[] = [];
+
+    // Check for suspicious patterns in string columns
+    const stringColumns = schema.filter(col =>
+      col.column_type.toUpperCase().includes('VARCHAR') || col.column_type.toUpperCase().includes('TEXT')
+    );
+
+    const columnsToCheck = focusColumns.length > 0
+      ? stringColumns.filter(col => focusColumns.includes(col.column_name))
+      : stringColumns.slice(0, 3); // Limit to prevent excessive queries
+
+    for (const column of columnsToCheck) {
+      const quoted = this.quoteIdentifier(column.column_name);
+      // Check for unusual length patterns
+      const lengthQuery = `
+        SELECT 
+          LENGTH(${quoted}) as str_length,
+          COUNT(*) as count
+        FROM ${table}
+        WHERE ${quoted} IS NOT NULL
+        GROUP BY LENGTH(${quoted})
+        ORDER BY count DESC
+        LIMIT 20
+      `;
+
+      try {
+        const lengthResults = await this.executeQuery(lengthQuery);
+
+        // Look for extremely short or long values
+        const extremeLengths = lengthResults.filter(r => r.str_length > 200 || r.str_length < 1);
+        if (extremeLengths.length > 0) {
+          const affectedCount = extremeLengths.reduce((sum, r) => sum + r.count, 0);
+
+          anomalies.push({
+            type: 'length_pattern',
+            severity: affectedCount > 100 ? 'medium' : 'low',
+            title: `Unusual Length Patterns in ${column.column_name}`,
+            impact: 'Potential data truncation or corruption',
+            affected_records: affectedCount,
+            description: `Found values with extreme lengths`,
+            examples: extremeLengths.map(r => `Length ${r.str_length}: ${r.count} records`).join('\n'),
+            recommendation: 'Review data input validation and field constraints'
+          });
         }
-      } else {
-        throw new Error('pattern_or_files must be a string (glob pattern) or array of file paths');
+      } catch (error) {
+        console.error(`Failed to analyze length patterns for column ${column.column_name}:`, error);
       }
+    }
 
-      // Build the DuckDB query based on input type
-      let query: string;
+    return anomalies;
+  }
 
-      if (typeof pattern_or_files === 'string') {
-        // Use direct string for glob patterns
-        const escapedPattern = pattern_or_files.replace(/'/g, "''");
-        query = `
-          CREATE OR REPLACE TABLE "${tableName}" AS 
-          SELECT * FROM read_csv('${escapedPattern}',
-            header=${header},
-            delim='${delimiter}',
-            union_by_name=${union_by_name},
-            filename=${include_filename}
-          )
+  private async checkBusinessLogicAnomalies(table: string, schema: any[]): Promise<any[]> {
+    const anomalies: any[] = [];
+
+    // Generic business logic checks
+    try {
+      // Check for zero/negative values in amount columns
+      const amountColumns = schema.filter(col =>
+        col.column_name.toLowerCase().includes('amount') ||
+        col.column_name.toLowerCase().includes('charge') ||
+        col.column_name.toLowerCase().includes('price')
+      );
+
+      for (const column of amountColumns) {
+        const quoted = this.quoteIdentifier(column.column_name);
+        const negativeQuery = `
+          SELECT COUNT(*) as negative_count
+          FROM ${table}
+          WHERE ${quoted} < 0
         `;
-      } else {
-        // Use array format for file lists
-        const fileList = pattern_or_files.map(f => `'${f.replace(/'/g, "''")}'`).join(', ');
-        query = `
-          CREATE OR REPLACE TABLE "${tableName}" AS 
-          SELECT * FROM read_csv([${fileList}],
-            header=${header},
-            delim='${delimiter}',
-            union_by_name=${union_by_name},
-            filename=${include_filename}
-          )
+
+        const zeroQuery = `
+          SELECT COUNT(*) as zero_count  
+          FROM ${table}
+          WHERE ${quoted} = 0
         `;
-      }
 
-      console.error('Executing multi-CSV query:', query);
-      await this.executeQuery(query);
+        const [negativeResult, zeroResult] = await Promise.all([
+          this.executeQuery(negativeQuery),
+          this.executeQuery(zeroQuery)
+        ]);
 
-      // Check if the table has any rows
-      const rowCountQuery = `SELECT COUNT(*) as row_count FROM "${tableName}"`;
-      const rowCountResult = await this.executeQuery(rowCountQuery);
-      const rowCount = Number(rowCountResult[0]?.row_count || 0);
+        const _negativeCount = negativeResult[0]?.negative_count || 0;
+        const zeroCount = zeroResult[0]?.zero_count || 0;
 
-      if (rowCount === 0) {
-        await this.executeQuery(`DROP TABLE IF EXISTS "${tableName}"`);
-        throw new Error('No data was loaded from the CSV files');
+        if (zeroCount > 50) {
+          anomalies.push({
+            type: 'business_logic',
+            severity: zeroCount > 500 ? 'high' : 'medium',
+            title: `Excessive Zero Values in ${column.column_name}`,
+            impact: 'Revenue loss, processing errors',
+            affected_records: zeroCount,
+            description: `${zeroCount} records with zero charges - potential pricing or billing errors`,
+            recommendation: 'Review billing logic and pricing rules'
+          });
+        }
       }
 
-      // Store the table reference
-      this.loadedTables.set(tableName, typeof pattern_or_files === 'string' ? pattern_or_files : pattern_or_files.join(', '));
-
-      // Get schema and sample information
-      const schemaInfo = await this.inspectTableSchema(tableName);
-
-      const fileCountText = discoveredFiles.length > 0
-        ? `${discoveredFiles.length} files`
-        : 'multiple files';
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Successfully loaded ${fileCountText} as table "${tableName}"\n\nFiles processed: ${discoveredFiles.length > 0 ? discoveredFiles.slice(0, 10).join(', ') + (discoveredFiles.length > 10 ? '...' : '') : 'matched by pattern'}\n\n${schemaInfo}`,
-          },
-        ],
-      };
-    } catch (error) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Multi-CSV loading failed: ${error instanceof Error ? error.message : String(error)}`
+      // Check for date consistency
+      const dateColumns = schema.filter(col =>
+        col.column_type.toUpperCase().includes('DATE') || col.column_type.toUpperCase().includes('TIMESTAMP')
       );
-    }
-  }
 
-  private async discoverCSVFiles(args: any) {
-    try {
-      const { pattern } = args;
+      if (dateColumns.length >= 2) {
+        // Check for impossible date sequences (e.g., end before start)
+        const dateColumn1 = dateColumns[0].column_name;
+        const dateColumn2 = dateColumns[1].column_name;
 
-      // Use DuckDB's glob function to find matching files
-      const query = `SELECT file FROM glob('${pattern.replace(/'/g, "''")}') ORDER BY file`;
-      const result = await this.executeQuery(query);
+        const [quoted1, quoted2] = [dateColumn1, dateColumn2].map(column => this.quoteIdentifier(column));
+        const dateOrderQuery = `
+          SELECT COUNT(*) as invalid_order_count
+          FROM ${table}
+          WHERE ${quoted1} IS NOT NULL AND ${quoted2} IS NOT NULL
+            AND ${quoted1} > ${quoted2}
+        `;
 
-      const files = result.map((row: any) => row.file);
+        const invalidOrderResult = await this.executeQuery(dateOrderQuery);
+        const invalidOrderCount = invalidOrderResult[0]?.invalid_order_count || 0;
 
-      // Get additional file info if possible
-      const fileInfo = await Promise.all(files.map(async (filePath: string) => {
-        try {
-          const stats = await fs.stat(filePath);
-          return {
-            path: filePath,
-            size: stats.size,
-            modified: stats.mtime.toISOString(),
-            exists: true
-          };
-        } catch (error) {
-          return {
-            path: filePath,
-            size: 0,
-            modified: null,
-            exists: false,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          };
+        if (invalidOrderCount > 0) {
+          anomalies.push({
+            type: 'business_logic',
+            severity: invalidOrderCount > 100 ? 'high' : 'medium',
+            title: `Invalid Date Sequence`,
+            impact: 'Data integrity, timeline analysis errors',
+            affected_records: invalidOrderCount,
+            description: `${invalidOrderCount} records where ${dateColumn1} > ${dateColumn2}`,
+            recommendation: 'Review data entry process and add validation constraints'
+          });
         }
-      }));
-
-      const totalSize = fileInfo.reduce((sum, info) => sum + (info.exists ? info.size : 0), 0);
-      const existingFiles = fileInfo.filter(info => info.exists);
+      }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Found ${files.length} files matching pattern "${pattern}"\n\nExisting files: ${existingFiles.length}\nTotal size: ${(totalSize / 1024 / 1024).toFixed(2)} MB\n\nFile Details:\n${fileInfo.map(info =>
-              `- ${info.path} (${info.exists ? `${(info.size / 1024).toFixed(1)} KB, modified: ${info.modified}` : 'NOT FOUND'})`
-            ).join('\n')}`,
-          },
-        ],
-      };
     } catch (error) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        `CSV file discovery failed: ${error instanceof Error ? error.message : String(error)}`
-      );
+      console.error('Failed to perform business logic anomaly checks:', error);
     }
+
+    return anomalies;
   }
 
-  async optimizeExpenses(args: any) {
+  private async inspectTableSchema(tableName: string): Promise<string> {
     try {
-      const {
-        table_name,
-        amount_column = 'Amount',
-        name_column = 'Name',
-        date_column = 'Date'
-      } = args;
+      const table = this.quoteTableName(tableName);
 
-      const report = await this.generateExpenseOptimizationReport(
-        table_name,
-        amount_column,
-        name_column,
-        date_column
-      );
+      // Get schema information
+      const schema = await this.executeQuery(`DESCRIBE ${table}`);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: report,
-          },
-        ],
-      };
-    } catch (error) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Expense optimization failed: ${error instanceof Error ? error.message : String(error)}`
-      );
-    }
-  }
+      // Get row count
+      const countResult = await this.executeQuery(`SELECT COUNT(*) as row_count FROM ${table}`);
+      const rowCount = countResult[0]?.row_count || 0;
 
-  async detectAnomalies(args: any) {
-    try {
-      const {
-        table_name,
-        severity_threshold = 'medium',
-        focus_columns = [],
-        anomaly_types = ['statistical', 'duplicates', 'nulls', 'outliers', 'patterns']
-      } = args;
+      // Get sample data (first 3 rows)
+      const sampleData = await this.executeQuery(`SELECT * FROM ${table} LIMIT 3`);
 
-      const report = await this.generateAnomalyReport(
-        table_name,
-        severity_threshold,
-        focus_columns,
-        anomaly_types
-      );
+      // Format the inspection result
+      let inspection = `📊 TABLE INSPECTION: "${tableName}"\n`;
+      inspection += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
+      inspection += `📈 Total Rows: ${rowCount.toLocaleString()}\n\n`;
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: report,
-          },
-        ],
-      };
+      inspection += `🏗️ SCHEMA:\n`;
+      schema.forEach((col: any, index: number) => {
+        const icon = this.getColumnTypeIcon(col.column_type);
+        inspection += `  ${index + 1}. ${icon} ${col.column_name} (${col.column_type})${col.null ? ' - nullable' : ''}\n`;
+      });
+
+      if (sampleData.length > 0) {
+        inspection += `\n👀 SAMPLE DATA (first ${sampleData.length} rows):\n`;
+        inspection += this.formatSampleData(sampleData, schema);
+      }
+
+      inspection += `\n💡 Ready for analysis! Use query_csv to explore the data with SQL.`;
+
+      return inspection;
     } catch (error) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Anomaly detection failed: ${error instanceof Error ? error.message : String(error)}`
-      );
+      return `Schema inspection failed: ${error instanceof Error ? error.message : String(error)}`;
     }
   }
 
-  async loadExcel(args: any) {
-    try {
-      const { file_path, table_name, sheet, range, header = true, all_varchar = false } = args;
-
-      // Validate file extension
-      if (!file_path.toLowerCase().endsWith('.xlsx')) {
-        throw new Error('Only .xlsx files are supported. Please convert .xls files to .xlsx format.');
-      }
-
-      // Check if file exists
-      await fs.access(file_path);
+  private getColumnTypeIcon(type: string): string {
+    const lowerType = type.toLowerCase();
+    if (lowerType.includes('int') || lowerType.includes('bigint') || lowerType.includes('double') || lowerType.includes('decimal')) return '🔢';
+    if (lowerType.includes('varchar') || lowerType.includes('text') || lowerType.includes('string')) return '📝';
+    if (lowerType.includes('date') || lowerType.includes('timestamp')) return '📅';
+    if (lowerType.includes('bool')) return '✅';
+    return '📊';
+  }
 
-      // Ensure Excel extension is loaded
-      await this.#ensureExcelExtension();
+  private formatSampleData(data: any[], schema: any[]): string {
+    if (data.length === 0) return '  No data available\n';
 
-      const tableName = table_name || path.basename(file_path, path.extname(file_path)).replace(/[^a-zA-Z0-9_]/g, '_');
+    let result = '';
+    const columnNames = schema.map(col => col.column_name);
 
-      // Build query parameters
-      const escapedPath = file_path.replace(/'/g, "''");
-      const queryParams: string[] = [`'${escapedPath}'`];
+    // Create header
+    result += '  ' + columnNames.map(name => name.padEnd(15)).join(' | ') + '\n';
+    result += '  ' + columnNames.map(() => '─'.repeat(15)).join('─┼─') + '\n';
 
-      // Add optional parameters
-      const options: string[] = [];
-      if (sheet) options.push(`sheet='${sheet.replace(/'/g, "''")}'`);
-      if (range) options.push(`range='${range.replace(/'/g, "''")}'`);
-      options.push(`header=${header}`);
-      if (all_varchar) options.push(`all_varchar=${all_varchar}`);
+    // Add data rows
+    data.forEach((row: any) => {
+      const values = columnNames.map(name => {
+        const value = row[name];
+        const strValue = value === null || value === undefined ? 'NULL' : String(value);
+        return strValue.length > 15 ? strValue.substring(0, 12) + '...' : strValue.padEnd(15);
+      });
+      result += '  ' + values.join(' | ') + '\n';
+    });
 
-      const optionsStr = options.length > 0 ? `, ${options.join(', ')}` : '';
+    return result;
+  }
 
-      const query = `
-        CREATE OR REPLACE TABLE "${tableName}" AS 
-        SELECT * FROM read_xlsx(${queryParams[0]}${optionsStr})
-      `;
+  /**
+   * Translates load_csv style arguments into read_csv named parameters.
+   * Every value is validated and string literals are escaped, since they end up inline in SQL.
+   */
+  private buildReadCSVOptions(options: any): string[] {
+    const {
+      delimiter,
+      header = true,
+      quote,
+      escape,
+      skip,
+      nullstr,
+      dateformat,
+      timestampformat,
+      column_types,
+      column_names,
+      sample_size,
+      ignore_errors,
+      store_rejects
+    } = options;
+    const literal = (value: string) => `'${value.replace(/'/g, "''")}'`;
+    const params: string[] = [];
+
+    if (typeof header !== 'boolean') throw new Error('header must be a boolean');
+    params.push(`header=${header}`);
+
+    if (delimiter !== undefined) {
+      if (typeof delimiter !== 'string' || delimiter.length === 0 || delimiter.length > 4) {
+        throw new Error('delimiter must be a string of 1 to 4 characters');
+      }
+      params.push(`delim=${literal(delimiter)}`);
+    }
 
-      console.error('Executing Excel query:', query);
-      await this.executeQuery(query);
+    // An empty quote or escape disables quoting/escaping entirely
+    for (const [name, value] of [['quote', quote], ['escape', escape]] as const) {
+      if (value === undefined) continue;
+      if (typeof value !== 'string' || value.length > 1) {
+        throw new Error(`${name} must be a single character or an empty string`);
+      }
+      params.push(`${name}=${literal(value)}`);
+    }
 
-      // Check if the table has any rows
-      const rowCountQuery = `SELECT COUNT(*) as row_count FROM "${tableName}"`;
-      const rowCountResult = await this.executeQuery(rowCountQuery);
-      const rowCount = Number(rowCountResult[0]?.row_count || 0);
+    if (skip !== undefined) {
+      if (!Number.isInteger(skip) || skip < 0) throw new Error('skip must be a non-negative integer');
+      params.push(`skip=${skip}`);
+    }
 
-      if (rowCount === 0) {
-        await this.executeQuery(`DROP TABLE IF EXISTS "${tableName}"`);
-        throw new Error('Excel file is empty or contains no valid data in the specified sheet/range');
+    if (nullstr !== undefined) {
+      const values = Array.isArray(nullstr) ? nullstr : [nullstr];
+      if (values.length === 0 || values.some(value => typeof value !== 'string')) {
+        throw new Error('nullstr must be a string or an array of strings');
       }
+      params.push(`nullstr=[${values.map(literal).join(', ')}]`);
+    }
 
-      this.loadedTables.set(tableName, file_path);
+    for (const [name, value] of [['dateformat', dateformat], ['timestampformat', timestampformat]] as const) {
+      if (value === undefined) continue;
+      if (typeof value !== 'string' || value.length === 0) throw new Error(`${name} must be a non-empty string`);
+      params.push(`${name}=${literal(value)}`);
+    }
 
-      // Automatically inspect the schema and data
-      const schemaInfo = await this.inspectTableSchema(tableName);
+    if (column_types !== undefined) {
+      if (typeof column_types !== 'object' || column_types === null || Array.isArray(column_types)) {
+        throw new Error('column_types must be an object mapping column names to DuckDB types');
+      }
+      const entries = Object.entries(column_types);
+      for (const [column, type] of entries) {
+        if (typeof type !== 'string' || !SQL_TYPE_PATTERN.test(type.trim())) {
+          throw new Error(`Invalid type "${String(type)}" for column "${column}"`);
+        }
+      }
+      if (entries.length > 0) {
+        params.push(`types={${entries.map(([column, type]) => `${literal(column)}: ${literal((type as string).trim())}`).join(', ')}}`);
+      }
+    }
 
-      const sheetInfo = sheet ? ` (sheet: ${sheet})` : '';
-      const rangeInfo = range ? ` (range: ${range})` : '';
+    if (column_names !== undefined) {
+      if (!Array.isArray(column_names) || column_names.length === 0 || column_names.some(name => typeof name !== 'string' || name.length === 0)) {
+        throw new Error('column_names must be a non-empty array of strings');
+      }
+      params.push(`names=[${column_names.map(literal).join(', ')}]`);
+    }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Successfully loaded Excel file "${file_path}"${sheetInfo}${rangeInfo} as table "${tableName}"\n\n${schemaInfo}`,
-          },
-        ],
-      };
-    } catch (error) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Failed to load Excel: ${error instanceof Error ? error.message : String(error)}`
-      );
+    if (sample_size !== undefined) {
+      if (!Number.isInteger(sample_size) || (sample_size < 1 && sample_size !== -1)) {
+        throw new Error('sample_size must be a positive integer or -1');
+      }
+      params.push(`sample_size=${sample_size}`);
     }
-  }
 
-  async loadMultipleExcels(args: any) {
-    try {
-      const {
-        pattern_or_files,
-        table_name = 'multi_excel_data',
-        union_by_name = false,
-        include_filename = false,
-        sheet,
-        header = true,
-        all_varchar = false
-      } = args;
+    if (ignore_errors !== undefined) {
+      if (typeof ignore_errors !== 'boolean') throw new Error('ignore_errors must be a boolean');
+      params.push(`ignore_errors=${ignore_errors}`);
+    }
 
-      // Validate table name
-      const tableName = table_name.replace(/[^a-zA-Z0-9_]/g, '_');
+    if (store_rejects !== undefined) {
+      if (typeof store_rejects !== 'boolean') throw new Error('store_rejects must be a boolean');
+      if (store_rejects) {
+        params.push(`store_rejects=true, rejects_table='${REJECTS_ERRORS_TABLE}', rejects_scan='${REJECTS_SCANS_TABLE}'`);
+      }
+    }
 
-      let discoveredFiles: string[] = [];
+    return params;
+  }
 
-      if (typeof pattern_or_files === 'string') {
-        // Discover files if it's a glob pattern
-        if (pattern_or_files.includes('*') || pattern_or_files.includes('?') || pattern_or_files.includes('[')) {
-          const globQuery = `SELECT file FROM glob('${pattern_or_files.replace(/'/g, "''")}')`;
-          const globResult = await this.executeQuery(globQuery);
-          discoveredFiles = globResult.map((row: any) => row.file);
+  /**
+   * Translates hive_partitioning, hive_types and hive_types_autocast into read_* named parameters.
+   */
+  private buildHivePartitioningOptions(options: any): string[] {
+    const { hive_partitioning, hive_types, hive_types_autocast } = options;
+    const params: string[] = [];
 
-          if (discoveredFiles.length === 0) {
-            throw new Error(`No Excel files found matching pattern: ${pattern_or_files}`);
-          }
-        } else {
-          // Single file path - validate it's xlsx and exists
-          if (!pattern_or_files.toLowerCase().endsWith('.xlsx')) {
-            throw new Error('Only .xlsx files are supported. Please convert .xls files to .xlsx format.');
-          }
-          try {
-            await fs.access(pattern_or_files);
-          } catch {
-            throw new Error(`File not found: ${pattern_or_files}`);
-          }
-          discoveredFiles = [pattern_or_files];
-        }
-      } else if (Array.isArray(pattern_or_files)) {
-        discoveredFiles = pattern_or_files;
+    if (hive_partitioning === undefined) {
+      if (hive_types !== undefined || hive_types_autocast !== undefined) {
+        throw new Error('hive_types and hive_types_autocast require hive_partitioning: true');
+      }
+      return params;
+    }
 
-        // Check if all files exist and are xlsx files
-        for (const filePath of pattern_or_files) {
-          if (!filePath.toLowerCase().endsWith('.xlsx')) {
-            throw new Error(`Only .xlsx files are supported. Found non-xlsx file: ${filePath}`);
-          }
-          try {
-            await fs.access(filePath);
-          } catch {
-            throw new Error(`File not found: ${filePath}`);
-          }
+    if (typeof hive_partitioning !== 'boolean') throw new Error('hive_partitioning must be a boolean');
+    params.push(`hive_partitioning=${hive_partitioning}`);
+
+    if (hive_types !== undefined) {
+      if (typeof hive_types !== 'object' || hive_types === null || Array.isArray(hive_types)) {
+        throw new Error('hive_types must be an object mapping partition keys to DuckDB types');
+      }
+      const entries = Object.entries(hive_types);
+      for (const [key, type] of entries) {
+        if (typeof type !== 'string' || !SQL_TYPE_PATTERN.test(type.trim())) {
+          throw new Error(`Invalid type "${String(type)}" for partition key "${key}"`);
         }
-      } else {
-        throw new Error('pattern_or_files must be a string (glob pattern) or array of file paths');
       }
-
-      // Validate that we found xlsx files
-      const nonXlsxFiles = discoveredFiles.filter(file => !file.toLowerCase().endsWith('.xlsx'));
-      if (nonXlsxFiles.length > 0) {
-        throw new Error(`Found non-xlsx files: ${nonXlsxFiles.join(', ')}. Only .xlsx files are supported.`);
+      if (entries.length > 0) {
+        const literal = (value: string) => `'${value.replace(/'/g, "''")}'`;
+        params.push(`hive_types={${entries.map(([key, type]) => `${literal(key)}: ${literal((type as string).trim())}`).join(', ')}}`);
       }
+    }
 
-      // Ensure Excel extension is loaded
-      await this.#ensureExcelExtension();
-
-      // Build the DuckDB query based on input type
-      let query: string;
+    if (hive_types_autocast !== undefined) {
+      if (typeof hive_types_autocast !== 'boolean') throw new Error('hive_types_autocast must be a boolean');
+      params.push(`hive_types_autocast=${hive_types_autocast}`);
+    }
 
-      if (typeof pattern_or_files === 'string' && pattern_or_files.includes('*')) {
-        // Use direct string for glob patterns
-        const escapedPattern = pattern_or_files.replace(/'/g, "''");
-        const options: string[] = [];
-        if (sheet) options.push(`sheet='${sheet.replace(/'/g, "''")}'`);
-        options.push(`header=${header}`);
-        options.push(`union_by_name=${union_by_name}`);
-        options.push(`filename=${include_filename}`);
-        if (all_varchar) options.push(`all_varchar=${all_varchar}`);
+    return params;
+  }
 
-        const optionsStr = options.join(', ');
-        query = `
-          CREATE OR REPLACE TABLE "${tableName}" AS 
-          SELECT * FROM read_xlsx('${escapedPattern}', ${optionsStr})
-        `;
-      } else {
-        // Use array format for file lists
-        const fileList = discoveredFiles.map(f => `'${f.replace(/'/g, "''")}'`).join(', ');
-        const options: string[] = [];
-        if (sheet) options.push(`sheet='${sheet.replace(/'/g, "''")}'`);
-        options.push(`header=${header}`);
-        options.push(`union_by_name=${union_by_name}`);
-        options.push(`filename=${include_filename}`);
-        if (all_varchar) options.push(`all_varchar=${all_varchar}`);
+  /**
+   * Runs a loader's CREATE query. With store_rejects, rejectsFor names the table whose "<table>_rejects" receives
+   * the rows DuckDB rejected: a new load replaces the rejects of the previous one and an append adds to them.
+   * A "<table>_rejects" table that no load created is never touched. DuckDB's own rejects tables are dropped
+   * whether or not the load succeeds.
+   */
+  private async runLoadQuery(query: string, rejectsFor: string | null, append = false): Promise<StoredRejects | null> {
+    if (rejectsFor === null) {
+      await this.executeQuery(query);
+      return null;
+    }
 
-        const optionsStr = options.join(', ');
-        query = `
-          CREATE OR REPLACE TABLE "${tableName}" AS 
-          SELECT * FROM read_xlsx([${fileList}], ${optionsStr})
-        `;
-      }
+    const rejectsTable = `${rejectsFor}_rejects`;
+    const existing = await this.executeQuery(
+      `SELECT 1 FROM duckdb_tables() WHERE lower(table_name) = lower('${rejectsTable.replace(/'/g, "''")}') AND database_name = current_database() AND schema_name = current_schema() AND NOT temporary`
+    );
+    if (existing.length > 0 && !this.rejectsTables.has(rejectsTable)) {
+      throw new Error(`Table "${rejectsTable}" already exists and was not created by a load with store_rejects; rename or drop it, or load without store_rejects`);
+    }
 
-      console.error('Executing multi-Excel query:', query);
+    try {
       await this.executeQuery(query);
+      const rejected = `
+        SELECT s.file_path AS file, e.line, e.column_name, e.error_type, e.csv_line AS raw_line, e.error_message
+        FROM ${REJECTS_ERRORS_TABLE} e
+        JOIN ${REJECTS_SCANS_TABLE} s ON e.scan_id = s.scan_id AND e.file_id = s.file_id
+        ORDER BY file, line
+      `;
 
-      // Check if the table has any rows
-      const rowCountQuery = `SELECT COUNT(*) as row_count FROM "${tableName}"`;
-      const rowCountResult = await this.executeQuery(rowCountQuery);
-      const rowCount = Number(rowCountResult[0]?.row_count || 0);
-
-      if (rowCount === 0) {
-        await this.executeQuery(`DROP TABLE IF EXISTS "${tableName}"`);
-        throw new Error('No data was loaded from the Excel files');
+      if (append && existing.length > 0) {
+        const [{ next }] = await this.executeQuery(`SELECT COALESCE(MAX(rowid) + 1, 0) AS next FROM "${rejectsTable}"`);
+        await this.executeQuery(`INSERT INTO "${rejectsTable}" ${rejected}`);
+        return { target: rejectsFor, firstRow: Number(next), created: false };
       }
 
-      // Store the table reference
-      this.loadedTables.set(tableName, typeof pattern_or_files === 'string' ? pattern_or_files : pattern_or_files.join(', '));
+      await this.executeQuery(`CREATE OR REPLACE TABLE "${rejectsTable}" AS ${rejected}`);
+      this.rejectsTables.add(rejectsTable);
+      return { target: rejectsFor, firstRow: 0, created: true };
+    } finally {
+      await this.executeQuery(`DROP TABLE IF EXISTS ${REJECTS_ERRORS_TABLE}`);
+      await this.executeQuery(`DROP TABLE IF EXISTS ${REJECTS_SCANS_TABLE}`);
+    }
+  }
 
-      // Get schema and sample information
-      const schemaInfo = await this.inspectTableSchema(tableName);
+  /**
+   * Summarizes the rows a load added to "<table>_rejects" for the load response. A load that kept no rows passes
+   * keep = false: its rejects are removed along with the empty table, so the summary does not point at them.
+   */
+  private async summarizeRejectedRows(rejects: StoredRejects, keep = true): Promise<string> {
+    const rejectsTable = `${rejects.target}_rejects`;
+    const fromLoad = `FROM "${rejectsTable}" WHERE rowid >= ${rejects.firstRow}`;
+    const summary = await this.executeQuery(`
+      SELECT error_type, COUNT(*) as reject_count
+      ${fromLoad}
+      GROUP BY error_type
+      ORDER BY reject_count DESC
+    `);
+    const total = summary.reduce((sum, row) => sum + Number(row.reject_count), 0);
+    const examples = total > 0
+      ? await this.executeQuery(`SELECT file, line, error_message ${fromLoad} ORDER BY file, line LIMIT 3`)
+      : [];
+
+    if (!keep && rejects.created) {
+      await this.executeQuery(`DROP TABLE IF EXISTS "${rejectsTable}"`);
+      this.rejectsTables.delete(rejectsTable);
+    } else if (!keep) {
+      await this.executeQuery(`DELETE ${fromLoad}`);
+    }
+    if (total === 0) {
+      return `\n\n✅ No rows were rejected`;
+    }
 
-      const fileCountText = discoveredFiles.length > 0
-        ? `${discoveredFiles.length} files`
-        : 'multiple files';
+    let text = `\n\n⚠️ Rejected ${total.toLocaleString()} malformed rows${keep ? ` (stored in table "${rejectsTable}")` : ''}:\n`;
+    text += summary.map(row => `  - ${row.error_type}: ${Number(row.reject_count).toLocaleString()}`).join('\n');
+    text += `\n  First rejects:\n`;
+    text += examples.map(row => `    ${path.basename(row.file)} line ${row.line}: ${row.error_message}`).join('\n');
+    if (keep) {
+      text += `\n  Use inspect_rejects with table_name "${rejects.target}" to see the raw lines.`;
+    }
+    return text;
+  }
 
-      const sheetInfo = sheet ? ` (sheet: ${sheet})` : '';
+  /**
+   * Counts the rows each file contributed to a materialized multi-file load, keyed by the value of its filename column.
+   */
+  private async countRowsPerFile(tableName: string, fileColumn: string): Promise<Map<string, number>> {
+    const result = await this.executeQuery(`SELECT "${fileColumn}" AS file, COUNT(*) AS row_count FROM "${tableName}" GROUP BY 1`);
+    return new Map(result.map(row => [row.file, Number(row.row_count)]));
+  }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Successfully loaded ${fileCountText} Excel files${sheetInfo} as table "${tableName}"\n\nFiles processed: ${discoveredFiles.length > 0 ? discoveredFiles.slice(0, 10).join(', ') + (discoveredFiles.length > 10 ? '...' : '') : 'matched by pattern'}\n\n${schemaInfo}`,
-          },
-        ],
-      };
-    } catch (error) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Multi-Excel loading failed: ${error instanceof Error ? error.message : String(error)}`
-      );
+  /**
+   * Returns the columns DuckDB detects in each file read on its own, before the files are combined.
+   * readSource returns the table function reading a single file.
+   */
+  private async describeFiles(files: string[], readSource: (file: string) => string): Promise<Map<string, any[]>> {
+    const schemas = new Map<string, any[]>();
+    for (const file of files) {
+      schemas.set(file, await this.executeQuery(`DESCRIBE SELECT * FROM ${readSource(file)}`));
     }
+    return schemas;
   }
 
-  async discoverExcelFiles(args: any) {
-    try {
-      const { pattern } = args;
-
-      // Use DuckDB's glob function to find matching files
-      const query = `SELECT file FROM glob('${pattern.replace(/'/g, "''")}') ORDER BY file`;
-      const result = await this.executeQuery(query);
+  /**
+   * Compares the columns of every file with the first file's before a multi-file load. Without union_by_name the files
+   * are combined by position, so any difference in names or order misaligns data; with it only type differences remain.
+   * Throws when failOnDrift is set and the files cannot be combined by position, otherwise returns the drift report.
+   */
+  private checkSchemaDrift(
+    schemas: Map<string, any[]>,
+    labels: Map<string, string>,
+    unionByName: boolean,
+    failOnDrift: boolean
+  ): string {
+    if (schemas.size < 2) return '';
+
+    const [[referenceFile, reference], ...others] = [...schemas];
+    const referenceLabel = labels.get(referenceFile) ?? referenceFile;
+    const referenceNames: string[] = reference.map(column => column.column_name);
+    const referenceTypes = new Map<string, string>(reference.map(column => [column.column_name, column.column_type]));
+
+    const lines: string[] = [];
+    let misaligned = 0;
+
+    for (const [file, columns] of others) {
+      const names: string[] = columns.map(column => column.column_name);
+      const missing = referenceNames.filter(name => !names.includes(name));
+      const extra = names.filter(name => !referenceTypes.has(name));
+      const reordered = missing.length === 0 && extra.length === 0 && names.join('\0') !== referenceNames.join('\0');
+      const retyped = columns.filter(column =>
+        referenceTypes.has(column.column_name) && referenceTypes.get(column.column_name) !== column.column_type
+      );
 
-      const files = result.map((row: any) => row.file);
+      const differences: string[] = [];
+      if (missing.length > 0) differences.push(`missing ${missing.join(', ')}`);
+      if (extra.length > 0) differences.push(`extra ${extra.join(', ')}`);
+      if (reordered && !unionByName) differences.push(`column order ${names.join(', ')}`);
+      for (const column of retyped) {
+        differences.push(`${column.column_name} is ${column.column_type} instead of ${referenceTypes.get(column.column_name)}`);
+      }
 
-      // Filter to only Excel files and get additional info
-      const excelFiles = files.filter(file => file.toLowerCase().endsWith('.xlsx'));
-      const nonExcelFiles = files.filter(file => !file.toLowerCase().endsWith('.xlsx'));
+      if (differences.length > 0) {
+        lines.push(`  - ${labels.get(file) ?? file}: ${differences.join('; ')}`);
+      }
+      if (!unionByName && (missing.length > 0 || extra.length > 0 || reordered)) {
+        misaligned++;
+      }
+    }
 
-      // Get additional file info for Excel files
-      const fileInfo = await Promise.all(excelFiles.map(async (filePath: string) => {
-        try {
-          const stats = await fs.stat(filePath);
-          return {
-            path: filePath,
-            size: stats.size,
-            modified: stats.mtime.toISOString(),
-            exists: true
-          };
-        } catch (error) {
-          return {
-            path: filePath,
-            size: 0,
-            modified: null,
-            exists: false,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          };
-        }
-      }));
+    if (lines.length === 0) {
+      return `\n\n✅ All ${schemas.size} files have the same columns`;
+    }
 
-      const totalSize = fileInfo.reduce((sum, info) => sum + (info.exists ? info.size : 0), 0);
-      const existingFiles = fileInfo.filter(info => info.exists);
+    if (misaligned > 0) {
+      if (failOnDrift) {
+        throw new Error(`${misaligned} of ${schemas.size} files have different columns than ${referenceLabel}, so combining them by position would misalign data:\n${lines.join('\n')}\nSet union_by_name: true to match columns by name`);
+      }
+      return `\n\n⚠️ Schema drift: ${misaligned} of ${schemas.size} files have different columns than ${referenceLabel}, and files are combined by column position:\n${lines.join('\n')}\n  Values from these files may be in the wrong columns. Reload with union_by_name: true to match columns by name.`;
+    }
 
-      let response = `Found ${files.length} files matching pattern "${pattern}"\n\n`;
-      response += `Excel files (.xlsx): ${excelFiles.length}\n`;
-      response += `Other files: ${nonExcelFiles.length}\n`;
+    const note = unionByName
+      ? 'Columns are matched by name: missing columns are NULL for that file\'s rows and differing types are converted to a common type.'
+      : `Values are read with the column types of ${referenceLabel}.`;
+    return `\n\n🔀 Column differences compared with ${referenceLabel}:\n${lines.join('\n')}\n  ${note}`;
+  }
 
-      if (excelFiles.length > 0) {
-        response += `Existing Excel files: ${existingFiles.length}\n`;
-        response += `Total Excel file size: ${(totalSize / 1024 / 1024).toFixed(2)} MB\n\n`;
+  /**
+   * Gathers the provenance of each file read by a multi-file load. Files missing from rowCounts contributed no rows;
+   * rowCounts is null for views, which are not scanned.
+   */
+  private async collectFileProvenance(
+    files: string[],
+    sourceFiles: string[],
+    labels: Map<string, string>,
+    rowCounts: Map<string, number> | null,
+    schemas: Map<string, any[]>
+  ): Promise<FileProvenance[]> {
+    const provenance: FileProvenance[] = [];
+
+    for (const file of files) {
+      const label = labels.get(file) ?? file;
+      const columns = schemas.get(file) ?? [];
+
+      // Extracted archive members are as new as the extraction, so report the archive's own modification time
+      const statPath = labels.has(file) ? sourceFiles.find(source => label.startsWith(`${source}/`)) ?? file : file;
+      let modified: Date | null = null;
+      try {
+        modified = (await fs.stat(statPath)).mtime;
+      } catch {
+        // Remote and glob-only sources have no local modification time
       }
 
-      if (nonExcelFiles.length > 0) {
-        response += `\n⚠️  Non-Excel files found (will be ignored by Excel tools):\n`;
-        nonExcelFiles.slice(0, 5).forEach(file => {
-          response += `- ${file}\n`;
-        });
-        if (nonExcelFiles.length > 5) {
-          response += `... and ${nonExcelFiles.length - 5} more\n`;
-        }
-      }
+      provenance.push({
+        file: label,
+        rows: rowCounts ? rowCounts.get(label) ?? rowCounts.get(file) ?? 0 : null,
+        columns: columns.map(column => column.column_name),
+        modified,
+      });
+    }
 
-      if (excelFiles.length > 0) {
-        response += `\n📊 Excel File Details:\n`;
-        fileInfo.forEach(info => {
-          response += `- ${info.path} (${info.exists ? `${(info.size / 1024).toFixed(1)} KB, modified: ${info.modified}` : 'NOT FOUND'})\n`;
-        });
-      } else {
-        response += `\nNo Excel (.xlsx) files found matching the pattern.`;
-      }
+    return provenance;
+  }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: response,
-          },
-        ],
-      };
+  /**
+   * Stores the provenance of a multi-file load in "<table>_provenance", replacing it unless the load was an append,
+   * and returns the per-file breakdown for the load response. Row counts of sampled loads count the sampled rows.
+   */
+  private async recordFileProvenance(tableName: string, provenance: FileProvenance[], append: boolean, sampled: boolean): Promise<string> {
+    const provenanceTable = `${tableName}_provenance`;
+    const literal = (value: string) => `'${value.replace(/'/g, "''")}'`;
+    const timestamp = (date: Date) => `TIMESTAMP '${date.toISOString().replace('T', ' ').replace('Z', '')}'`;
+    const loadedAt = timestamp(new Date());
+
+    await this.executeQuery(`
+      CREATE ${append ? 'TABLE IF NOT EXISTS' : 'OR REPLACE TABLE'} "${provenanceTable}" (
+        file VARCHAR, row_count BIGINT, columns VARCHAR[], file_modified TIMESTAMP, loaded_at TIMESTAMP
+      )
+    `);
+    const values = provenance.map(entry =>
+      `(${literal(entry.file)}, ${entry.rows ?? 'NULL'}, [${entry.columns.map(literal).join(', ')}]::VARCHAR[], ${entry.modified ? timestamp(entry.modified) : 'NULL'}, ${loadedAt})`
+    );
+    await this.executeQuery(`INSERT INTO "${provenanceTable}" VALUES ${values.join(', ')}`);
+
+    const emptyFiles = provenance.filter(entry => entry.rows === 0);
+    const shown = provenance.filter((entry, index) => index < PROVENANCE_PREVIEW_FILES || entry.rows === 0);
+
+    let text = `\n\n📄 Per-file breakdown${sampled ? ' of the sampled rows' : ''} (stored in table "${provenanceTable}"):\n`;
+    text += shown.map(entry => {
+      const rows = entry.rows === null ? 'rows not counted for views' : `${entry.rows.toLocaleString()} rows`;
+      return entry.rows === 0
+        ? `  ⚠️ ${entry.file}: 0 rows, ${entry.columns.length} columns (contributed no rows${sampled ? ' to the sample' : ''})`
+        : `  - ${entry.file}: ${rows}, ${entry.columns.length} columns`;
+    }).join('\n');
+    if (shown.length < provenance.length) {
+      text += `\n  ...and ${provenance.length - shown.length} more files`;
+    }
+    if (emptyFiles.length > 0) {
+      text += `\n\n⚠️ ${emptyFiles.length} of ${provenance.length} files contributed no rows${sampled ? ' to the sample' : ''}`;
+    }
+    return text;
+  }
+
+  private buildReadXlsxOptions(options: { sheet?: string; range?: string; header?: boolean; all_varchar?: boolean }): string[] {
+    const { sheet, range, header = true, all_varchar = false } = options;
+    const params: string[] = [];
+    if (sheet) params.push(`sheet='${sheet.replace(/'/g, "''")}'`);
+    if (range) params.push(`range='${range.replace(/'/g, "''")}'`);
+    params.push(`header=${header}`);
+    if (all_varchar) params.push(`all_varchar=${all_varchar}`);
+    return params;
+  }
+
+  async #ensureExcelExtension(): Promise<void> {
+    try {
+      await this.executeQuery('INSTALL excel');
+      await this.executeQuery('LOAD excel');
+    } catch (error) {
+      console.error('Excel extension already loaded or failed to load:', error);
+    }
+  }
+
+  async #ensureSqliteExtension(): Promise<void> {
+    try {
+      await this.executeQuery('INSTALL sqlite');
+      await this.executeQuery('LOAD sqlite');
     } catch (error) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Excel file discovery failed: ${error instanceof Error ? error.message : String(error)}`
-      );
+      console.error('SQLite extension already loaded or failed to load:', error);
     }
   }
 
-  private async generateAnomalyReport(
+  /**
+   * Remembers which files a table was loaded from; appends extend the existing record.
+   */
+  private recordLoadedTable(
     tableName: string,
-    severityThreshold: string,
-    focusColumns: string[],
-    anomalyTypes: string[]
-  ): Promise<string> {
-    const anomalies: any[] = [];
-    const sevOrder = { low: 1, medium: 2, high: 3, critical: 4 };
-    const minSeverity = sevOrder[severityThreshold as keyof typeof sevOrder] || 2;
+    source: string,
+    files: string[],
+    spec: LoadSpec,
+    append = false,
+    mode: LoadedTable['mode'] = 'table'
+  ) {
+    const existing = append ? this.loadedTables.get(tableName) : undefined;
+    const sample = this.describeSample(spec.args);
+
+    if (existing) {
+      this.loadedTables.set(tableName, {
+        source: `${existing.source}, ${source}`,
+        files: [...new Set([...existing.files, ...files])],
+        mode: existing.mode,
+        loads: [...existing.loads, spec],
+        sample: existing.sample ?? sample,
+      });
+    } else {
+      this.loadedTables.set(tableName, { source, files: [...files], mode, loads: [spec], sample });
+    }
+  }
 
-    // Get table schema for analysis
-    const schema = await this.executeQuery(`DESCRIBE ${tableName}`);
-    const totalRows = (await this.executeQuery(`SELECT COUNT(*) as count FROM ${tableName}`))[0].count;
+  /**
+   * Re-runs a recorded load. Replays never register watchers, so reloading a watched table keeps its single watcher.
+   */
+  private async replayLoad(spec: LoadSpec) {
+    const args = { ...spec.args, watch: false };
+
+    switch (spec.loader) {
+      case 'load_csv':
+        return await this.loadCSV(args);
+      case 'load_multiple_csvs':
+        return await this.loadMultipleCSVs(args);
+      case 'load_excel':
+        return await this.loadExcel(args);
+      case 'load_multiple_excels':
+        return await this.loadMultipleExcels(args);
+      case 'load_workbook':
+        return await this.loadWorkbook(args);
+      case 'load_parquet':
+        return await this.loadParquet(args);
+      case 'load_multiple_parquets':
+        return await this.loadMultipleParquets(args);
+      case 'load_json':
+        return await this.loadJSON(args);
+      case 'load_ofx':
+        return await this.loadOFX(args);
+      case 'load_fixed_width':
+        return await this.loadFixedWidth(args);
+    }
+  }
 
-    let report = `# 🔍 Anomaly Detection Report\n**Table:** ${tableName} (${totalRows.toLocaleString()} rows)\n**Severity Threshold:** ${severityThreshold}\n\n`;
+  /**
+   * Looks up a preset among the built-in and user-defined ones.
+   */
+  private async resolvePreset(presetName: unknown): Promise<TransactionPreset> {
+    if (typeof presetName !== 'string' || presetName.length === 0) {
+      throw new Error('preset must be a non-empty string');
+    }
 
-    // 1. DUPLICATE DETECTION
-    if (anomalyTypes.includes('duplicates')) {
-      const duplicateQueries = await this.checkDuplicates(tableName, schema, focusColumns);
-      for (const dup of duplicateQueries) {
-        if (sevOrder[dup.severity as keyof typeof sevOrder] >= minSeverity) {
-          anomalies.push(dup);
-        }
-      }
+    const presets = await loadPresets();
+    const preset = presets[presetName];
+    if (!preset) {
+      throw new Error(`Unknown preset "${presetName}". Available presets: ${Object.keys(presets).join(', ')} (user presets are read from ${presetsFilePath()})`);
     }
+    return preset;
+  }
 
-    // 2. NULL VALUE ANALYSIS  
-    if (anomalyTypes.includes('nulls')) {
-      const nullAnomalies = await this.checkNullValues(tableName, schema, totalRows, focusColumns);
-      for (const null_anomaly of nullAnomalies) {
-        if (sevOrder[null_anomaly.severity as keyof typeof sevOrder] >= minSeverity) {
-          anomalies.push(null_anomaly);
-        }
-      }
+  // Only parsing options are taken from a preset, so a presets file cannot redirect where data is loaded
+  private presetReadOptions(preset: TransactionPreset): Record<string, unknown> {
+    const allowed = new Set(['delimiter', 'header', ...Object.keys(READ_CSV_OPTION_PROPERTIES)]);
+    return Object.fromEntries(Object.entries(preset.read_options ?? {}).filter(([key]) => allowed.has(key)));
+  }
+
+  /**
+   * Builds the SELECT list that maps an export onto the canonical transactions columns.
+   * Date, name and amount columns must exist; memo and category become NULL when the export lacks them.
+   */
+  private async buildPresetSelect(presetName: string, preset: TransactionPreset, source: string, readOptions: string): Promise<string> {
+    const described = await this.executeQuery(`DESCRIBE SELECT * FROM read_csv(${source}, ${readOptions})`);
+    const columns = new Map<string, string>(described.map((column: any) => [column.column_name.toLowerCase(), column.column_name]));
+
+    const required = [preset.date, preset.name, ...(preset.amount ? [preset.amount] : [preset.debit!, preset.credit!])];
+    const missing = required.filter(column => !columns.has(column.toLowerCase()));
+    if (missing.length > 0) {
+      throw new Error(
+        `Preset "${presetName}" expects columns ${missing.map(column => `"${column}"`).join(', ')}, which the file does not have. Columns found: ${[...columns.values()].join(', ')}`
+      );
     }
 
-    // 3. STATISTICAL OUTLIERS
-    if (anomalyTypes.includes('statistical') || anomalyTypes.includes('outliers')) {
-      const outlierAnomalies = await this.checkStatisticalOutliers(tableName, schema, focusColumns);
-      for (const outlier of outlierAnomalies) {
-        if (sevOrder[outlier.severity as keyof typeof sevOrder] >= minSeverity) {
-          anomalies.push(outlier);
-        }
-      }
+    const column = (name: string) => `"${columns.get(name.toLowerCase())!.replace(/"/g, '""')}"`;
+    const optional = (name: string | undefined) =>
+      name && columns.has(name.toLowerCase()) ? `CAST(${column(name)} AS VARCHAR)` : 'NULL::VARCHAR';
+    // Exports format amounts as numbers or as text such as "$1,234.56"
+    const money = (name: string) =>
+      `TRY_CAST(REPLACE(REPLACE(CAST(${column(name)} AS VARCHAR), '$', ''), ',', '') AS DECIMAL(18, 2))`;
+
+    const dateFormat = preset.read_options?.dateformat;
+    const date = typeof dateFormat === 'string'
+      ? `COALESCE(TRY_CAST(${column(preset.date)} AS DATE), TRY_STRPTIME(CAST(${column(preset.date)} AS VARCHAR), '${dateFormat.replace(/'/g, "''")}')::DATE)`
+      : `TRY_CAST(${column(preset.date)} AS DATE)`;
+
+    let amount: string;
+    if (preset.amount) {
+      amount = preset.amount_sign === 'negate' ? `-${money(preset.amount)}` : money(preset.amount);
+    } else {
+      // Debit and credit columns hold unsigned values (some banks still prefix debits with a minus)
+      amount = `COALESCE(ABS(${money(preset.credit!)}), 0) - COALESCE(ABS(${money(preset.debit!)}), 0)`;
     }
 
-    // 4. PATTERN ANALYSIS
-    if (anomalyTypes.includes('patterns')) {
-      const patternAnomalies = await this.checkPatternAnomalies(tableName, schema, focusColumns);
-      for (const pattern of patternAnomalies) {
-        if (sevOrder[pattern.severity as keyof typeof sevOrder] >= minSeverity) {
-          anomalies.push(pattern);
-        }
-      }
+    return [
+      `${date} AS "Date"`,
+      `CAST(${column(preset.name)} AS VARCHAR) AS "Name"`,
+      `${optional(preset.memo)} AS "Memo"`,
+      `${optional(preset.category)} AS "Category"`,
+      `${amount} AS "Amount"`,
+    ].join(', ');
+  }
+
+  /**
+   * Returns the clause that limits or samples the rows of a load, placed after its read_csv or read_xlsx call.
+   * Reservoir samples keep N rows (or P percent) in memory while streaming the whole source once.
+   */
+  private buildSampleClause(args: any): string {
+    const { limit_rows, sample_rows, sample_percent, sample_seed = 42 } = args;
+
+    const given = [limit_rows, sample_rows, sample_percent].filter(value => value !== undefined);
+    if (given.length > 1) {
+      throw new Error('Use only one of limit_rows, sample_rows and sample_percent');
+    }
+    if (!Number.isInteger(sample_seed) || sample_seed < 0) {
+      throw new Error('sample_seed must be a non-negative integer');
     }
 
-    // 5. BUSINESS LOGIC RULES
-    if (anomalyTypes.includes('business_logic')) {
-      const businessAnomalies = await this.checkBusinessLogicAnomalies(tableName, schema);
-      for (const business of businessAnomalies) {
-        if (sevOrder[business.severity as keyof typeof sevOrder] >= minSeverity) {
-          anomalies.push(business);
-        }
+    if (limit_rows !== undefined) {
+      if (!Number.isInteger(limit_rows) || limit_rows < 1) throw new Error('limit_rows must be a positive integer');
+      return `LIMIT ${limit_rows}`;
+    }
+    if (sample_rows !== undefined) {
+      if (!Number.isInteger(sample_rows) || sample_rows < 1) throw new Error('sample_rows must be a positive integer');
+      return `USING SAMPLE reservoir(${sample_rows} ROWS) REPEATABLE (${sample_seed})`;
+    }
+    if (sample_percent !== undefined) {
+      if (typeof sample_percent !== 'number' || !(sample_percent > 0 && sample_percent <= 100)) {
+        throw new Error('sample_percent must be a number greater than 0 and at most 100');
       }
+      return `USING SAMPLE reservoir(${sample_percent} PERCENT) REPEATABLE (${sample_seed})`;
     }
+    return '';
+  }
 
-    // Sort anomalies by severity
-    anomalies.sort((a, b) => sevOrder[b.severity as keyof typeof sevOrder] - sevOrder[a.severity as keyof typeof sevOrder]);
+  // Describes the sampling options of a load, or null when it kept every row
+  private describeSample(args: any): string | null {
+    const { limit_rows, sample_rows, sample_percent, sample_seed = 42 } = args ?? {};
 
-    // Format report
-    if (anomalies.length === 0) {
-      report += `✅ **No anomalies detected** above ${severityThreshold} severity threshold.\n`;
-    } else {
-      const criticalCount = anomalies.filter(a => a.severity === 'critical').length;
-      const highCount = anomalies.filter(a => a.severity === 'high').length;
-      const mediumCount = anomalies.filter(a => a.severity === 'medium').length;
-      const lowCount = anomalies.filter(a => a.severity === 'low').length;
+    if (limit_rows !== undefined) return `sample of the first ${Number(limit_rows).toLocaleString()} rows`;
+    if (sample_rows !== undefined) return `random sample of ${Number(sample_rows).toLocaleString()} rows (seed ${sample_seed})`;
+    if (sample_percent !== undefined) return `random ${sample_percent}% sample (seed ${sample_seed})`;
+    return null;
+  }
 
-      report += `## 📊 Summary\n`;
-      if (criticalCount > 0) report += `🚨 **Critical:** ${criticalCount} anomalies\n`;
-      if (highCount > 0) report += `⚠️ **High:** ${highCount} anomalies\n`;
-      if (mediumCount > 0) report += `🔶 **Medium:** ${mediumCount} anomalies\n`;
-      if (lowCount > 0) report += `🔵 **Low:** ${lowCount} anomalies\n`;
+  /**
+   * Warns that a report describes a sampled table rather than all of its source data.
+   */
+  private sampleNote(tableName: string): string {
+    const sample = this.loadedTables.get(tableName)?.sample;
+    return sample ? `\n\n⚠️ Approximate: table "${tableName}" holds a ${sample}, not all of the source data` : '';
+  }
 
-      report += `\n## 🔍 Detailed Findings\n\n`;
+  /**
+   * Rejects watch options that are invalid or cannot be replayed, before anything is loaded.
+   */
+  private validateWatchOptions(args: any) {
+    const { watch = false, watch_mode = 'reload', watch_interval_seconds = 30, append_to_table, materialize = true } = args;
 
-      for (const anomaly of anomalies) {
-        const icon = anomaly.severity === 'critical' ? '🚨' :
-          anomaly.severity === 'high' ? '⚠️' :
-            anomaly.severity === 'medium' ? '🔶' : '🔵';
+    if (typeof watch !== 'boolean') throw new Error('watch must be a boolean');
+    if (!watch) return;
 
-        report += `### ${icon} ${anomaly.title}\n`;
-        report += `**Severity:** ${anomaly.severity.toUpperCase()}\n`;
-        report += `**Impact:** ${anomaly.impact}\n`;
-        if (anomaly.affected_records) report += `**Affected Records:** ${anomaly.affected_records.toLocaleString()}\n`;
-        if (anomaly.percentage) report += `**Percentage:** ${anomaly.percentage}%\n`;
-        report += `**Details:** ${anomaly.description}\n`;
-        if (anomaly.examples) {
-          report += `**Examples:**\n\`\`\`\n${anomaly.examples}\`\`\`\n`;
-        }
-        if (anomaly.recommendation) report += `**Recommendation:** ${anomaly.recommendation}\n`;
-        report += '\n---\n\n';
-      }
+    if (!['reload', 'append'].includes(watch_mode)) {
+      throw new Error(`Unsupported watch_mode "${watch_mode}". Use reload or append.`);
+    }
+    if (!Number.isInteger(watch_interval_seconds) || watch_interval_seconds < 1) {
+      throw new Error('watch_interval_seconds must be a positive integer');
+    }
+    if (append_to_table) {
+      throw new Error('watch cannot be combined with append_to_table; use watch_mode: "append" instead');
     }
+    if (!materialize) {
+      throw new Error('watch is not needed with materialize: false, since views always read the current files');
+    }
+  }
 
-    return report;
+  /**
+   * Starts (or replaces) the watcher for a table and returns a note for the load response.
+   * Each check compares file modification times and sizes with the previous check and replays the load when they differ.
+   */
+  private async watchTable(tableName: string, loader: TableWatcher['loader'], args: any): Promise<string> {
+    const { watch_mode = 'reload', watch_interval_seconds = 30 } = args;
+    const source: string | string[] = loader === 'load_multiple_csvs' ? args.pattern_or_files : args.file_path;
+
+    const existing = this.watchers.get(tableName);
+    if (existing) {
+      clearInterval(existing.timer);
+    }
+
+    const timer = setInterval(() => {
+      void this.checkWatchedTable(tableName);
+    }, watch_interval_seconds * 1000);
+    // Watching must never keep the process alive on its own
+    timer.unref();
+
+    this.watchers.set(tableName, {
+      loader,
+      // Replays target the same table and must not register watchers of their own
+      args: { ...args, table_name: tableName, watch: false },
+      source,
+      mode: watch_mode,
+      intervalSeconds: watch_interval_seconds,
+      snapshot: await this.snapshotSourceFiles(source),
+      timer,
+      busy: false,
+      lastChange: null,
+    });
+
+    return `\n\n👀 Watching ${Array.isArray(source) ? source.join(', ') : source} every ${watch_interval_seconds}s (${watch_mode} on change)`;
   }
 
-  private async checkDuplicates(tableName: string, schema: any[], focusColumns: string[]): Promise<any[]> {
-    const anomalies: any[] = [];
-    const columnsToCheck = focusColumns.length > 0 ? focusColumns : schema.map(col => col.column_name);
+  private describeWatcher(tableName: string): string | undefined {
+    const watcher = this.watchers.get(tableName);
+    if (!watcher) return undefined;
 
-    for (const column of columnsToCheck.slice(0, 8)) { // Check more columns
-      const duplicateQuery = `
-        SELECT ${column}, COUNT(*) as duplicate_count
-        FROM ${tableName} 
-        WHERE ${column} IS NOT NULL
-        GROUP BY ${column}
-        HAVING COUNT(*) > 1
-        ORDER BY duplicate_count DESC
-        LIMIT 10
-      `;
+    return `${watcher.mode} every ${watcher.intervalSeconds}s${watcher.lastChange ? `, last change: ${watcher.lastChange}` : ''}`;
+  }
 
+  /**
+   * Records modification time and size for every file the source currently matches.
+   */
+  private async snapshotSourceFiles(source: string | string[]): Promise<Map<string, string>> {
+    let files: string[];
+
+    if (Array.isArray(source)) {
+      files = source;
+    } else if (source.includes('*') || source.includes('?') || source.includes('[')) {
+      const globResult = await this.executeQuery(`SELECT file FROM glob('${source.replace(/'/g, "''")}')`);
+      files = globResult.map((row: any) => row.file);
+    } else {
+      files = [source];
+    }
+
+    const snapshot = new Map<string, string>();
+    for (const filePath of files) {
       try {
-        const duplicates = await this.executeQuery(duplicateQuery);
+        const stats = await fs.stat(filePath);
+        snapshot.set(filePath, `${stats.mtimeMs}:${stats.size}`);
+      } catch {
+        // Files that disappeared are reported as removed by the next comparison
+      }
+    }
+    return snapshot;
+  }
 
-        if (duplicates.length > 0) {
-          const totalDuplicateRecords = duplicates.reduce((sum, dup) => sum + Number(dup.duplicate_count || 0), 0);
-          const maxDuplicates = Math.max(...duplicates.map(d => Number(d.duplicate_count || 0)));
+  /**
+   * One polling cycle of a watcher: replays the load when files were added, changed or removed
+   * and notifies the client with what changed.
+   */
+  private async checkWatchedTable(tableName: string) {
+    const watcher = this.watchers.get(tableName);
+    if (!watcher || watcher.busy) return;
 
-          let severity = 'low';
-          if (maxDuplicates > 50000) severity = 'critical'; // Lowered from 1000 to catch tracking number issue
-          else if (maxDuplicates > 1000) severity = 'high';
-          else if (maxDuplicates > 10) severity = 'medium';
-          else if (maxDuplicates > 1) severity = 'low'; // Report any duplicates
+    watcher.busy = true;
+    try {
+      const snapshot = await this.snapshotSourceFiles(watcher.source);
+      const added = [...snapshot.keys()].filter(file => !watcher.snapshot.has(file));
+      const removed = [...watcher.snapshot.keys()].filter(file => !snapshot.has(file));
+      const changed = [...snapshot.keys()].filter(file => watcher.snapshot.has(file) && watcher.snapshot.get(file) !== snapshot.get(file));
+
+      if (added.length === 0 && removed.length === 0 && changed.length === 0) return;
+
+      // Remember the new state up front so a failing load is reported once rather than on every check
+      watcher.snapshot = snapshot;
+
+      const changes = [
+        added.length > 0 ? `${added.length} new (${added.map(file => path.basename(file)).join(', ')})` : '',
+        changed.length > 0 ? `${changed.length} changed (${changed.map(file => path.basename(file)).join(', ')})` : '',
+        removed.length > 0 ? `${removed.length} removed (${removed.map(file => path.basename(file)).join(', ')})` : '',
+      ].filter(Boolean).join(', ');
+
+      if (snapshot.size === 0) {
+        watcher.lastChange = `${changes}; no files left to load`;
+        await this.notifyClient('warning', `⚠️ Table "${tableName}" was not refreshed: ${watcher.lastChange}`);
+        return;
+      }
 
-          const examples = duplicates.slice(0, 3).map(d =>
-            `${Object.values(d)[0]}: ${d.duplicate_count} occurrences`
-          ).join('\n');
+      // Appending is only safe when every previously loaded file is untouched
+      const appendOnly = watcher.mode === 'append' && watcher.loader !== 'load_excel' && changed.length === 0 && removed.length === 0;
+      const loadArgs = appendOnly ? { ...watcher.args, append_to_table: tableName, skip_loaded_files: true } : watcher.args;
 
-          anomalies.push({
-            type: 'duplicate',
-            severity,
-            title: `Duplicate Values in ${column}`,
-            impact: 'Data integrity, potential processing errors',
-            affected_records: totalDuplicateRecords,
-            description: `Found ${duplicates.length} unique values with duplicates, max ${maxDuplicates} occurrences`,
-            examples,
-            recommendation: maxDuplicates > 1000 ? 'URGENT: Investigate data corruption, tracking number system failure' : 'Review business logic for duplicates'
-          });
-        }
-      } catch (error) {
-        console.error(`Failed to analyze duplicates for column ${column}:`, error);
-      }
+      const before = await this.executeQuery(`SELECT COUNT(*) as row_count FROM "${tableName}"`);
+
+      await this.replayLoad({ loader: watcher.loader, args: loadArgs });
+
+      const after = await this.executeQuery(`SELECT COUNT(*) as row_count FROM "${tableName}"`);
+      watcher.lastChange = `${changes} at ${new Date().toISOString()}`;
+
+      await this.notifyClient(
+        'info',
+        `🔄 Table "${tableName}" ${appendOnly ? 'appended' : 'reloaded'}: ${changes}. Rows: ${Number(before[0]?.row_count || 0)} → ${Number(after[0]?.row_count || 0)}`
+      );
+    } catch (error) {
+      watcher.lastChange = `refresh failed at ${new Date().toISOString()}`;
+      await this.notifyClient('error', `❌ Refreshing table "${tableName}" failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      watcher.busy = false;
     }
+  }
 
-    return anomalies;
+  /**
+   * Sends an MCP logging notification, falling back to stderr when no client is connected.
+   */
+  private async notifyClient(level: 'info' | 'warning' | 'error', message: string) {
+    console.error(message);
+    try {
+      await this.server.sendLoggingMessage({ level, logger: 'quack-mcp', data: message });
+    } catch {
+      // Not connected to a client; the stderr log above is all we can do
+    }
   }
 
-  private async checkNullValues(tableName: string, schema: any[], totalRows: number, focusColumns: string[]): Promise<any[]> {
-    const anomalies: any[] = [];
-    const columnsToCheck = focusColumns.length > 0 ? focusColumns : schema.map(col => col.column_name);
+  /**
+   * Rejects options that need the data copied into DuckDB when a loader is asked for a view.
+   */
+  private validateMaterializeOption(args: any, files: string[]) {
+    const { materialize = true, store_rejects, append_to_table } = args;
 
-    for (const column of columnsToCheck) {
-      const nullQuery = `
-        SELECT 
-          COUNT(*) - COUNT(${column}) as null_count,
-          ROUND((COUNT(*) - COUNT(${column})) * 100.0 / COUNT(*), 2) as null_percentage
-        FROM ${tableName}
-      `;
+    if (typeof materialize !== 'boolean') throw new Error('materialize must be a boolean');
+    if (materialize) return;
 
-      try {
-        const result = await this.executeQuery(nullQuery);
-        const nullCount = result[0]?.null_count || 0;
-        const nullPercentage = result[0]?.null_percentage || 0;
+    if (store_rejects) {
+      throw new Error('store_rejects requires materialize: true');
+    }
+    if (append_to_table) {
+      throw new Error('append_to_table requires materialize: true');
+    }
+    if (this.describeSample(args)) {
+      throw new Error('limit_rows, sample_rows and sample_percent require materialize: true');
+    }
+    if (files.some(file => file.toLowerCase().endsWith('.zip'))) {
+      throw new Error('zip archives require materialize: true, since their extracted members are removed after loading');
+    }
+  }
 
-        if (nullCount > 0) {
-          let severity = 'low';
-          if (nullPercentage > 50) severity = 'critical';
-          else if (nullPercentage > 25) severity = 'high';
-          else if (nullPercentage > 10) severity = 'medium';
+  /**
+   * Picks the object a load creates ("TABLE" or "VIEW"). CREATE OR REPLACE cannot swap one kind for
+   * the other, so an existing object of the other kind under the same name is dropped first.
+   */
+  private async prepareRelation(name: string, materialize: boolean): Promise<'TABLE' | 'VIEW'> {
+    const escapedName = name.replace(/'/g, "''");
+    const existing = materialize
+      ? await this.executeQuery(
+        `SELECT 1 FROM duckdb_views() WHERE view_name = '${escapedName}' AND database_name = current_database() AND NOT internal AND NOT temporary`
+      )
+      : await this.executeQuery(
+        `SELECT 1 FROM duckdb_tables() WHERE table_name = '${escapedName}' AND database_name = current_database() AND NOT temporary`
+      );
 
-          if (severity !== 'low' || nullCount > 100) {
-            anomalies.push({
-              type: 'null_values',
-              severity,
-              title: `High Null Rate in ${column.column_name}`,
-              impact: 'Data completeness, analysis accuracy',
-              affected_records: nullCount,
-              percentage: nullPercentage,
-              description: `${nullCount} null values (${nullPercentage}% of total)`,
-              recommendation: nullPercentage > 25 ? 'Investigate data source, implement validation' : 'Consider default values or imputation'
-            });
-          }
-        }
-      } catch (error) {
-        console.error(`Failed to analyze duplicates for column ${column}:`, error);
-      }
+    if (existing.length > 0) {
+      await this.executeQuery(`DROP ${materialize ? 'VIEW' : 'TABLE'} "${name}"`);
     }
 
-    return anomalies;
+    return materialize ? 'TABLE' : 'VIEW';
   }
 
-  private async checkStatisticalOutliers(tableName: string, schema: any[], focusColumns: string[]): Promise<any[]> {
-    const anomalies: any[] = [];
-    const numericColumns = schema.filter(col =>
-      ['DOUBLE', 'BIGINT', 'INTEGER', 'DECIMAL'].includes(col.column_type.toUpperCase())
-    );
+  /**
+   * Resolves append_to_table for a loader. With skip_loaded_files, files already recorded for the
+   * target are set aside. Returns null when the loader should replace its table as usual.
+   */
+  private async prepareAppend(appendTo: string | undefined, files: string[], skipLoadedFiles: boolean): Promise<AppendPlan | null> {
+    if (!appendTo) {
+      if (skipLoadedFiles) {
+        throw new Error('skip_loaded_files requires append_to_table');
+      }
+      return null;
+    }
 
-    const columnsToCheck = focusColumns.length > 0
-      ? numericColumns.filter(col => focusColumns.includes(col.column_name))
-      : numericColumns;
+    // Sanitized like table_name, since the name ends up in quoted identifiers
+    const appendToTable = appendTo.replace(/[^a-zA-Z0-9_]/g, '_');
 
-    for (const column of columnsToCheck.slice(0, 5)) {
-      const statsQuery = `
-        SELECT 
-          AVG(${column.column_name}) as mean,
-          MIN(${column.column_name}) as min_val,
-          MAX(${column.column_name}) as max_val,
-          STDDEV(${column.column_name}) as stddev,
-          COUNT(*) as total_count
-        FROM ${tableName} 
-        WHERE ${column.column_name} IS NOT NULL
-      `;
+    if (this.loadedTables.get(appendToTable)?.mode === 'view') {
+      throw new Error(`Cannot append to "${appendToTable}": it is a view over its source files (materialize: false). Load it with materialize: true first.`);
+    }
 
-      try {
-        const stats = await this.executeQuery(statsQuery);
-        const { mean, min_val, max_val, stddev, total_count } = stats[0] || {};
+    const exists = await this.executeQuery(
+      `SELECT 1 FROM duckdb_tables() WHERE table_name = '${appendToTable.replace(/'/g, "''")}' AND database_name = current_database() AND NOT temporary`
+    );
+    if (exists.length === 0) {
+      throw new Error(`Cannot append to "${appendToTable}": table does not exist. Load it first without append_to_table.`);
+    }
 
-        if (stddev && stddev > 0) {
-          let outlierCount = 0;
-          let outlierQuery = '';
-          let method = '';
+    const loadedFiles = new Set((this.loadedTables.get(appendToTable)?.files || []).map(file => path.resolve(file)));
+    const skippedFiles = skipLoadedFiles ? files.filter(file => loadedFiles.has(path.resolve(file))) : [];
 
-          // Use IQR method for small datasets (< 30 rows), 3-sigma for larger ones
-          if (Number(total_count) < 30) {
-            // Use IQR method: Q1 - 1.5*IQR and Q3 + 1.5*IQR
-            const iqrQuery = `
-              SELECT 
-                percentile_cont(0.25) WITHIN GROUP (ORDER BY ${column.column_name}) as q1,
-                percentile_cont(0.75) WITHIN GROUP (ORDER BY ${column.column_name}) as q3
-              FROM ${tableName}
-              WHERE ${column.column_name} IS NOT NULL
-            `;
-            const iqrResult = await this.executeQuery(iqrQuery);
-            const q1 = Number(iqrResult[0]?.q1 || 0);
-            const q3 = Number(iqrResult[0]?.q3 || 0);
-            const iqr = q3 - q1;
-            const lowerBound = q1 - 1.5 * iqr;
-            const upperBound = q3 + 1.5 * iqr;
+    return {
+      target: appendToTable,
+      // The __quack_ prefix keeps the staging table clear of the user's own tables
+      stagingTable: `__quack_append_${appendToTable}`,
+      pendingFiles: files.filter(file => !skippedFiles.includes(file)),
+      skippedFiles,
+    };
+  }
 
-            outlierQuery = `
-              SELECT COUNT(*) as outlier_count
-              FROM ${tableName}
-              WHERE ${column.column_name} IS NOT NULL 
-                AND (${column.column_name} < ${lowerBound} OR ${column.column_name} > ${upperBound})
-            `;
-            method = `IQR (Q1=${Math.round(q1 * 100) / 100}, Q3=${Math.round(q3 * 100) / 100})`;
-          } else {
-            // Use 3-sigma method for larger datasets
-            outlierQuery = `
-              SELECT COUNT(*) as outlier_count
-              FROM ${tableName}
-              WHERE ${column.column_name} IS NOT NULL 
-                AND (${column.column_name} > ${mean + 3 * stddev} OR ${column.column_name} < ${mean - 3 * stddev})
-            `;
-            method = `3σ (mean: ${Math.round(mean * 100) / 100}, σ: ${Math.round(stddev * 100) / 100})`;
-          }
+  private nothingToAppend(plan: AppendPlan) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `All ${plan.skippedFiles.length} files are already loaded into table "${plan.target}"; nothing was appended\n\nSkipped files: ${plan.skippedFiles.join(', ')}`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Inserts the staged rows into the target table by column name and drops the staging table.
+   * New columns are added to the target, columns the new data lacks are left NULL, and columns whose
+   * type differs are cast to the target type with TRY_CAST (values that do not fit become NULL).
+   */
+  private async appendStagedRows(plan: AppendPlan, rowCount: number): Promise<string> {
+    const quote = (name: string) => `"${name.replace(/"/g, '""')}"`;
+    const lines: string[] = [];
+
+    try {
+      const targetColumns = await this.executeQuery(`DESCRIBE "${plan.target}"`);
+      const stagedColumns = await this.executeQuery(`DESCRIBE "${plan.stagingTable}"`);
+      const targetTypes = new Map<string, string>(targetColumns.map(column => [column.column_name, column.column_type]));
+      const stagedNames = new Set(stagedColumns.map(column => column.column_name));
+
+      const addedColumns = stagedColumns.filter(column => !targetTypes.has(column.column_name));
+      const missingColumns = targetColumns.filter(column => !stagedNames.has(column.column_name));
+      const conflicts = stagedColumns.filter(column =>
+        targetTypes.has(column.column_name) && targetTypes.get(column.column_name) !== column.column_type
+      );
 
-          const outlierResult = await this.executeQuery(outlierQuery);
-          outlierCount = Number(outlierResult[0]?.outlier_count || 0);
-          const outlierPercentage = (outlierCount / Number(total_count)) * 100;
+      // Count the values each conflicting column will lose before TRY_CAST turns them into NULL
+      let lostValues: Record<string, any> = {};
+      if (conflicts.length > 0) {
+        const counts = conflicts.map((column, index) => {
+          const name = quote(column.column_name);
+          return `COUNT(*) FILTER (WHERE ${name} IS NOT NULL AND TRY_CAST(${name} AS ${targetTypes.get(column.column_name)}) IS NULL) AS c${index}`;
+        });
+        lostValues = (await this.executeQuery(`SELECT ${counts.join(', ')} FROM "${plan.stagingTable}"`))[0] || {};
+      }
 
-          if (outlierCount > 0) {
-            let severity = 'low';
-            if (outlierPercentage > 5) severity = 'high';
-            else if (outlierPercentage > 1) severity = 'medium';
+      for (const column of addedColumns) {
+        await this.executeQuery(`ALTER TABLE "${plan.target}" ADD COLUMN ${quote(column.column_name)} ${column.column_type}`);
+      }
 
-            // Get examples of outliers - reuse the same query logic
-            const exampleQuery = outlierQuery.replace('COUNT(*) as outlier_count', `${column.column_name}`).replace('SELECT', 'SELECT') + ' ORDER BY ABS(' + column.column_name + ' - ' + mean + ') DESC LIMIT 5';
+      const columnList = stagedColumns.map(column => quote(column.column_name)).join(', ');
+      const selectList = stagedColumns.map(column => conflicts.includes(column)
+        ? `TRY_CAST(${quote(column.column_name)} AS ${targetTypes.get(column.column_name)})`
+        : quote(column.column_name)
+      ).join(', ');
+      await this.executeQuery(`INSERT INTO "${plan.target}" (${columnList}) SELECT ${selectList} FROM "${plan.stagingTable}"`);
 
-            const examples = await this.executeQuery(exampleQuery);
-            const exampleText = examples.map(e => `${e[column.column_name]}`).join(', ');
+      const totalResult = await this.executeQuery(`SELECT COUNT(*) as row_count FROM "${plan.target}"`);
+      lines.push(`📥 Appended ${rowCount} rows to existing table "${plan.target}" (now ${Number(totalResult[0]?.row_count || 0)} rows)`);
 
-            anomalies.push({
-              type: 'statistical_outlier',
-              severity,
-              title: `Statistical Outliers in ${column.column_name}`,
-              impact: 'Potential data quality issues, skewed analysis',
-              affected_records: outlierCount,
-              percentage: Math.round(outlierPercentage * 100) / 100,
-              description: `${outlierCount} values identified using ${method}`,
-              examples: `Range: ${min_val} to ${max_val}\nOutlier examples: ${exampleText}`,
-              recommendation: 'Investigate extreme values, consider data validation rules'
-            });
-          }
-        }
-      } catch (error) {
-        console.error(`Failed to analyze duplicates for column ${column}:`, error);
+      if (plan.skippedFiles.length > 0) {
+        lines.push(`⏭️ Skipped ${plan.skippedFiles.length} already loaded files: ${plan.skippedFiles.join(', ')}`);
+      }
+      if (addedColumns.length > 0) {
+        lines.push(`➕ Added columns: ${addedColumns.map(column => `${column.column_name} (${column.column_type})`).join(', ')}`);
+      }
+      if (missingColumns.length > 0) {
+        lines.push(`➖ Missing columns (NULL for appended rows): ${missingColumns.map(column => column.column_name).join(', ')}`);
+      }
+      for (const [index, column] of conflicts.entries()) {
+        const lost = Number(lostValues[`c${index}`] || 0);
+        lines.push(`⚠️ Type conflict: ${column.column_name} is ${column.column_type} in the new data but ${targetTypes.get(column.column_name)} in the table; values were cast to ${targetTypes.get(column.column_name)}${lost > 0 ? ` (${lost} could not be converted and were set to NULL)` : ''}`);
       }
+      if (addedColumns.length === 0 && missingColumns.length === 0 && conflicts.length === 0) {
+        lines.push('✅ Columns match the existing table');
+      }
+    } finally {
+      await this.executeQuery(`DROP TABLE IF EXISTS "${plan.stagingTable}"`);
     }
 
-    return anomalies;
+    return `\n\n${lines.join('\n')}`;
   }
 
-  private async checkPatternAnomalies(tableName: string, schema: any[], focusColumns: string[]): Promise<any[]> {
-    const anomalies: any[] = [];
+  /**
+   * Collects the key=value directory segments of each file, counting files per distinct value.
+   */
+  private collectHivePartitions(files: string[]): Map<string, Map<string, number>> {
+    const partitions = new Map<string, Map<string, number>>();
+
+    for (const filePath of files) {
+      const directories = filePath.split(/[\\/]/).slice(0, -1);
+      for (const segment of directories) {
+        const match = segment.match(/^([^=]+)=(.*)$/);
+        if (!match) continue;
+
+        const values = partitions.get(match[1]) || new Map<string, number>();
+        values.set(match[2], (values.get(match[2]) || 0) + 1);
+        partitions.set(match[1], values);
+      }
+    }
 
-    // Check for suspicious patterns in string columns
-    const stringColumns = schema.filter(col =>
-      col.column_type.toUpperCase().includes('VARCHAR') || col.column_type.toUpperCase().includes('TEXT')
-    );
+    return partitions;
+  }
 
-    const columnsToCheck = focusColumns.length > 0
-      ? stringColumns.filter(col => focusColumns.includes(col.column_name))
-      : stringColumns.slice(0, 3); // Limit to prevent excessive queries
+  private summarizeHivePartitions(files: string[]): string {
+    const partitions = this.collectHivePartitions(files);
+    if (partitions.size === 0) return '';
 
-    for (const column of columnsToCheck) {
-      // Check for unusual length patterns
-      const lengthQuery = `
-        SELECT 
-          LENGTH(${column.column_name}) as str_length,
-          COUNT(*) as count
-        FROM ${tableName}
-        WHERE ${column.column_name} IS NOT NULL
-        GROUP BY LENGTH(${column.column_name})
-        ORDER BY count DESC
-        LIMIT 20
-      `;
+    const lines = [...partitions].map(([key, values]) => {
+      const counts = [...values]
+        .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+        .map(([value, count]) => `${value}: ${count} file${count === 1 ? '' : 's'}`);
+      return `- ${key}: ${values.size} distinct value${values.size === 1 ? '' : 's'} (${counts.slice(0, 10).join(', ')}${counts.length > 10 ? ', ...' : ''})`;
+    });
 
-      try {
-        const lengthResults = await this.executeQuery(lengthQuery);
+    return `\n\nHive partitions:\n${lines.join('\n')}\n\nLoad with hive_partitioning: true to turn these keys into columns`;
+  }
 
-        // Look for extremely short or long values
-        const extremeLengths = lengthResults.filter(r => r.str_length > 200 || r.str_length < 1);
-        if (extremeLengths.length > 0) {
-          const affectedCount = extremeLengths.reduce((sum, r) => sum + r.count, 0);
+  /**
+   * Lists the partition keys found in the file paths together with the column types DuckDB gave them.
+   */
+  private async describePartitionColumns(tableName: string, files: string[]): Promise<string> {
+    const keys = [...this.collectHivePartitions(files).keys()];
+    if (keys.length === 0) return '';
+
+    const schema = await this.executeQuery(`DESCRIBE "${tableName}"`);
+    const columns = keys.map(key => {
+      const column = schema.find(col => col.column_name === key);
+      return column ? `${key} (${column.column_type})` : key;
+    });
 
-          anomalies.push({
-            type: 'length_pattern',
-            severity: affectedCount > 100 ? 'medium' : 'low',
-            title: `Unusual Length Patterns in ${column.column_name}`,
-            impact: 'Potential data truncation or corruption',
-            affected_records: affectedCount,
-            description: `Found values with extreme lengths`,
-            examples: extremeLengths.map(r => `Length ${r.str_length}: ${r.count} records`).join('\n'),
-            recommendation: 'Review data input validation and field constraints'
-          });
-        }
-      } catch (error) {
-        console.error(`Failed to analyze length patterns for column ${column.column_name}:`, error);
-      }
+    return `\n\nHive partition columns: ${columns.join(', ')}`;
+  }
+
+  /**
+   * Reports how a file is compressed, or null for plain files. Uncompressed sizes come from the
+   * gzip trailer (last member only, modulo 4 GB), the zstd frame header (often omitted by streaming
+   * writers) or the zip central directory.
+   */
+  private async describeCompression(filePath: string): Promise<CompressionInfo | null> {
+    const lowerPath = filePath.toLowerCase();
+
+    if (lowerPath.endsWith('.zip')) {
+      const { size } = await fs.stat(filePath);
+      const members = (await readZipEntries(filePath)).filter(entry => !entry.isDirectory);
+      return {
+        compression: 'zip',
+        compressedSize: size,
+        uncompressedSize: members.reduce((sum, entry) => sum + entry.uncompressedSize, 0),
+        members,
+      };
     }
 
-    return anomalies;
+    if (!lowerPath.endsWith('.gz') && !lowerPath.endsWith('.zst')) {
+      return null;
+    }
+
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const { size } = await handle.stat();
+
+      if (lowerPath.endsWith('.gz')) {
+        // The ISIZE trailer holds the uncompressed length of the last gzip member
+        const trailer = Buffer.alloc(4);
+        await handle.read(trailer, 0, 4, Math.max(size - 4, 0));
+        return { compression: 'gzip', compressedSize: size, uncompressedSize: size >= 18 ? trailer.readUInt32LE(0) : null, members: [] };
+      }
+
+      // Magic number, frame header descriptor, window descriptor, dictionary id and content size fit in 18 bytes
+      const header = Buffer.alloc(18);
+      const { bytesRead } = await handle.read(header, 0, 18, 0);
+      let uncompressedSize: number | null = null;
+
+      if (bytesRead >= 6 && header.readUInt32LE(0) === 0xfd2fb528) {
+        const descriptor = header[4];
+        const singleSegment = (descriptor >> 5) & 1;
+        const sizeBytes = [singleSegment ? 1 : 0, 2, 4, 8][descriptor >> 6];
+        const offset = 5 + (singleSegment ? 0 : 1) + [0, 1, 2, 4][descriptor & 3];
+
+        if (sizeBytes === 1) uncompressedSize = header.readUInt8(offset);
+        if (sizeBytes === 2) uncompressedSize = header.readUInt16LE(offset) + 256;
+        if (sizeBytes === 4) uncompressedSize = header.readUInt32LE(offset);
+        if (sizeBytes === 8) uncompressedSize = Number(header.readBigUInt64LE(offset));
+      }
+
+      return { compression: 'zstd', compressedSize: size, uncompressedSize, members: [] };
+    } finally {
+      await handle.close();
+    }
   }
 
-  private async checkBusinessLogicAnomalies(tableName: string, schema: any[]): Promise<any[]> {
-    const anomalies: any[] = [];
+  private formatCompression(info: CompressionInfo): string {
+    const uncompressed = info.uncompressedSize === null ? 'unknown size' : this.formatBytes(info.uncompressedSize);
+    const kind = info.compression === 'zip'
+      ? `zip archive, ${info.members.length} member${info.members.length === 1 ? '' : 's'}`
+      : info.compression;
+    return `${kind}: ${this.formatBytes(info.compressedSize)} compressed → ${uncompressed} uncompressed`;
+  }
 
-    // Generic business logic checks
-    try {
-      // Check for zero/negative values in amount columns
-      const amountColumns = schema.filter(col =>
-        col.column_name.toLowerCase().includes('amount') ||
-        col.column_name.toLowerCase().includes('charge') ||
-        col.column_name.toLowerCase().includes('price')
-      );
+  private formatBytes(bytes: number): string {
+    return bytes >= 1024 * 1024
+      ? `${(bytes / 1024 / 1024).toFixed(2)} MB`
+      : `${(bytes / 1024).toFixed(1)} KB`;
+  }
 
-      for (const column of amountColumns) {
-        const negativeQuery = `
-          SELECT COUNT(*) as negative_count
-          FROM ${tableName}
-          WHERE ${column.column_name} < 0
-        `;
+  /**
+   * Builds the "Compression" section of a load response; empty when every input was a plain file.
+   */
+  private async summarizeCompression(files: string[]): Promise<string> {
+    const lines: string[] = [];
 
-        const zeroQuery = `
-          SELECT COUNT(*) as zero_count  
-          FROM ${tableName}
-          WHERE ${column.column_name} = 0
-        `;
+    for (const filePath of files) {
+      const info = await this.describeCompression(filePath);
+      if (info) {
+        lines.push(`- ${path.basename(filePath)} (${this.formatCompression(info)})`);
+      }
+    }
 
-        const [negativeResult, zeroResult] = await Promise.all([
-          this.executeQuery(negativeQuery),
-          this.executeQuery(zeroQuery)
-        ]);
+    return lines.length > 0 ? `\n\nCompression:\n${lines.join('\n')}` : '';
+  }
 
-        const _negativeCount = negativeResult[0]?.negative_count || 0;
-        const zeroCount = zeroResult[0]?.zero_count || 0;
+  /**
+   * Replaces zip archives in a file list with their extracted members so read_csv/read_json can scan them.
+   * Members are matched against memberPattern when given, otherwise by extension. Plain and .gz/.zst files
+   * pass through untouched. The caller removes tempDir once the data has been loaded.
+   */
+  private async extractArchiveMembers(
+    files: string[],
+    memberPattern: string | undefined,
+    extensions: string[]
+  ): Promise<{ files: string[]; tempDir: string | null; labels: Map<string, string> }> {
+    const resolvedFiles: string[] = [];
+    const labels = new Map<string, string>();
+    let tempDir: string | null = null;
 
-        if (zeroCount > 50) {
-          anomalies.push({
-            type: 'business_logic',
-            severity: zeroCount > 500 ? 'high' : 'medium',
-            title: `Excessive Zero Values in ${column.column_name}`,
-            impact: 'Revenue loss, processing errors',
-            affected_records: zeroCount,
-            description: `${zeroCount} records with zero charges - potential pricing or billing errors`,
-            recommendation: 'Review billing logic and pricing rules'
-          });
+    try {
+      for (const filePath of files) {
+        if (!filePath.toLowerCase().endsWith('.zip')) {
+          resolvedFiles.push(filePath);
+          continue;
         }
-      }
 
-      // Check for date consistency
-      const dateColumns = schema.filter(col =>
-        col.column_type.toUpperCase().includes('DATE') || col.column_type.toUpperCase().includes('TIMESTAMP')
-      );
+        const matcher = memberPattern ? this.wildcardMatcher(memberPattern) : null;
+        const members = (await readZipEntries(filePath)).filter(entry => {
+          if (entry.isDirectory || entry.name.startsWith('__MACOSX/')) return false;
+          if (matcher) return matcher.test(entry.name);
 
-      if (dateColumns.length >= 2) {
-        // Check for impossible date sequences (e.g., end before start)
-        const dateColumn1 = dateColumns[0].column_name;
-        const dateColumn2 = dateColumns[1].column_name;
+          const memberName = entry.name.toLowerCase().replace(/\.(gz|zst)$/, '');
+          return extensions.includes(path.extname(memberName));
+        });
 
-        const dateOrderQuery = `
-          SELECT COUNT(*) as invalid_order_count
-          FROM ${tableName}
-          WHERE ${dateColumn1} IS NOT NULL AND ${dateColumn2} IS NOT NULL
-            AND ${dateColumn1} > ${dateColumn2}
-        `;
+        if (members.length === 0) {
+          throw new Error(memberPattern
+            ? `No members matching "${memberPattern}" in archive ${filePath}`
+            : `No ${extensions.join('/')} members in archive ${filePath}`);
+        }
 
-        const invalidOrderResult = await this.executeQuery(dateOrderQuery);
-        const invalidOrderCount = invalidOrderResult[0]?.invalid_order_count || 0;
+        tempDir ??= await fs.mkdtemp(path.join(os.tmpdir(), 'quack-mcp-archive-'));
 
-        if (invalidOrderCount > 0) {
-          anomalies.push({
-            type: 'business_logic',
-            severity: invalidOrderCount > 100 ? 'high' : 'medium',
-            title: `Invalid Date Sequence`,
-            impact: 'Data integrity, timeline analysis errors',
-            affected_records: invalidOrderCount,
-            description: `${invalidOrderCount} records where ${dateColumn1} > ${dateColumn2}`,
-            recommendation: 'Review data entry process and add validation constraints'
-          });
+        for (const member of members) {
+          // Only the base name is kept so member paths cannot escape the temp directory
+          const destination = path.join(tempDir, `${resolvedFiles.length}_${path.basename(member.name)}`);
+          await extractZipEntry(filePath, member, destination);
+          resolvedFiles.push(destination);
+          labels.set(destination, `${filePath}/${member.name}`);
         }
       }
-
     } catch (error) {
-      console.error('Failed to perform business logic anomaly checks:', error);
+      if (tempDir) {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      }
+      throw error;
     }
 
-    return anomalies;
+    return { files: resolvedFiles, tempDir, labels };
   }
 
-  private async inspectTableSchema(tableName: string): Promise<string> {
-    try {
-      // Get schema information
-      const schema = await this.executeQuery(`DESCRIBE ${tableName}`);
+  /**
+   * Points the filename column of rows read from extracted archive members back at "archive.zip/member".
+   */
+  private async relabelArchiveFilenames(tableName: string, labels: Map<string, string>): Promise<void> {
+    if (labels.size === 0) return;
 
-      // Get row count
-      const countResult = await this.executeQuery(`SELECT COUNT(*) as row_count FROM ${tableName}`);
-      const rowCount = countResult[0]?.row_count || 0;
+    const cases = [...labels]
+      .map(([extracted, label]) => `WHEN '${extracted.replace(/'/g, "''")}' THEN '${label.replace(/'/g, "''")}'`)
+      .join(' ');
+    await this.executeQuery(`UPDATE "${tableName}" SET filename = CASE filename ${cases} ELSE filename END`);
+  }
 
-      // Get sample data (first 3 rows)
-      const sampleData = await this.executeQuery(`SELECT * FROM ${tableName} LIMIT 3`);
+  private buildFileListSource(files: string[]): string {
+    return `[${files.map(f => `'${f.replace(/'/g, "''")}'`).join(', ')}]`;
+  }
 
-      // Format the inspection result
-      let inspection = `📊 TABLE INSPECTION: "${tableName}"\n`;
-      inspection += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
-      inspection += `📈 Total Rows: ${rowCount.toLocaleString()}\n\n`;
+  /**
+   * Derives a table name from a file name, ignoring compression suffixes ("sales.csv.gz" → "sales").
+   */
+  private defaultTableName(filePath: string): string {
+    const baseName = path.basename(filePath).replace(/\.(gz|zst|zip)$/i, '');
+    return path.basename(baseName, path.extname(baseName)).replace(/[^a-zA-Z0-9_]/g, '_');
+  }
 
-      inspection += `🏗️ SCHEMA:\n`;
-      schema.forEach((col: any, index: number) => {
-        const icon = this.getColumnTypeIcon(col.column_type);
-        inspection += `  ${index + 1}. ${icon} ${col.column_name} (${col.column_type})${col.null ? ' - nullable' : ''}\n`;
-      });
+  // Converts a * / ? wildcard pattern into a case-insensitive anchored RegExp
+  private wildcardMatcher(pattern: string): RegExp {
+    return new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+  }
 
-      if (sampleData.length > 0) {
-        inspection += `\n👀 SAMPLE DATA (first ${sampleData.length} rows):\n`;
-        inspection += this.formatSampleData(sampleData, schema);
+  /**
+   * Reads sheet metadata straight from the workbook XML, since read_xlsx can only
+   * load a sheet whose name is already known.
+   */
+  private async readWorkbookSheets(filePath: string): Promise<WorkbookSheet[]> {
+    const entries = await readZipEntries(filePath);
+    const readXml = async (name: string): Promise<string | null> => {
+      const entry = entries.find(e => e.name === name);
+      return entry ? (await readZipEntry(filePath, entry)).toString('utf8') : null;
+    };
+    const attributes = (tag: string): Record<string, string> => {
+      const attrs: Record<string, string> = {};
+      for (const match of tag.matchAll(/([\w:]+)="([^"]*)"/g)) {
+        attrs[match[1]] = this.decodeXmlEntities(match[2]);
       }
+      return attrs;
+    };
 
-      inspection += `\n💡 Ready for analysis! Use query_csv to explore the data with SQL.`;
+    const workbookXml = await readXml('xl/workbook.xml');
+    if (!workbookXml) {
+      throw new Error('Not an Excel workbook (xl/workbook.xml is missing)');
+    }
 
-      return inspection;
-    } catch (error) {
-      return `Schema inspection failed: ${error instanceof Error ? error.message : String(error)}`;
+    // Map relationship ids to worksheet part names
+    const relsXml = await readXml('xl/_rels/workbook.xml.rels') ?? '';
+    const targets = new Map<string, string>();
+    for (const match of relsXml.matchAll(/<Relationship\b[^>]*>/g)) {
+      const { Id, Target } = attributes(match[0]);
+      if (Id && Target) {
+        targets.set(Id, Target.startsWith('/') ? Target.slice(1) : `xl/${Target}`);
+      }
     }
-  }
 
-  private getColumnTypeIcon(type: string): string {
-    const lowerType = type.toLowerCase();
-    if (lowerType.includes('int') || lowerType.includes('bigint') || lowerType.includes('double') || lowerType.includes('decimal')) return '🔢';
-    if (lowerType.includes('varchar') || lowerType.includes('text') || lowerType.includes('string')) return '📝';
-    if (lowerType.includes('date') || lowerType.includes('timestamp')) return '📅';
-    if (lowerType.includes('bool')) return '✅';
-    return '📊';
+    // Read each sheet's first row before the shared strings, so only the strings its header uses are read
+    const headerCells: { column: number; type: string | undefined; raw: string }[][] = [];
+    const starts: { name: string; state: string; range: string | null; rowCount: number; hasRows: boolean }[] = [];
+    for (const match of workbookXml.matchAll(/<sheet\b[^>]*>/g)) {
+      const attrs = attributes(match[0]);
+      const entry = entries.find(e => e.name === targets.get(attrs['r:id']));
+      const { range, firstRow, rowCount } = entry ? await this.readSheetStart(filePath, entry) : { range: null, firstRow: null, rowCount: 0 };
+
+      // Keep blank cells so positions line up with columns
+      const cells = [];
+      for (const cell of firstRow?.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g) ?? []) {
+        const { r, t } = attributes(cell[1]);
+        const body = cell[2] ?? '';
+        const raw = t === 'inlineStr'
+          ? Array.from(body.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), m => m[1]).join('')
+          : body.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '';
+        cells.push({ column: r ? this.excelColumnIndex(r) : cells.length, type: t, raw });
+      }
+
+      headerCells.push(cells);
+      starts.push({ name: attrs.name, state: attrs.state ?? 'visible', range, rowCount, hasRows: firstRow !== null });
+    }
+
+    const sharedIndexes = headerCells.flat().filter(cell => cell.type === 's').map(cell => Number(cell.raw));
+    const sharedStringsEntry = entries.find(e => e.name === 'xl/sharedStrings.xml');
+    const sharedStrings = sharedStringsEntry && sharedIndexes.length > 0
+      ? await this.readSharedStrings(filePath, sharedStringsEntry, Math.max(...sharedIndexes))
+      : [];
+
+    const sheets: WorkbookSheet[] = starts.map((start, index) => {
+      const header: string[] = [];
+      for (const cell of headerCells[index]) {
+        while (header.length < cell.column) header.push('');
+        header.push(cell.type === 's' ? sharedStrings[Number(cell.raw)] ?? '' : this.decodeXmlEntities(cell.raw));
+      }
+
+      return {
+        name: start.name,
+        state: start.state,
+        range: start.hasRows ? start.range : null,
+        estimatedRows: start.hasRows ? Math.max(start.rowCount - 1, 0) : 0,
+        header,
+      };
+    });
+
+    return sheets;
   }
 
-  private formatSampleData(data: any[], schema: any[]): string {
-    if (data.length === 0) return '  No data available\n';
+  /**
+   * Streams a worksheet until its first non-empty row, returning the used range, that row's XML and the row count.
+   * The count comes from the range; a sheet without one is read to the end, counting rows without keeping their XML.
+   */
+  private async readSheetStart(filePath: string, entry: ZipEntry): Promise<{ range: string | null; firstRow: string | null; rowCount: number }> {
+    let head = '';
+    // Assigned in the callback, which TypeScript's narrowing does not follow
+    let range = null as string | null;
+    let firstRow = null as string | null;
+    let searching = true;
+    let rows = 0;
+    let pending = '';
+
+    await scanZipEntry(filePath, entry, text => {
+      // A row tag is at least 5 characters, so the last 4 carried over are never counted twice
+      const chunk = pending + text;
+      rows += (chunk.match(/<row[\s>/]/g) ?? []).length;
+      pending = chunk.slice(-4);
+
+      if (searching) {
+        head += text;
+        range ??= head.match(/<dimension\b[^>]*\bref="([^"]+)"/)?.[1] ?? null;
+        firstRow = head.match(/<row\b[^>]*?(?<!\/)>([\s\S]*?)<\/row>/)?.[1] ?? null;
+        searching = firstRow === null && !head.includes('</sheetData>');
+        if (!searching) head = '';
+      }
 
-    let result = '';
-    const columnNames = schema.map(col => col.column_name);
+      // The dimension comes before the rows, so without one by now the rows have to be counted
+      return !searching && range !== null;
+    });
 
-    // Create header
-    result += '  ' + columnNames.map(name => name.padEnd(15)).join(' | ') + '\n';
-    result += '  ' + columnNames.map(() => '─'.repeat(15)).join('─┼─') + '\n';
+    const rangeRows = range?.match(/^[A-Z]+(\d+)(?::[A-Z]+(\d+))?$/);
+    const rowCount = rangeRows ? Number(rangeRows[2] ?? rangeRows[1]) - Number(rangeRows[1]) + 1 : rows;
+    return { range, firstRow, rowCount };
+  }
 
-    // Add data rows
-    data.forEach((row: any) => {
-      const values = columnNames.map(name => {
-        const value = row[name];
-        const strValue = value === null || value === undefined ? 'NULL' : String(value);
-        return strValue.length > 15 ? strValue.substring(0, 12) + '...' : strValue.padEnd(15);
-      });
-      result += '  ' + values.join(' | ') + '\n';
+  // Streams the shared strings table up to maxIndex instead of inflating it whole
+  private async readSharedStrings(filePath: string, entry: ZipEntry, maxIndex: number): Promise<string[]> {
+    const strings: string[] = [];
+    let buffer = '';
+
+    await scanZipEntry(filePath, entry, text => {
+      buffer += text;
+      for (let end = buffer.indexOf('</si>'); end !== -1; end = buffer.indexOf('</si>')) {
+        const item = buffer.slice(buffer.lastIndexOf('<si>', end), end);
+        strings.push(Array.from(item.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), t => this.decodeXmlEntities(t[1])).join(''));
+        buffer = buffer.slice(end + '</si>'.length);
+      }
+      return strings.length > maxIndex;
     });
 
-    return result;
+    return strings;
   }
 
-  async #ensureExcelExtension(): Promise<void> {
-    try {
-      await this.executeQuery('INSTALL excel');
-      await this.executeQuery('LOAD excel');
-    } catch (error) {
-      console.error('Excel extension already loaded or failed to load:', error);
+  private excelColumnIndex(cellReference: string): number {
+    const letters = cellReference.match(/^[A-Z]+/)?.[0] ?? 'A';
+    return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+  }
+
+  private decodeXmlEntities(value: string): string {
+    return value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+      .replace(/&#x([0-9a-fA-F]+);/g, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+      .replace(/&amp;/g, '&');
+  }
+
+  /**
+   * Resolves a table_name argument to a quoted reference: a table or view in the current database, or one in an
+   * attached database as alias.name or alias.schema.name. Names that match no table are rejected, never put into SQL.
+   */
+  private async tableReference(tableName: unknown): Promise<string> {
+    const parts = typeof tableName === 'string' ? tableName.split('.') : [];
+    if (parts.length === 0 || parts.length > 3 || parts.some(part => part.length === 0)) {
+      throw new Error(`Invalid table name "${tableName}"; use a name from list_tables`);
+    }
+
+    const literal = (value: string) => `'${value.toLowerCase().replace(/'/g, "''")}'`;
+    const [name, schema, database] = [...parts].reverse();
+    const conditions = [`lower(name) = ${literal(name)}`];
+    if (parts.length === 1) {
+      conditions.push('database_name = current_database()', 'schema_name = current_schema()');
+    } else if (parts.length === 2) {
+      // alias.name for the main schema of an attached database, or schema.name in the current one
+      conditions.push(`((lower(database_name) = ${literal(schema)} AND schema_name = 'main') OR (database_name = current_database() AND lower(schema_name) = ${literal(schema)}))`);
+    } else {
+      conditions.push(`lower(database_name) = ${literal(database)}`, `lower(schema_name) = ${literal(schema)}`);
+    }
+
+    const matches = await this.executeQuery(`
+      SELECT 1 FROM (
+        SELECT database_name, schema_name, table_name AS name FROM duckdb_tables()
+        UNION ALL
+        SELECT database_name, schema_name, view_name AS name FROM duckdb_views() WHERE NOT internal
+      ) WHERE ${conditions.join(' AND ')}
+    `);
+    if (matches.length === 0) {
+      throw new Error(`Table "${tableName}" does not exist; use a name from list_tables`);
     }
+    return this.quoteTableName(tableName as string);
+  }
+
+  // Quotes each part of a table name, e.g. books.main.ledger becomes "books"."main"."ledger"
+  private quoteTableName(tableName: string): string {
+    return tableName.split('.').map(part => this.quoteIdentifier(part)).join('.');
+  }
+
+  private quoteIdentifier(name: string): string {
+    return `"${String(name).replace(/"/g, '""')}"`;
   }
 
-  private executeQuery(query: string): Promise<any[]> {
+  /**
+   * Runs a query after the ones sent before it. With a signal, the returned promise rejects with the signal's reason
+   * as soon as it aborts: a query still waiting for its turn is skipped and a running one is interrupted.
+   * The query must be a single statement unless multipleStatements is set, which only query_csv does once the
+   * query policy has checked every statement. exactDecimals keeps DECIMAL values exact for query_csv output.
+   */
+  private executeQuery(query: string, signal?: AbortSignal, { multipleStatements = false, exactDecimals = false } = {}): Promise<any[]> {
     return new Promise((resolve, reject) => {
-      this.db.all(query, (err, rows) => {
-        if (err) {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      let running = null as DuckDBConnection | null;
+      const onAbort = () => {
+        running?.interrupt();
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.queryQueue = this.queryQueue.then(async () => {
+        try {
+          const connection = await this.connection;
+          if (signal?.aborted) return;
+          running = connection;
+          let reader;
+          if (multipleStatements) {
+            reader = await connection.runAndReadAll(query);
+          } else {
+            const statements = await connection.extractStatements(query);
+            if (statements.count !== 1) {
+              throw new Error(`Expected a single SQL statement but got ${statements.count}`);
+            }
+            reader = await (await statements.prepare(0)).runAndReadAll();
+          }
+          resolve(exactDecimals ? reader.convertRowObjects(exactDecimalConverter) : reader.getRowObjectsJS());
+        } catch (err) {
           reject(err);
-        } else {
-          resolve(rows);
+        } finally {
+          running = null;
+          signal?.removeEventListener('abort', onAbort);
         }
       });
     });
   }
 
-  private safeStringify(obj: any, replacer?: any, space?: string | number): string {
-    return JSON.stringify(obj, (key, value) => {
-      if (typeof value === 'bigint') {
-        // Convert BigInt to number if it fits in safe integer range
-        if (value <= Number.MAX_SAFE_INTEGER && value >= Number.MIN_SAFE_INTEGER) {
-          return Number(value);
-        }
-        // Otherwise convert to string with suffix to indicate it was a BigInt
-        return value.toString() + 'n';
-      }
-      return replacer ? replacer(key, value) : value;
-    }, space);
-  }
-
   private async generateExpenseOptimizationReport(
     tableName: string,
-    amountCol: string,
-    nameCol: string,
-    dateCol: string
+    amountColumn: string,
+    nameColumn: string,
+    dateColumn: string
   ): Promise<string> {
+    const table = await this.tableReference(tableName);
+    const [amountCol, nameCol, dateCol] = [amountColumn, nameColumn, dateColumn].map(column => this.quoteIdentifier(column));
+
     // 1. Monthly expense summary
     const monthlyQuery = `
       SELECT 
@@ -1703,7 +5549,7 @@ export class QuackMCPServer {
         COUNT(*) as transaction_count,
         ROUND(SUM(CASE WHEN ${amountCol} < 0 THEN ABS(${amountCol}) ELSE 0 END), 2) as total_expenses,
         ROUND(MAX(CASE WHEN ${amountCol} < 0 THEN ABS(${amountCol}) ELSE 0 END), 2) as largest_expense
-      FROM ${tableName} 
+      FROM ${table} 
       GROUP BY strftime('%Y-%m', ${dateCol})
       ORDER BY month
     `;
@@ -1717,7 +5563,7 @@ export class QuackMCPServer {
         ROUND(SUM(ABS(${amountCol})), 2) as total_spent,
         MIN(${dateCol}) as first_charge,
         MAX(${dateCol}) as last_charge
-      FROM ${tableName} 
+      FROM ${table} 
       WHERE ${amountCol} < 0 
       GROUP BY ${nameCol}, ROUND(ABS(${amountCol}), 2)
       HAVING COUNT(*) >= 2 AND ABS(${amountCol}) < 100
@@ -1726,6 +5572,7 @@ export class QuackMCPServer {
     `;
 
     // 3. Small frequent purchases analysis
+    // Grouped by position, since a Category column in the table would otherwise shadow the category alias
     const smallPurchasesQuery = `
       SELECT 
         CASE 
@@ -1740,9 +5587,9 @@ export class QuackMCPServer {
         COUNT(*) as transaction_count,
         ROUND(SUM(ABS(${amountCol})), 2) as total_spent,
         ROUND(AVG(ABS(${amountCol})), 2) as avg_amount
-      FROM ${tableName} 
+      FROM ${table} 
       WHERE ${amountCol} < 0 AND ABS(${amountCol}) < 50
-      GROUP BY category
+      GROUP BY 1
       HAVING transaction_count >= 3
       ORDER BY total_spent DESC
     `;
@@ -1756,7 +5603,7 @@ export class QuackMCPServer {
         ROUND(AVG(ABS(${amountCol})), 2) as avg_per_trip,
         ROUND(MIN(ABS(${amountCol})), 2) as min_spend,
         ROUND(MAX(ABS(${amountCol})), 2) as max_spend
-      FROM ${tableName} 
+      FROM ${table} 
       WHERE ${amountCol} < 0 AND (${nameCol} LIKE '%KROGER%' OR ${nameCol} LIKE '%TARGET%')
       GROUP BY strftime('%Y-%m', ${dateCol})
       ORDER BY month
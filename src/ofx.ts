@@ -0,0 +1,114 @@
+export interface OfxTransaction {
+  date: string | null;
+  name: string | null;
+  memo: string | null;
+  amount: string;
+  type: string | null;
+  fitid: string | null;
+  accountId: string | null;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+/**
+ * Converts an OFX date (YYYYMMDD, optionally followed by a time and timezone) to YYYY-MM-DD.
+ */
+const parseOfxDate = (value: string | undefined): string | null => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+/**
+ * Decodes an OFX file using the character set its header declares.
+ * SGML files default to Windows-1252 (read as latin1) and XML files to UTF-8.
+ */
+export function decodeOFX(buffer: Buffer): string {
+  const header = buffer.toString('latin1', 0, Math.min(buffer.length, 1024));
+  const isXML = /^\s*<\?xml/i.test(header);
+
+  const utf8 = isXML
+    ? !/encoding\s*=\s*["'](iso-8859-1|windows-1252|us-ascii)["']/i.test(header)
+    : /ENCODING:\s*UTF-?8/i.test(header);
+
+  return buffer.toString(utf8 ? 'utf8' : 'latin1');
+}
+
+/**
+ * Extracts the statement transactions of an OFX or QFX file.
+ * Handles both the SGML variant (OFX 1.x, where leaf elements have no closing tags) and the XML variant (OFX 2.x)
+ * by reading every element as a tag followed by its text, so closing tags only matter for aggregates.
+ */
+export function parseOFX(text: string): OfxTransaction[] {
+  const start = text.search(/<OFX>/i);
+  if (start === -1) {
+    throw new Error('Not an OFX/QFX file: no <OFX> element found');
+  }
+
+  const transactions: OfxTransaction[] = [];
+  let accountId: string | null = null;
+  let current: Record<string, string> | null = null;
+
+  const tagPattern = /<(\/?)([A-Za-z0-9_.]+)[^>]*>([^<]*)/g;
+  for (const [, closing, rawTag, rawValue] of text.slice(start).matchAll(tagPattern)) {
+    const tag = rawTag.toUpperCase();
+    const value = decodeEntities(rawValue.trim());
+
+    if (tag === 'STMTTRN') {
+      if (closing) {
+        if (current) {
+          transactions.push(toTransaction(current, accountId));
+        }
+        current = null;
+      } else {
+        current = {};
+      }
+      continue;
+    }
+
+    if (closing || value === '') continue;
+
+    if (current) {
+      // The first occurrence wins, so a nested PAYEE.NAME or BANKACCTTO.ACCTID never overrides the transaction's own
+      current[tag] ??= value;
+    } else if (tag === 'ACCTID') {
+      // Each statement names its account before listing its transactions
+      accountId = value;
+    }
+  }
+
+  return transactions;
+}
+
+// Some banks write amounts with a decimal comma (1.234,56) and some group thousands with commas (1,234.56).
+// A comma is the decimal separator only when it is the only one and no dot follows it
+const normalizeAmount = (value: string): string => {
+  const comma = value.lastIndexOf(',');
+  if (comma > value.lastIndexOf('.') && value.indexOf(',') === comma) {
+    return `${value.slice(0, comma).replace(/\./g, '')}.${value.slice(comma + 1)}`;
+  }
+  return value.replace(/,/g, '');
+};
+
+const toTransaction = (fields: Record<string, string>, accountId: string | null): OfxTransaction => {
+  const amount = normalizeAmount(fields.TRNAMT ?? '');
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(amount)) {
+    throw new Error(`Invalid TRNAMT "${fields.TRNAMT ?? ''}" in transaction ${fields.FITID ?? '(no FITID)'}`);
+  }
+
+  return {
+    date: parseOfxDate(fields.DTPOSTED ?? fields.DTUSER),
+    name: fields.NAME ?? fields.PAYEEID ?? null,
+    memo: fields.MEMO ?? null,
+    amount,
+    type: fields.TRNTYPE ?? null,
+    fitid: fields.FITID ?? null,
+    accountId,
+  };
+};
@@ -0,0 +1,133 @@
+import { DuckDBDecimalValue } from '@duckdb/node-api';
+
+/**
+ * How query_csv, describe_table and list_tables render rows. json is the pretty-printed JSON the tools have always
+ * returned; jsonl puts one compact object per line; markdown and csv format each value by its column type.
+ */
+export type OutputFormat = 'json' | 'jsonl' | 'markdown' | 'csv';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'jsonl', 'markdown', 'csv'];
+
+export function parseOutputFormat(value: unknown): OutputFormat {
+  if (value === undefined) return 'json';
+  if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+    throw new Error(`Invalid format "${value}". Use one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  return value as OutputFormat;
+}
+
+/**
+ * Renders rows in the given format. columnTypes maps column names to DuckDB types (e.g. "DECIMAL(10,2)");
+ * columns without a known type are formatted from their values.
+ */
+export function formatRows(rows: Record<string, unknown>[], format: OutputFormat, columnTypes: Record<string, string> = {}): string {
+  if (format === 'json') return safeStringify(rows, 2);
+  if (format === 'jsonl') return rows.map(row => safeStringify(row)).join('\n');
+
+  const columns = columnNames(rows, columnTypes);
+
+  if (format === 'csv') {
+    const lines = rows.map(row => columns.map(column => csvField(formatValue(row[column], columnTypes[column]))));
+    return [columns.map(csvField), ...lines].map(line => line.join(',')).join('\n');
+  }
+
+  if (columns.length === 0) return '_No rows_';
+
+  // Pad every cell to its column's width so the table also lines up as plain text. NULL is spelled out so it
+  // differs from an empty string; keys missing from a row are left blank
+  const numeric = columns.map(column => isNumericColumn(rows, column, columnTypes[column]));
+  const header = columns.map(markdownCell);
+  const body = rows.map(row => columns.map(column => row[column] === null ? 'NULL' : markdownCell(formatValue(row[column], columnTypes[column]))));
+  const widths = columns.map((_, index) => Math.max(3, header[index].length, ...body.map(line => line[index].length)));
+
+  const renderLine = (line: string[]) =>
+    `| ${line.map((cell, index) => numeric[index] ? cell.padStart(widths[index]) : cell.padEnd(widths[index])).join(' | ')} |`;
+  const separator = `|${widths.map((width, index) => numeric[index] ? ` ${'-'.repeat(width - 1)}: ` : ` ${'-'.repeat(width)} `).join('|')}|`;
+
+  return [renderLine(header), separator, ...body.map(renderLine)].join('\n');
+}
+
+/**
+ * JSON.stringify for DuckDB values. BIGINT and HUGEINT values become numbers when they fit in a double without losing
+ * precision, and DECIMAL values kept exact by query_csv become numbers.
+ */
+export function safeStringify(value: unknown, space?: string | number): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (typeof item === 'bigint') {
+      // Convert BigInt to number if it fits in safe integer range
+      if (item <= Number.MAX_SAFE_INTEGER && item >= Number.MIN_SAFE_INTEGER) {
+        return Number(item);
+      }
+      // Otherwise convert to string with suffix to indicate it was a BigInt
+      return item.toString() + 'n';
+    }
+    if (item instanceof DuckDBDecimalValue) return item.toDouble();
+    return item;
+  }, space);
+}
+
+// Columns in order of first appearance; rows may have different keys, as list_tables rows do
+const columnNames = (rows: Record<string, unknown>[], columnTypes: Record<string, string>): string[] => {
+  const columns = new Set<string>(Object.keys(columnTypes));
+  for (const row of rows) {
+    for (const column of Object.keys(row)) columns.add(column);
+  }
+  return [...columns];
+};
+
+const NUMERIC_TYPE = /^(TINYINT|SMALLINT|INTEGER|INT|BIGINT|HUGEINT|UTINYINT|USMALLINT|UINTEGER|UBIGINT|UHUGEINT|FLOAT|REAL|DOUBLE|DECIMAL|NUMERIC)\b/i;
+
+const isNumericColumn = (rows: Record<string, unknown>[], column: string, type: string | undefined): boolean => {
+  if (type) return NUMERIC_TYPE.test(type);
+
+  const values = rows.map(row => row[column]).filter(value => value !== null && value !== undefined);
+  return values.length > 0 && values.every(value => typeof value === 'number' || typeof value === 'bigint' || value instanceof DuckDBDecimalValue);
+};
+
+const formatValue = (value: unknown, type = ''): string => {
+  if (value === null || value === undefined) return '';
+
+  const upperType = type.toUpperCase();
+  if (typeof value === 'bigint') {
+    // TIME values arrive as microseconds since midnight
+    return upperType === 'TIME' ? formatTime(value) : value.toString();
+  }
+  // DECIMAL values are printed from their exact digits, with the column's scale
+  if (value instanceof DuckDBDecimalValue) return value.toString();
+  if (typeof value === 'number') return formatNumber(value, upperType);
+  if (value instanceof Date) return formatDate(value, upperType);
+  if (value instanceof Uint8Array) return [...value].map(byte => `\\x${byte.toString(16).padStart(2, '0').toUpperCase()}`).join('');
+  if (typeof value === 'object') return safeStringify(value);
+  return String(value);
+};
+
+const formatNumber = (value: number, type: string): string => {
+  if (!Number.isFinite(value)) return String(value);
+
+  // FLOAT values only carry about 7 significant digits; print them without the digits a double adds
+  if (type === 'FLOAT' || type === 'REAL') return String(Number(value.toPrecision(7)));
+  return String(value);
+};
+
+const formatDate = (value: Date, type: string): string => {
+  if (Number.isNaN(value.getTime())) return String(value);
+
+  const iso = value.toISOString();
+  const dateOnly = type === 'DATE' || (!type && iso.endsWith('T00:00:00.000Z'));
+  if (dateOnly) return iso.slice(0, 10);
+
+  const time = iso.slice(11, 23).replace(/\.000$/, '');
+  return `${iso.slice(0, 10)} ${time}${type.includes('TIME ZONE') || type === 'TIMESTAMPTZ' ? '+00' : ''}`;
+};
+
+const formatTime = (micros: bigint): string => {
+  const seconds = Number(micros / 1000000n);
+  const fraction = micros % 1000000n;
+  const parts = [Math.floor(seconds / 3600), Math.floor(seconds / 60) % 60, seconds % 60].map(part => String(part).padStart(2, '0'));
+  return parts.join(':') + (fraction ? `.${fraction.toString().padStart(6, '0').replace(/0+$/, '')}` : '');
+};
+
+const csvField = (field: string): string => /[",\n\r]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+
+// Pipes would end the cell and line breaks the row
+const markdownCell = (cell: string): string => cell.replace(/\|/g, '\\|').replace(/\r?\n|\r/g, '<br>');
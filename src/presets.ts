@@ -0,0 +1,140 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Maps a bank or card issuer's CSV export onto the canonical transactions columns
+ * Date, Name, Memo, Category and Amount, where money leaving the account is negative.
+ */
+export interface TransactionPreset {
+  description: string;
+  date: string;
+  name: string;
+  memo?: string;
+  category?: string;
+  // Either one signed amount column, or separate debit and credit columns
+  amount?: string;
+  amount_sign?: 'as_is' | 'negate';
+  debit?: string;
+  credit?: string;
+  // read_csv options the export needs, e.g. { "dateformat": "%m/%d/%Y" }; explicit load_csv arguments take precedence
+  read_options?: Record<string, unknown>;
+}
+
+export const BUILTIN_PRESETS: Record<string, TransactionPreset> = {
+  chase: {
+    description: 'Chase credit card and checking activity exports (purchases are negative)',
+    date: 'Transaction Date',
+    name: 'Description',
+    memo: 'Memo',
+    category: 'Category',
+    amount: 'Amount',
+    read_options: { dateformat: '%m/%d/%Y' },
+  },
+  amex: {
+    description: 'American Express activity exports (charges are positive)',
+    date: 'Date',
+    name: 'Description',
+    memo: 'Extended Details',
+    category: 'Category',
+    amount: 'Amount',
+    amount_sign: 'negate',
+    read_options: { dateformat: '%m/%d/%Y' },
+  },
+  capital_one: {
+    description: 'Capital One card exports with separate Debit and Credit columns',
+    date: 'Transaction Date',
+    name: 'Description',
+    category: 'Category',
+    debit: 'Debit',
+    credit: 'Credit',
+    read_options: { dateformat: '%Y-%m-%d' },
+  },
+  generic: {
+    description: 'Date, Description and a signed Amount column (money out is negative)',
+    date: 'Date',
+    name: 'Description',
+    memo: 'Memo',
+    category: 'Category',
+    amount: 'Amount',
+  },
+  generic_debit_credit: {
+    description: 'Date, Description and separate Debit and Credit columns',
+    date: 'Date',
+    name: 'Description',
+    memo: 'Memo',
+    category: 'Category',
+    debit: 'Debit',
+    credit: 'Credit',
+  },
+};
+
+/**
+ * The user preset file: QUACK_MCP_PRESETS if set, otherwise ~/.quack-mcp/presets.json.
+ */
+export function presetsFilePath(): string {
+  return process.env.QUACK_MCP_PRESETS || path.join(os.homedir(), '.quack-mcp', 'presets.json');
+}
+
+/**
+ * Returns the built-in presets merged with the user's presets file, which is re-read on every call
+ * so edits apply without restarting the server. User presets may override built-in ones by name.
+ */
+export async function loadPresets(filePath = presetsFilePath()): Promise<Record<string, TransactionPreset>> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { ...BUILTIN_PRESETS };
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON in presets file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Presets file ${filePath} must contain an object mapping preset names to presets`);
+  }
+
+  const presets = { ...BUILTIN_PRESETS };
+  for (const [name, value] of Object.entries(parsed)) {
+    presets[name] = validatePreset(name, value, filePath);
+  }
+  return presets;
+}
+
+const validatePreset = (name: string, value: any, filePath: string): TransactionPreset => {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid preset "${name}" in ${filePath}: ${reason}`);
+  };
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) fail('expected an object');
+
+  for (const field of ['date', 'name']) {
+    if (typeof value[field] !== 'string' || value[field].length === 0) fail(`"${field}" must name a column`);
+  }
+  for (const field of ['memo', 'category', 'amount', 'debit', 'credit']) {
+    if (value[field] !== undefined && (typeof value[field] !== 'string' || value[field].length === 0)) {
+      fail(`"${field}" must name a column`);
+    }
+  }
+
+  if (value.amount === undefined && (value.debit === undefined || value.credit === undefined)) {
+    fail('set "amount", or both "debit" and "credit"');
+  }
+  if (value.amount !== undefined && (value.debit !== undefined || value.credit !== undefined)) {
+    fail('use either "amount" or "debit"/"credit", not both');
+  }
+  if (value.amount_sign !== undefined && value.amount_sign !== 'as_is' && value.amount_sign !== 'negate') {
+    fail('"amount_sign" must be "as_is" or "negate"');
+  }
+  if (value.read_options !== undefined && (typeof value.read_options !== 'object' || value.read_options === null || Array.isArray(value.read_options))) {
+    fail('"read_options" must be an object of load_csv options');
+  }
+
+  return { description: 'User preset', ...value };
+};
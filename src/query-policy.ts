@@ -0,0 +1,299 @@
+/**
+ * Which statements query_csv may run. read_only only reads data, allow_ddl may also change tables in the
+ * in-memory database (and attached databases opened with write access), and full allows anything DuckDB does,
+ * including writing files, installing or loading extensions and changing settings.
+ */
+export type QueryPolicy = 'read_only' | 'allow_ddl' | 'full';
+
+export const QUERY_POLICIES: QueryPolicy[] = ['read_only', 'allow_ddl', 'full'];
+
+export const QUERY_POLICY_SUMMARIES: Record<QueryPolicy, string> = {
+  read_only: 'only statements that read data are allowed',
+  allow_ddl: 'tables may be created and changed, but statements that write files, load extensions or change settings are rejected',
+  full: 'every statement is allowed',
+};
+
+/**
+ * The policy set with QUACK_MCP_QUERY_POLICY, defaulting to read_only.
+ */
+export function queryPolicyFromEnv(): QueryPolicy {
+  const value = process.env.QUACK_MCP_QUERY_POLICY;
+  if (!value) return 'read_only';
+
+  if (!QUERY_POLICIES.includes(value as QueryPolicy)) {
+    throw new Error(`Invalid QUACK_MCP_QUERY_POLICY "${value}". Use one of: ${QUERY_POLICIES.join(', ')}`);
+  }
+  return value as QueryPolicy;
+}
+
+const DEFAULT_QUERY_TIMEOUT_SECONDS = 60;
+
+/**
+ * The default query_csv timeout in seconds set with QUACK_MCP_QUERY_TIMEOUT, defaulting to 60; 0 disables it.
+ */
+export function queryTimeoutFromEnv(): number {
+  const value = process.env.QUACK_MCP_QUERY_TIMEOUT;
+  if (!value) return DEFAULT_QUERY_TIMEOUT_SECONDS;
+
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    throw new Error(`Invalid QUACK_MCP_QUERY_TIMEOUT "${value}". Use a number of seconds, or 0 for no timeout`);
+  }
+  return seconds;
+}
+
+// The least permissive policy that allows each statement class; statements that are not recognized are never allowed
+type StatementClass = 'read' | 'modify' | 'external' | 'unrecognized';
+
+const REQUIRED_POLICY: Record<Exclude<StatementClass, 'unrecognized'>, QueryPolicy> = {
+  read: 'read_only',
+  modify: 'allow_ddl',
+  external: 'full',
+};
+
+const READ_STATEMENTS = new Set(['SELECT', 'FROM', 'VALUES', 'TABLE', 'DESCRIBE', 'DESC', 'SHOW', 'SUMMARIZE', 'PIVOT', 'UNPIVOT']);
+const MODIFY_STATEMENTS = new Set(['CREATE', 'DROP', 'ALTER', 'INSERT', 'UPDATE', 'DELETE', 'TRUNCATE', 'COMMENT', 'MERGE', 'COPY', 'USE', 'VACUUM', 'ANALYZE', 'BEGIN', 'START', 'COMMIT', 'END', 'ROLLBACK', 'ABORT']);
+const EXTERNAL_STATEMENTS = new Set(['INSTALL', 'LOAD', 'ATTACH', 'DETACH', 'SET', 'RESET', 'EXPORT', 'IMPORT', 'CHECKPOINT', 'FORCE', 'PREPARE', 'EXECUTE', 'DEALLOCATE', 'CALL', 'PRAGMA']);
+
+// Verbs that may start the main statement after a WITH clause
+const MAIN_STATEMENT_VERBS = new Set(['SELECT', 'FROM', 'VALUES', 'TABLE', 'PIVOT', 'UNPIVOT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE']);
+
+// PRAGMAs that only report information; every other PRAGMA changes a setting
+const READ_PRAGMAS = new Set([
+  'table_info', 'show', 'show_tables', 'show_tables_expanded', 'show_databases', 'database_list',
+  'database_size', 'storage_info', 'metadata_info', 'version', 'platform', 'user_agent', 'collations', 'functions',
+]);
+
+// Table functions CALL may run under read_only: catalog and settings listings, file readers and generators.
+// Others may have side effects, so CALL with them needs the full policy
+const READ_TABLE_FUNCTIONS = /^(duckdb_\w+|pragma_\w+|read_\w+|parquet_\w+|range|generate_series|glob|sniff_csv|summary|unnest|repeat|repeat_row|json_each|json_tree|histogram|histogram_values|icu_calendar_names|pg_timezone_names|which_secret|query_table|test_all_types)$/;
+
+// Functions that run SQL passed as a string, which the policy cannot inspect, write files or change settings.
+// They are rejected wherever they appear, as a table function in FROM cannot be told apart from a scalar one
+const BLOCKED_FUNCTIONS = new Map<string, string>([
+  ['query', 'runs SQL from a string, which the query policy cannot check'],
+  ['json_execute_serialized_sql', 'runs serialized SQL, which the query policy cannot check'],
+  ['checkpoint', 'writes database files'],
+  ['force_checkpoint', 'writes database files'],
+  ['enable_logging', 'changes logging settings and can write log files'],
+  ['disable_logging', 'changes logging settings'],
+  ['truncate_duckdb_logs', 'deletes the logs'],
+  ['enable_profiling', 'changes profiling settings and can write profile files'],
+  ['disable_profiling', 'changes profiling settings'],
+  ['enable_peg_parser', 'changes parser settings'],
+  ['disable_peg_parser', 'changes parser settings'],
+  ['setseed', 'changes the random seed setting'],
+  ['arrow_scan', 'reads memory at the addresses it is given'],
+  ['arrow_scan_dumb', 'reads memory at the addresses it is given'],
+]);
+
+interface Token {
+  text: string;
+  // Unquoted words are keywords or identifiers; quoted identifiers are never keywords
+  kind: 'word' | 'quoted' | 'string' | 'symbol';
+  depth: number;
+  // Offsets of the token in the SQL, including any quotes
+  start: number;
+  end: number;
+}
+
+/**
+ * Returns why the SQL may not run under the policy, or null when every statement in it is allowed.
+ */
+export function checkQueryPolicy(sql: string, policy: QueryPolicy): string | null {
+  if (policy === 'full') return null;
+
+  for (const statement of splitStatements(tokenize(sql))) {
+    const { statementClass, label } = classifyStatement(statement);
+
+    if (statementClass === 'unrecognized') {
+      return `Unrecognized statement "${label}". Check the SQL for typos; query_csv runs statements such as SELECT, DESCRIBE or SUMMARIZE.`;
+    }
+
+    for (const [index, token] of statement.entries()) {
+      const reason = BLOCKED_FUNCTIONS.get(token.text.toLowerCase());
+      if (reason && (token.kind === 'word' || token.kind === 'quoted') && statement[index + 1]?.text === '(') {
+        return `The ${token.text.toLowerCase()}() function is not allowed by the ${policy} query policy because it ${reason}. ` +
+          'Start the server with QUACK_MCP_QUERY_POLICY=full to allow it.';
+      }
+    }
+
+    if (rank(REQUIRED_POLICY[statementClass]) > rank(policy)) {
+      return `${label} statements are not allowed by the ${policy} query policy (${QUERY_POLICY_SUMMARIES[policy]}). ` +
+        `Start the server with QUACK_MCP_QUERY_POLICY=${REQUIRED_POLICY[statementClass]} to allow them.`;
+    }
+  }
+
+  return null;
+}
+
+// Read statements DuckDB accepts as a subquery; PRAGMA, CALL and EXPLAIN are not
+const SUBQUERY_VERBS = new Set(['SELECT', 'FROM', 'VALUES', 'TABLE', 'DESCRIBE', 'DESC', 'SHOW', 'SUMMARIZE', 'PIVOT', 'UNPIVOT', 'WITH', '(']);
+
+/**
+ * Returns the SQL of the only statement in sql when it reads data and can be used as a subquery,
+ * without surrounding comments or a trailing semicolon, or null otherwise.
+ */
+export function subquerySQL(sql: string): string | null {
+  const statements = splitStatements(tokenize(sql));
+  if (statements.length !== 1) return null;
+
+  const [statement] = statements;
+  const verb = keyword(statement[0]) ?? statement[0].text;
+  if (!SUBQUERY_VERBS.has(verb) || classifyStatement(statement).statementClass !== 'read') return null;
+
+  return sql.slice(statement[0].start, statement[statement.length - 1].end);
+}
+
+const rank = (policy: QueryPolicy): number => QUERY_POLICIES.indexOf(policy);
+
+const keyword = (token: Token | undefined): string | null => token?.kind === 'word' ? token.text.toUpperCase() : null;
+
+const classifyStatement = (tokens: Token[]): { statementClass: StatementClass; label: string } => {
+  let start = 0;
+
+  // EXPLAIN ANALYZE runs the statement it explains
+  if (keyword(tokens[0]) === 'EXPLAIN') {
+    start = keyword(tokens[1]) === 'ANALYZE' ? 2 : 1;
+  }
+
+  const first = tokens[start];
+  if (first?.text === '(') return { statementClass: 'read', label: 'SELECT' };
+
+  let verb = keyword(first) ?? (first?.text ?? '');
+  if (verb === 'WITH') {
+    const main = tokens.slice(start + 1).find(token => token.depth === 0 && MAIN_STATEMENT_VERBS.has(keyword(token) ?? ''));
+    verb = main ? main.text.toUpperCase() : 'SELECT';
+  }
+
+  const rest = tokens.slice(start + 1);
+  const topLevelWords = rest.filter(token => token.depth === 0).map(keyword);
+
+  switch (verb) {
+    case 'COPY':
+      // COPY ... FROM fills a table; COPY ... TO writes a file (or another database)
+      return topLevelWords.includes('TO')
+        ? { statementClass: 'external', label: 'COPY ... TO' }
+        : { statementClass: 'modify', label: 'COPY' };
+    case 'CREATE':
+      return topLevelWords.includes('PERSISTENT') && topLevelWords.includes('SECRET')
+        ? { statementClass: 'external', label: 'CREATE PERSISTENT SECRET' }
+        : { statementClass: 'modify', label: 'CREATE' };
+    case 'UPDATE':
+      return keyword(rest[0]) === 'EXTENSIONS'
+        ? { statementClass: 'external', label: 'UPDATE EXTENSIONS' }
+        : { statementClass: 'modify', label: 'UPDATE' };
+    case 'PRAGMA':
+      return READ_PRAGMAS.has(rest[0]?.text.toLowerCase() ?? '') && !rest.some(token => token.text === '=')
+        ? { statementClass: 'read', label: 'PRAGMA' }
+        : { statementClass: 'external', label: 'PRAGMA' };
+    case 'CALL': {
+      const name = rest[0]?.kind === 'word' || rest[0]?.kind === 'quoted' ? rest[0].text.toLowerCase() : '';
+      return READ_TABLE_FUNCTIONS.test(name)
+        ? { statementClass: 'read', label: 'CALL' }
+        : { statementClass: 'external', label: `CALL ${name || '...'}()` };
+    }
+  }
+
+  if (READ_STATEMENTS.has(verb)) return { statementClass: 'read', label: verb };
+  if (MODIFY_STATEMENTS.has(verb)) return { statementClass: 'modify', label: verb };
+  if (EXTERNAL_STATEMENTS.has(verb)) return { statementClass: 'external', label: verb };
+  return { statementClass: 'unrecognized', label: first?.text ?? '' };
+};
+
+const splitStatements = (tokens: Token[]): Token[][] => {
+  const statements: Token[][] = [[]];
+  for (const token of tokens) {
+    if (token.text === ';' && token.kind === 'symbol') {
+      statements.push([]);
+    } else {
+      statements[statements.length - 1].push(token);
+    }
+  }
+  return statements.filter(statement => statement.length > 0);
+};
+
+// Lexical rules of DuckDB's parser: identifiers may contain non-ASCII letters and "$", which also delimits dollar quotes
+const IDENTIFIER_START = /[A-Za-z_\u0080-\uffff]/;
+const IDENTIFIER = /^[A-Za-z_\u0080-\uffff][A-Za-z0-9_$\u0080-\uffff]*/;
+const DOLLAR_QUOTE = /^\$([A-Za-z_\u0080-\uffff][A-Za-z0-9_\u0080-\uffff]*)?\$/;
+
+/**
+ * Splits SQL into words, quoted identifiers, string literals and symbols, skipping comments,
+ * so that keywords and semicolons inside strings are never mistaken for statements.
+ */
+const tokenize = (sql: string): Token[] => {
+  const tokens: Token[] = [];
+  let depth = 0;
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (/[ \t\n\r\f\v]/.test(char)) {
+      i++;
+    } else if (sql.startsWith('--', i)) {
+      // Line comments end at either line break character
+      const end = sql.slice(i).search(/[\n\r]/);
+      i = end === -1 ? sql.length : i + end + 1;
+    } else if (sql.startsWith('/*', i)) {
+      // Block comments nest, as in DuckDB's parser
+      let nesting = 1;
+      i += 2;
+      while (i < sql.length && nesting > 0) {
+        if (sql.startsWith('/*', i)) {
+          nesting++;
+          i += 2;
+        } else if (sql.startsWith('*/', i)) {
+          nesting--;
+          i += 2;
+        } else {
+          i++;
+        }
+      }
+    } else if (char === "'") {
+      // E'...' strings escape quotes with a backslash
+      const previous = tokens[tokens.length - 1];
+      const escapeString = previous?.kind === 'word' && previous.text.toUpperCase() === 'E' && sql[i - 1].toUpperCase() === 'E';
+      let j = i + 1;
+      while (j < sql.length) {
+        if (escapeString && sql[j] === '\\') {
+          j += 2;
+        } else if (sql[j] === "'" && sql[j + 1] === "'") {
+          j += 2;
+        } else if (sql[j] === "'") {
+          break;
+        } else {
+          j++;
+        }
+      }
+      tokens.push({ text: sql.slice(i + 1, j), kind: 'string', depth, start: i, end: Math.min(j + 1, sql.length) });
+      i = j + 1;
+    } else if (char === '"') {
+      let j = i + 1;
+      while (j < sql.length && !(sql[j] === '"' && sql[j + 1] !== '"')) {
+        j += sql[j] === '"' ? 2 : 1;
+      }
+      tokens.push({ text: sql.slice(i + 1, j).replace(/""/g, '"'), kind: 'quoted', depth, start: i, end: Math.min(j + 1, sql.length) });
+      i = j + 1;
+    } else if (char === '$' && DOLLAR_QUOTE.test(sql.slice(i))) {
+      // Dollar-quoted strings: $$...$$ or $tag$...$tag$
+      const tag = sql.slice(i).match(DOLLAR_QUOTE)![0];
+      const end = sql.indexOf(tag, i + tag.length);
+      const stop = end === -1 ? sql.length : end + tag.length;
+      tokens.push({ text: sql.slice(i + tag.length, end === -1 ? sql.length : end), kind: 'string', depth, start: i, end: stop });
+      i = stop;
+    } else if (IDENTIFIER_START.test(char)) {
+      const match = sql.slice(i).match(IDENTIFIER)!;
+      tokens.push({ text: match[0], kind: 'word', depth, start: i, end: i + match[0].length });
+      i += match[0].length;
+    } else {
+      if (char === ')') depth = Math.max(0, depth - 1);
+      tokens.push({ text: char, kind: 'symbol', depth, start: i, end: i + 1 });
+      if (char === '(') depth++;
+      i++;
+    }
+  }
+
+  return tokens;
+};
@@ -0,0 +1,177 @@
+import { createReadStream, createWriteStream } from 'fs';
+import fs from 'fs/promises';
+import { StringDecoder } from 'string_decoder';
+import { pipeline } from 'stream/promises';
+import { promisify } from 'util';
+import zlib from 'zlib';
+
+const inflateRaw = promisify(zlib.inflateRaw);
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  isDirectory: boolean;
+}
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/**
+ * Lists the entries of a zip archive by reading its central directory.
+ * Only the stored and deflate methods are supported, which covers .xlsx workbooks
+ * and the archives produced by common export tools.
+ */
+export async function readZipEntries(filePath: string): Promise<ZipEntry[]> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+
+    // The end of central directory record is 22 bytes plus an optional comment of up to 64 KB
+    const tailLength = Math.min(size, 22 + 0xffff);
+    const tail = Buffer.alloc(tailLength);
+    await handle.read(tail, 0, tailLength, size - tailLength);
+
+    let eocdOffset = -1;
+    for (let i = tailLength - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+        eocdOffset = i;
+        break;
+      }
+    }
+
+    if (eocdOffset === -1) {
+      throw new Error(`Not a zip archive: ${filePath}`);
+    }
+
+    const entryCount = tail.readUInt16LE(eocdOffset + 10);
+    const directorySize = tail.readUInt32LE(eocdOffset + 12);
+    const directoryOffset = tail.readUInt32LE(eocdOffset + 16);
+
+    if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+      throw new Error(`ZIP64 archives are not supported: ${filePath}`);
+    }
+
+    const directory = Buffer.alloc(directorySize);
+    await handle.read(directory, 0, directorySize, directoryOffset);
+
+    const entries: ZipEntry[] = [];
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+        throw new Error(`Corrupt zip central directory: ${filePath}`);
+      }
+
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const name = directory.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+      entries.push({
+        name,
+        method: directory.readUInt16LE(offset + 10),
+        compressedSize: directory.readUInt32LE(offset + 20),
+        uncompressedSize: directory.readUInt32LE(offset + 24),
+        localHeaderOffset: directory.readUInt32LE(offset + 42),
+        isDirectory: name.endsWith('/'),
+      });
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Reads and decompresses a single zip entry into memory. Meant for small entries; use scanZipEntry or
+ * extractZipEntry for entries that may be large.
+ */
+export async function readZipEntry(filePath: string, entry: ZipEntry): Promise<Buffer> {
+  const dataOffset = await entryDataOffset(filePath, entry);
+
+  const handle = await fs.open(filePath, 'r');
+  let data: Buffer;
+  try {
+    data = Buffer.alloc(entry.compressedSize);
+    await handle.read(data, 0, entry.compressedSize, dataOffset);
+  } finally {
+    await handle.close();
+  }
+
+  return entry.method === 8 ? inflateRaw(data) : data;
+}
+
+/**
+ * Decompresses a zip entry as a stream and passes its text to onText chunk by chunk, stopping as soon as onText
+ * returns true, so callers that only need the start of a large entry never inflate the rest.
+ */
+export async function scanZipEntry(filePath: string, entry: ZipEntry, onText: (text: string) => boolean): Promise<void> {
+  const dataOffset = await entryDataOffset(filePath, entry);
+  if (entry.compressedSize === 0) return;
+
+  const source = createReadStream(filePath, { start: dataOffset, end: dataOffset + entry.compressedSize - 1 });
+  const stream = entry.method === 8 ? source.pipe(zlib.createInflateRaw()) : source;
+  // pipe() does not forward read errors to the inflater
+  source.on('error', error => stream.destroy(error));
+
+  const decoder = new StringDecoder('utf8');
+  try {
+    for await (const chunk of stream) {
+      if (onText(decoder.write(chunk))) return;
+    }
+    onText(decoder.end());
+  } finally {
+    source.destroy();
+    stream.destroy();
+  }
+}
+
+/**
+ * Streams a single zip entry to a file on disk, so large archive members never sit in memory.
+ */
+export async function extractZipEntry(filePath: string, entry: ZipEntry, destination: string): Promise<void> {
+  const dataOffset = await entryDataOffset(filePath, entry);
+
+  if (entry.compressedSize === 0) {
+    await fs.writeFile(destination, '');
+    return;
+  }
+
+  // createReadStream's end offset is inclusive
+  const source = createReadStream(filePath, { start: dataOffset, end: dataOffset + entry.compressedSize - 1 });
+  const output = createWriteStream(destination);
+
+  if (entry.method === 8) {
+    await pipeline(source, zlib.createInflateRaw(), output);
+  } else {
+    await pipeline(source, output);
+  }
+}
+
+// Checks the entry's local header and method and returns where its data starts
+const entryDataOffset = async (filePath: string, entry: ZipEntry): Promise<number> => {
+  if (entry.method !== 0 && entry.method !== 8) {
+    throw new Error(`Unsupported compression method ${entry.method} for zip entry "${entry.name}"`);
+  }
+
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const header = Buffer.alloc(30);
+    await handle.read(header, 0, 30, entry.localHeaderOffset);
+
+    if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt zip entry "${entry.name}" in ${filePath}`);
+    }
+
+    // The local header may carry a different extra field length than the central directory
+    return entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  } finally {
+    await handle.close();
+  }
+};
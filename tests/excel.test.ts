@@ -1,9 +1,12 @@
 import { strict as assert } from 'assert';
 import { test } from 'node:test';
 import fs from 'fs/promises';
+import zlib from 'zlib';
+import { randomBytes } from 'crypto';
 import path from 'path';
 import os from 'os';
 import { QuackMCPServer } from '../src/index.ts';
+import { createTestWorkbook } from './test-data.ts';
 
 // Helper to create test Excel data using CSV and then converting conceptually
 // Note: For real tests, you'd want actual .xlsx files, but for this demo we'll simulate
@@ -275,4 +278,146 @@ test('Excel error message quality', async () => {
       assert(error.message.includes('No Excel files found matching pattern'));
     }
   });
-});
\ No newline at end of file
+});
+
+// Sheet discovery tests
+test('Excel sheet listing', async () => {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quack-mcp-sheets-test-'));
+  const server = new QuackMCPServer();
+
+  try {
+    await fs.writeFile(path.join(tempDir, 'finance.xlsx'), createTestWorkbook({
+      January: [['Date', 'Vendor', 'Amount'], ['2025-01-03', 'Acme & Co', 120], ['2025-01-09', 'Globex', 75]],
+      February: [['Date', 'Vendor', 'Amount'], ['2025-02-11', 'Initech', 300]],
+      Notes: []
+    }));
+
+    await test('should list every sheet with range, row estimate and header', async () => {
+      const result = await server.listExcelSheets({ pattern: path.join(tempDir, 'finance.xlsx') });
+      const output = result.content[0].text;
+
+      assert(output.includes('"January"'));
+      assert(output.includes('"February"'));
+      assert(output.includes('"Notes"'));
+      assert(output.includes('Used range: A1:C3'));
+      assert(output.includes('Estimated rows: 2 (excluding header)'));
+      assert(output.includes('Estimated rows: 1 (excluding header)'));
+      assert(output.includes('Header: Date | Vendor | Amount'));
+      assert(output.includes('Used range: empty'));
+    });
+
+    await test('should list sheets for workbooks matching a glob', async () => {
+      await fs.writeFile(path.join(tempDir, 'summary.xlsx'), createTestWorkbook({ Totals: [['Month', 'Total']] }));
+
+      const result = await server.listExcelSheets({ pattern: path.join(tempDir, '*.xlsx').replace(/\\/g, '/') });
+      const output = result.content[0].text;
+
+      assert(output.includes('Found 2 Excel workbooks'));
+      assert(output.includes('"Totals"'));
+    });
+
+    await test('should read only the start of each worksheet', async () => {
+      const rows = Array.from({ length: 20000 }, (_, i) => [`row-${i}`, randomBytes(16).toString('hex')]);
+      const workbook = createTestWorkbook({ Ledger: [['Id', 'Checksum'], ...rows] }, { deflate: true });
+
+      // Corrupt the back half of the deflated sheet; it is the last entry, right before the central directory
+      const name = 'xl/worksheets/sheet1.xml';
+      const dataStart = workbook.indexOf(name) + name.length;
+      const dataEnd = workbook.readUInt32LE(workbook.length - 6);
+      workbook.fill(0xff, Math.floor((dataStart + dataEnd) / 2), dataEnd);
+      assert.throws(() => zlib.inflateRawSync(workbook.subarray(dataStart, dataEnd)));
+
+      await fs.writeFile(path.join(tempDir, 'ledger.xlsx'), workbook);
+      const result = await server.listExcelSheets({ pattern: path.join(tempDir, 'ledger.xlsx') });
+      const output = result.content[0].text;
+
+      assert(output.includes('Used range: A1:B20001'));
+      assert(output.includes('Estimated rows: 20,000 (excluding header)'));
+      assert(output.includes('Header: Id | Checksum'));
+    });
+
+    await test('should reject non-xlsx files', async () => {
+      await assert.rejects(
+        async () => server.listExcelSheets({ pattern: path.join(tempDir, 'legacy.xls') }),
+        { message: /Only .xlsx files are supported/ }
+      );
+    });
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+});
+
+// Whole-workbook loading tests (validation happens before the Excel extension is needed)
+test('Excel workbook loading', async () => {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quack-mcp-workbook-test-'));
+  const server = new QuackMCPServer();
+  const workbookPath = path.join(tempDir, 'monthly.xlsx');
+
+  try {
+    await fs.writeFile(workbookPath, createTestWorkbook({
+      '2025-01': [['Vendor', 'Amount'], ['Acme', 10]],
+      '2025-02': [['Vendor', 'Amount'], ['Globex', 20]],
+      Empty: []
+    }));
+
+    await test('should report available sheets when the pattern matches nothing', async () => {
+      await assert.rejects(
+        async () => server.loadWorkbook({ file_path: workbookPath, sheet_pattern: '2024-*' }),
+        { message: /No sheets matching "2024-\*".*Available sheets: 2025-01, 2025-02, Empty/ }
+      );
+    });
+
+    await test('should reject empty matching sheets', async () => {
+      await assert.rejects(
+        async () => server.loadWorkbook({ file_path: workbookPath, sheet_pattern: 'empty' }),
+        { message: /All matching sheets are empty: Empty/ }
+      );
+    });
+
+    await test('should validate the load mode', async () => {
+      await assert.rejects(
+        async () => server.loadWorkbook({ file_path: workbookPath, mode: 'merge' }),
+        { message: /Unsupported mode "merge"/ }
+      );
+    });
+
+    // Loading needs the Excel extension, which may not be downloadable where the tests run
+    const excelAvailable = await (server as any).executeQuery('INSTALL excel; LOAD excel').then(() => true, () => false);
+
+    await test('should load every sheet as a separate table and report replaced tables', async t => {
+      if (!excelAvailable) return t.skip('Excel extension not available');
+      await (server as any).executeQuery('CREATE TABLE "2025_01" AS SELECT 1 AS stale');
+
+      const result = await server.loadWorkbook({ file_path: workbookPath });
+      const output = result.content[0].text;
+
+      assert(output.includes('Successfully loaded 2 sheets'));
+      assert(output.includes('"2025-01" → table "2025_01" (1 rows)'));
+      assert(output.includes('"2025-02" → table "2025_02" (1 rows)'));
+      assert(output.includes('⚠️ Replaced existing tables: "2025_01"'));
+      assert(output.includes('⚠️ Skipped empty sheets: Empty'));
+
+      const rows = await (server as any).executeQuery('SELECT Vendor, Amount FROM "2025_02"');
+      assert.deepStrictEqual(rows.map((row: any) => [row.Vendor, Number(row.Amount)]), [['Globex', 20]]);
+    });
+
+    await test('should union sheets without clashing with an existing sheet_name column', async t => {
+      if (!excelAvailable) return t.skip('Excel extension not available');
+      const clashPath = path.join(tempDir, 'regions.xlsx');
+      await fs.writeFile(clashPath, createTestWorkbook({
+        North: [['sheet_name', 'Amount'], ['north-ledger', 10]],
+        South: [['sheet_name', 'Amount'], ['south-ledger', 20]]
+      }));
+
+      const result = await server.loadWorkbook({ file_path: clashPath, mode: 'union', table_name: 'regions' });
+      const output = result.content[0].text;
+      assert(output.includes('into table "regions" (sheet name in column "sheet_name_2")'));
+      assert(output.includes('because a sheet already has a "sheet_name" column'));
+
+      const rows = await (server as any).executeQuery('SELECT sheet_name_2, sheet_name FROM regions ORDER BY sheet_name_2');
+      assert.deepStrictEqual(rows.map((row: any) => [row.sheet_name_2, row.sheet_name]), [['North', 'north-ledger'], ['South', 'south-ledger']]);
+    });
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,121 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { QuackMCPServer } from '../src/index.ts';
+
+const report = [
+  'ACME BANK - DAILY BALANCE REPORT           PAGE 1',
+  'ACCT  NAME            BALANCE  OPENED',
+  '0001  Alice Smith     1200.50  2020-01-05',
+  '',
+  '0002  Bob "Jr" Lee      -3.25  2021-07-30',
+  '0103  Carol,Ann         10.00  2019-11-11',
+].join('\n');
+
+describe('QuackMCPServer Fixed-Width Tests', () => {
+  let tempDir: string;
+  let server: QuackMCPServer;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quack-mcp-fixed-width-'));
+    server = new QuackMCPServer();
+  });
+
+  const createTempFile = async (filename: string, content: string): Promise<string> => {
+    const filePath = path.join(tempDir, filename);
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  const queryRows = async (query: string) => {
+    const result = await (server as any).queryCSV({ query });
+    return JSON.parse(result.content[0].text);
+  };
+
+  it('should load columns from a column spec', async () => {
+    const filePath = await createTempFile('balances.txt', report);
+
+    const result = await server.loadFixedWidth({
+      file_path: filePath,
+      skip: 1,
+      header: true,
+      columns: [
+        { name: 'account', start: 1, width: 4 },
+        { name: 'name', start: 7, width: 16 },
+        { name: 'balance', start: 23, width: 7, type: 'DECIMAL(10,2)' },
+        { name: 'opened', start: 32, type: 'DATE' }
+      ]
+    });
+
+    const text = result.content[0].text;
+    assert.ok(text.includes('Successfully loaded fixed-width file'));
+    assert.ok(text.includes('- balance: 23-29 (DECIMAL(10,2))'));
+    assert.ok(text.includes('- opened: 32-end (DATE)'));
+
+    const rows = await queryRows(`SELECT account, name, balance::DOUBLE as balance, strftime(opened, '%Y-%m-%d') as opened FROM balances ORDER BY account`);
+    assert.deepStrictEqual(rows, [
+      { account: '0001', name: 'Alice Smith', balance: 1200.5, opened: '2020-01-05' },
+      { account: '0002', name: 'Bob "Jr" Lee', balance: -3.25, opened: '2021-07-30' },
+      { account: '0103', name: 'Carol,Ann', balance: 10, opened: '2019-11-11' }
+    ]);
+  });
+
+  it('should infer columns and types from whitespace alignment', async () => {
+    const filePath = await createTempFile('balances.txt', report);
+
+    const result = await server.loadFixedWidth({ file_path: filePath, table_name: 'inferred', skip: 1, header: true });
+    assert.ok(result.content[0].text.includes('inferred from whitespace alignment'));
+
+    const schema = await (server as any).executeQuery('DESCRIBE inferred');
+    assert.deepStrictEqual(
+      schema.map((column: any) => [column.column_name, column.column_type]),
+      [['ACCT', 'VARCHAR'], ['NAME', 'VARCHAR'], ['BALANCE', 'DOUBLE'], ['OPENED', 'DATE']]
+    );
+
+    const rows = await queryRows('SELECT "ACCT", "NAME", "BALANCE" FROM inferred ORDER BY "ACCT"');
+    assert.deepStrictEqual(rows, [
+      { ACCT: '0001', NAME: 'Alice Smith', BALANCE: 1200.5 },
+      { ACCT: '0002', NAME: 'Bob "Jr" Lee', BALANCE: -3.25 },
+      { ACCT: '0103', NAME: 'Carol,Ann', BALANCE: 10 }
+    ]);
+
+    const tables = await (server as any).listTables();
+    assert.ok(tables.content[0].text.includes('"loaded_by": "load_fixed_width"'));
+  });
+
+  it('should report values that do not match the requested type', async () => {
+    const filePath = await createTempFile('codes.txt', 'A1  10\nB2  xx\nC3  30\n');
+
+    const result = await server.loadFixedWidth({
+      file_path: filePath,
+      columns: [
+        { name: 'code', start: 1, width: 4 },
+        { name: 'quantity', start: 5, type: 'INTEGER' }
+      ]
+    });
+
+    assert.ok(result.content[0].text.includes('1 values in quantity could not be converted to INTEGER'));
+  });
+
+  it('should reject invalid column specs', async () => {
+    const filePath = await createTempFile('codes.txt', 'A1  10\n');
+
+    await assert.rejects(
+      async () => {
+        await server.loadFixedWidth({
+          file_path: filePath,
+          columns: [
+            { name: 'code', start: 1 },
+            { name: 'quantity', start: 5 }
+          ]
+        });
+      },
+      {
+        name: 'McpError',
+        message: /Failed to load fixed-width file.*only the last column may omit width/
+      }
+    );
+  });
+});
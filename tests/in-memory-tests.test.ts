@@ -3,8 +3,9 @@ import assert from 'node:assert';
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
+import zlib from 'zlib';
 import { QuackMCPServer } from '../src/index.ts';
-import { createTestCSVContent, sampleCreditCardData, sampleTransactionData, sampleAnomalyData } from './test-data.ts';
+import { createTestCSVContent, createZipBuffer, sampleCreditCardData, sampleTransactionData, sampleAnomalyData } from './test-data.ts';
 
 describe('QuackMCPServer In-Memory CSV Tests', () => {
   let tempDir: string;
@@ -187,6 +188,1036 @@ describe('QuackMCPServer In-Memory CSV Tests', () => {
     });
   });
 
+  describe('CSV Dialect Sniffing', () => {
+    it('should detect semicolon delimiters, header and date format', async () => {
+      const filePath = path.join(tempDir, 'european.csv');
+      await fs.writeFile(filePath, 'Datum;Betrag;Haendler\n2025-05-01;12,50;"Cafe ""Nord"""\n2025-05-02;7,25;Bakery\n');
+
+      const result = await server.sniffCSV({ file_path: filePath });
+      const text = result.content[0].text;
+
+      assert.ok(text.includes('Delimiter: ";"'));
+      assert.ok(text.includes('Header row: yes'));
+      assert.ok(text.includes('Date format: "%Y-%m-%d"'));
+      assert.ok(text.includes('Datum (DATE)'));
+      assert.ok(text.includes('"delimiter": ";"'));
+      assert.ok(text.includes('"quote": "\\""'));
+      assert.ok(text.includes('"escape": "\\""'));
+      assert.ok(text.includes('"dateformat": "%Y-%m-%d"'));
+    });
+
+    it('should suggest arguments that load the file as sniffed', async () => {
+      const filePath = path.join(tempDir, 'export-with-banner.csv');
+      await fs.writeFile(filePath, 'Exported 2025-06-01\nWhen|Payee\n01/05/2025 09:30:00|Grocer\n13/05/2025 18:05:00|Bakery\n');
+
+      const result = await server.sniffCSV({ file_path: filePath });
+      const suggested = JSON.parse(result.content[0].text.split('Suggested load_csv arguments:\n')[1].split('\n\n')[0]);
+      assert.deepStrictEqual(suggested, { file_path: filePath, delimiter: '|', header: true, skip: 1, timestampformat: '%d/%m/%Y %H:%M:%S' });
+
+      await server.loadCSV({ ...suggested, table_name: 'banner_export' });
+      const rows = await (server as any).executeQuery('SELECT typeof("When") AS type, Payee FROM banner_export ORDER BY "When"');
+      assert.deepStrictEqual(rows.map((row: any) => [row.type, row.Payee]), [['TIMESTAMP', 'Grocer'], ['TIMESTAMP', 'Bakery']]);
+    });
+
+    it('should reject invalid sample sizes', async () => {
+      await assert.rejects(
+        async () => server.sniffCSV({ file_path: 'any.csv', sample_size: 0 }),
+        { name: 'McpError', message: /sample_size must be a positive integer or -1/ }
+      );
+    });
+  });
+
+  describe('CSV Loading Options', () => {
+    it('should apply skip, nullstr, dateformat and column types', async () => {
+      const filePath = path.join(tempDir, 'bank-export.csv');
+      await fs.writeFile(filePath,
+        'Exported from MyBank\n' +
+        'Generated 2025-06-01\n' +
+        'Date;Payee;Amount;Reference\n' +
+        '01/05/2025;Grocer;-42.10;00123\n' +
+        '02/05/2025;N/A;-;00456\n');
+
+      await server.loadCSV({
+        file_path: filePath,
+        table_name: 'bank_export',
+        delimiter: ';',
+        skip: 2,
+        nullstr: ['N/A', '-'],
+        dateformat: '%d/%m/%Y',
+        column_types: { Reference: 'VARCHAR', Amount: 'DECIMAL(10,2)' }
+      });
+
+      const queryResult = await (server as any).queryCSV({
+        query: "SELECT strftime(Date, '%Y-%m-%d') as day, Payee, Reference FROM bank_export ORDER BY Date"
+      });
+      const rows = JSON.parse(queryResult.content[0].text);
+      assert.deepStrictEqual(rows, [
+        { day: '2025-05-01', Payee: 'Grocer', Reference: '00123' },
+        { day: '2025-05-02', Payee: null, Reference: '00456' }
+      ]);
+
+      const nullAmounts = await (server as any).queryCSV({
+        query: 'SELECT COUNT(*) as missing FROM bank_export WHERE Amount IS NULL'
+      });
+      assert.strictEqual(JSON.parse(nullAmounts.content[0].text)[0].missing, 1);
+    });
+
+    it('should rename columns with column_names', async () => {
+      const filePath = path.join(tempDir, 'no-header.csv');
+      await fs.writeFile(filePath, '1,Alice\n2,Bob\n');
+
+      await server.loadCSV({ file_path: filePath, table_name: 'people', header: false, column_names: ['id', 'name'] });
+
+      const queryResult = await (server as any).queryCSV({ query: 'SELECT name FROM people WHERE id = 2' });
+      assert.strictEqual(JSON.parse(queryResult.content[0].text)[0].name, 'Bob');
+    });
+
+    it('should reject unsafe option values', async () => {
+      const csvPath = await createTempCSVFile('options.csv', sampleTransactionData);
+
+      await assert.rejects(
+        async () => server.loadCSV({ file_path: csvPath, column_types: { amount: "DOUBLE'); DROP TABLE x; --" } }),
+        { name: 'McpError', message: /Invalid type/ }
+      );
+      await assert.rejects(
+        async () => server.loadCSV({ file_path: csvPath, quote: '""' }),
+        { name: 'McpError', message: /quote must be a single character/ }
+      );
+      await assert.rejects(
+        async () => (server as any).loadMultipleCSVs({ pattern_or_files: [csvPath], skip: -1 }),
+        { name: 'McpError', message: /skip must be a non-negative integer/ }
+      );
+    });
+  });
+
+  describe('Rejected Rows', () => {
+    it('should load good rows and keep rejects in a companion table', async () => {
+      const filePath = path.join(tempDir, 'statement.csv');
+      await fs.writeFile(filePath,
+        'Date,Name,Amount\n' +
+        '2025-05-01,Coffee,-4.50\n' +
+        '2025-05-02,Books,abc\n' +
+        '2025-05-03,Rent,-1200.00,extra\n' +
+        '2025-05-04,Refund,20.00\n');
+
+      const loadResult = await server.loadCSV({
+        file_path: filePath,
+        table_name: 'statement',
+        column_types: { Amount: 'DOUBLE' },
+        store_rejects: true
+      });
+
+      const loadText = loadResult.content[0].text;
+      assert.ok(loadText.includes('Rejected 2 malformed rows'));
+      assert.ok(loadText.includes('statement_rejects'));
+      assert.ok(loadText.includes('Total Rows: 2'));
+
+      const rejects = await server.inspectRejects({ table_name: 'statement' });
+      const rejectText = rejects.content[0].text;
+      assert.ok(rejectText.includes('Total rejected: 2'));
+      assert.ok(rejectText.includes('line 3'));
+      assert.ok(rejectText.includes('Raw: 2025-05-02,Books,abc'));
+      assert.ok(rejectText.includes('Raw: 2025-05-03,Rent,-1200.00,extra'));
+
+      const castRejects = (await server.inspectRejects({ table_name: 'statement', error_type: 'CAST' })).content[0].text;
+      assert.ok(castRejects.includes('Total rejected (CAST): 1'));
+      assert.ok(!castRejects.includes('TOO MANY COLUMNS'));
+      assert.ok(!castRejects.includes('Raw: 2025-05-03,Rent,-1200.00,extra'));
+    });
+
+    const rejectTables = async () => (await (server as any).executeQuery(
+      "SELECT table_name FROM duckdb_tables() WHERE table_name LIKE 'quack_reject_%' OR table_name LIKE '%_rejects' ORDER BY table_name"
+    )).map((row: any) => row.table_name);
+
+    it('should drop the rejects table along with a load that kept no rows', async () => {
+      const filePath = path.join(tempDir, 'all-bad.csv');
+      await fs.writeFile(filePath, 'Date,Amount\n2025-05-01,abc\n2025-05-02,def\n');
+
+      await assert.rejects(
+        async () => server.loadCSV({ file_path: filePath, table_name: 'all_bad', column_types: { Amount: 'DOUBLE' }, store_rejects: true }),
+        (error: any) => {
+          assert.match(error.message, /CSV file is empty or contains no valid data/);
+          assert.match(error.message, /Rejected 2 malformed rows:\n  - CAST: 2/);
+          assert.doesNotMatch(error.message, /all_bad_rejects|inspect_rejects/);
+          return true;
+        }
+      );
+      assert.deepStrictEqual(await rejectTables(), []);
+    });
+
+    it('should drop DuckDB\'s rejects tables when the load fails', async () => {
+      const csvPath = await createTempCSVFile('failing.csv', sampleTransactionData);
+      const readOptions = (server as any).buildReadCSVOptions({ store_rejects: true }).join(', ');
+
+      await assert.rejects(
+        (server as any).runLoadQuery(`CREATE TABLE failing AS SELECT * FROM read_csv('${csvPath}', ${readOptions}) WHERE error('load failed') IS NULL`, 'failing'),
+        /load failed/
+      );
+      assert.deepStrictEqual(await rejectTables(), []);
+    });
+
+    it('should add the rejects of an append to those of earlier loads', async () => {
+      const mayPath = path.join(tempDir, 'may.csv');
+      const junePath = path.join(tempDir, 'june.csv');
+      await fs.writeFile(mayPath, 'Date,Amount\n2025-05-01,-4.50\n2025-05-02,abc\n');
+      await fs.writeFile(junePath, 'Date,Amount\n2025-06-01,-8.00\n2025-06-02,def\n2025-06-03,ghi\n');
+
+      await server.loadCSV({ file_path: mayPath, table_name: 'spending', column_types: { Amount: 'DOUBLE' }, store_rejects: true });
+      const appendResult = await server.loadCSV({ file_path: junePath, append_to_table: 'spending', column_types: { Amount: 'DOUBLE' }, store_rejects: true });
+      assert.ok(appendResult.content[0].text.includes('Rejected 2 malformed rows (stored in table "spending_rejects")'));
+
+      const rejects = (await server.inspectRejects({ table_name: 'spending' })).content[0].text;
+      assert.ok(rejects.includes('Total rejected: 3'));
+      assert.ok(rejects.includes('Raw: 2025-05-02,abc'));
+    });
+
+    it('should not overwrite a rejects table that no load created', async () => {
+      const filePath = path.join(tempDir, 'notes.csv');
+      await fs.writeFile(filePath, 'Date,Amount\n2025-05-01,abc\n2025-05-02,-1.00\n');
+      await (server as any).executeQuery("CREATE TABLE notes_rejects AS SELECT 'keep me' AS note");
+
+      await assert.rejects(
+        async () => server.loadCSV({ file_path: filePath, table_name: 'notes', column_types: { Amount: 'DOUBLE' }, store_rejects: true }),
+        { name: 'McpError', message: /Table "notes_rejects" already exists and was not created by a load with store_rejects/ }
+      );
+      assert.deepStrictEqual(await (server as any).executeQuery('SELECT note FROM notes_rejects'), [{ note: 'keep me' }]);
+    });
+
+    it('should report clean loads', async () => {
+      const csvPath = await createTempCSVFile('clean.csv', sampleTransactionData);
+
+      const loadResult = await server.loadCSV({ file_path: csvPath, store_rejects: true });
+      assert.ok(loadResult.content[0].text.includes('No rows were rejected'));
+    });
+
+    it('should explain when no rejects were captured', async () => {
+      await assert.rejects(
+        async () => server.inspectRejects({ table_name: 'never_loaded' }),
+        { name: 'McpError', message: /No rejected rows recorded for table "never_loaded"/ }
+      );
+    });
+  });
+
+  describe('Compressed and Archived Files', () => {
+    it('should load a gzip compressed CSV and report its sizes', async () => {
+      const csvContent = createTestCSVContent(sampleTransactionData);
+      const filePath = path.join(tempDir, 'transactions.csv.gz');
+      await fs.writeFile(filePath, zlib.gzipSync(csvContent));
+
+      const loadResult = await server.loadCSV({ file_path: filePath });
+      const loadText = loadResult.content[0].text;
+
+      assert.ok(loadText.includes('as table "transactions"'));
+      assert.ok(loadText.includes(`gzip: `));
+      assert.ok(loadText.includes(`${(Buffer.byteLength(csvContent) / 1024).toFixed(1)} KB uncompressed`));
+
+      const queryResult = await (server as any).queryCSV({ query: 'SELECT COUNT(*) as total FROM transactions' });
+      assert.strictEqual(JSON.parse(queryResult.content[0].text)[0].total, sampleTransactionData.length);
+    });
+
+    it('should load every CSV member of a zip archive', async () => {
+      const archivePath = path.join(tempDir, 'export.zip');
+      await fs.writeFile(archivePath, createZipBuffer({
+        'export/january.csv': 'id,amount\n1,10\n2,20\n',
+        'export/february.csv': 'id,amount\n3,30\n',
+        'export/README.md': '# Monthly export\n'
+      }, { deflate: true }));
+
+      const loadResult = await server.loadCSV({ file_path: archivePath });
+      assert.ok(loadResult.content[0].text.includes('zip archive, 3 members'));
+
+      const queryResult = await (server as any).queryCSV({ query: 'SELECT COUNT(*) as total, SUM(amount) as amount FROM export' });
+      const [row] = JSON.parse(queryResult.content[0].text);
+      assert.strictEqual(row.total, 3);
+      assert.strictEqual(row.amount, 60);
+    });
+
+    it('should load a single archive member by pattern', async () => {
+      const archivePath = path.join(tempDir, 'bundle.zip');
+      await fs.writeFile(archivePath, createZipBuffer({
+        'orders.csv': 'id,total\n1,5\n',
+        'customers.csv': 'id,name\n1,Alice\n2,Bob\n'
+      }));
+
+      await server.loadCSV({ file_path: archivePath, table_name: 'customers', archive_member: 'cust*' });
+
+      const queryResult = await (server as any).queryCSV({ query: 'SELECT name FROM customers ORDER BY id' });
+      assert.deepStrictEqual(JSON.parse(queryResult.content[0].text), [{ name: 'Alice' }, { name: 'Bob' }]);
+    });
+
+    it('should reject archive member patterns that match nothing', async () => {
+      const archivePath = path.join(tempDir, 'bundle.zip');
+      await fs.writeFile(archivePath, createZipBuffer({ 'orders.csv': 'id,total\n1,5\n' }));
+
+      await assert.rejects(
+        async () => server.loadCSV({ file_path: archivePath, archive_member: 'missing*.csv' }),
+        { name: 'McpError', message: /No members matching "missing\*\.csv" in archive/ }
+      );
+    });
+
+    it('should list compression details and archive members when discovering files', async () => {
+      await fs.writeFile(path.join(tempDir, 'plain.csv'), 'id\n1\n');
+      await fs.writeFile(path.join(tempDir, 'daily.csv.gz'), zlib.gzipSync('id\n1\n2\n'));
+      await fs.writeFile(path.join(tempDir, 'archive.zip'), createZipBuffer({ 'inner/data.csv': 'id\n1\n' }));
+
+      const result = await (server as any).discoverCSVFiles({ pattern: path.join(tempDir, '*') });
+      const text = result.content[0].text;
+
+      assert.ok(text.includes('Compressed files and archives: 2'));
+      assert.ok(text.includes('gzip: '));
+      assert.ok(text.includes('zip archive, 1 member:'));
+      assert.ok(text.includes('• inner/data.csv'));
+    });
+  });
+
+  describe('Appending Files', () => {
+    it('should append new rows by column name and report schema differences', async () => {
+      const january = path.join(tempDir, 'january.csv');
+      const february = path.join(tempDir, 'february.csv');
+      await fs.writeFile(january, 'Date,Name,Amount\n2025-01-05,Coffee,-4.50\n2025-01-06,Rent,-1200.00\n');
+      await fs.writeFile(february, 'Date,Amount,Category\n2025-02-05,-4.75,Food\n2025-02-06,n/a,Other\n');
+
+      await server.loadCSV({ file_path: january, table_name: 'statements' });
+      const appendResult = await server.loadCSV({ file_path: february, append_to_table: 'statements' });
+      const appendText = appendResult.content[0].text;
+
+      assert.ok(appendText.includes('Appended 2 rows to existing table "statements" (now 4 rows)'));
+      assert.ok(appendText.includes('Added columns: Category (VARCHAR)'));
+      assert.ok(appendText.includes('Missing columns (NULL for appended rows): Name'));
+      assert.ok(appendText.includes('Type conflict: Amount is VARCHAR'));
+      assert.ok(appendText.includes('1 could not be converted'));
+
+      const queryResult = await (server as any).queryCSV({
+        query: 'SELECT COUNT(*) as total, COUNT(Category) as categorized, COUNT(Name) as named, COUNT(Amount) as amounts FROM statements'
+      });
+      const [row] = JSON.parse(queryResult.content[0].text);
+      assert.deepStrictEqual(row, { total: 4, categorized: 2, named: 2, amounts: 3 });
+
+      const tables = await (server as any).listTables();
+      assert.ok(tables.content[0].text.includes('"files_loaded": 2'));
+    });
+
+    it('should skip files already loaded into the table', async () => {
+      await fs.writeFile(path.join(tempDir, 'statement_01.csv'), 'Date,Amount\n2025-01-05,-4.50\n');
+      await fs.writeFile(path.join(tempDir, 'statement_02.csv'), 'Date,Amount\n2025-02-05,-5.00\n');
+      const pattern = path.join(tempDir, 'statement_*.csv');
+
+      await (server as any).loadMultipleCSVs({ pattern_or_files: pattern, table_name: 'statements' });
+      await fs.writeFile(path.join(tempDir, 'statement_03.csv'), 'Date,Amount\n2025-03-05,-6.00\n');
+
+      const appendResult = await (server as any).loadMultipleCSVs({
+        pattern_or_files: pattern,
+        append_to_table: 'statements',
+        skip_loaded_files: true
+      });
+      assert.ok(appendResult.content[0].text.includes('Appended 1 rows'));
+      assert.ok(appendResult.content[0].text.includes('Skipped 2 already loaded files'));
+      assert.ok(appendResult.content[0].text.includes('Columns match the existing table'));
+
+      const repeatResult = await (server as any).loadMultipleCSVs({
+        pattern_or_files: pattern,
+        append_to_table: 'statements',
+        skip_loaded_files: true
+      });
+      assert.ok(repeatResult.content[0].text.includes('All 3 files are already loaded into table "statements"'));
+
+      const queryResult = await (server as any).queryCSV({ query: 'SELECT COUNT(*) as total FROM statements' });
+      assert.strictEqual(JSON.parse(queryResult.content[0].text)[0].total, 3);
+    });
+
+    it('should reject appends to tables that do not exist', async () => {
+      const csvPath = await createTempCSVFile('transactions.csv', sampleTransactionData);
+
+      await assert.rejects(
+        async () => server.loadCSV({ file_path: csvPath, append_to_table: 'missing' }),
+        { name: 'McpError', message: /Cannot append to "missing": table does not exist/ }
+      );
+    });
+
+    it('should sanitize append_to_table and stage rows clear of the user\'s tables', async () => {
+      const csvPath = await createTempCSVFile('transactions.csv', sampleTransactionData);
+      await server.loadCSV({ file_path: csvPath, table_name: 'ledger' });
+      await (server as any).executeQuery('CREATE TABLE ledger_append_staging AS SELECT 42 AS kept');
+
+      for (const pattern_or_files of [[csvPath], path.join(tempDir, 'trans*.csv')]) {
+        await assert.rejects(
+          async () => (server as any).loadMultipleCSVs({ pattern_or_files, append_to_table: 'ledger" CASCADE; --' }),
+          { name: 'McpError', message: /Cannot append to "ledger__CASCADE____": table does not exist/ }
+        );
+      }
+
+      const appendResult = await server.loadCSV({ file_path: csvPath, append_to_table: 'ledger' });
+      assert.ok(appendResult.content[0].text.includes(`Appended ${sampleTransactionData.length} rows to existing table "ledger"`));
+
+      const staging = await (server as any).executeQuery('SELECT kept FROM ledger_append_staging');
+      assert.deepStrictEqual(staging, [{ kept: 42 }]);
+    });
+  });
+
+  describe('Hive Partitioning', () => {
+    const createPartitionedExport = async () => {
+      for (const [year, month, amount] of [['2024', '12', 5], ['2025', '05', 10], ['2025', '06', 20]] as const) {
+        const directory = path.join(tempDir, `year=${year}`, `month=${month}`);
+        await fs.mkdir(directory, { recursive: true });
+        await fs.writeFile(path.join(directory, 'part-0.csv'), `id,amount\n1,${amount}\n`);
+      }
+      return path.join(tempDir, '*', '*', 'part-*.csv');
+    };
+
+    it('should turn partition directories into typed columns', async () => {
+      const pattern = await createPartitionedExport();
+
+      const loadResult = await (server as any).loadMultipleCSVs({
+        pattern_or_files: pattern,
+        table_name: 'lake',
+        hive_partitioning: true,
+        hive_types: { month: 'INTEGER' }
+      });
+      assert.ok(loadResult.content[0].text.includes('Hive partition columns: year (BIGINT), month (INTEGER)'));
+
+      const queryResult = await (server as any).queryCSV({
+        query: 'SELECT year, SUM(amount) as total FROM lake WHERE month < 12 GROUP BY year ORDER BY year'
+      });
+      assert.deepStrictEqual(JSON.parse(queryResult.content[0].text), [{ year: 2025, total: 30 }]);
+    });
+
+    it('should summarize partitions when discovering files', async () => {
+      const pattern = await createPartitionedExport();
+
+      const result = await (server as any).discoverCSVFiles({ pattern });
+      const text = result.content[0].text;
+
+      assert.ok(text.includes('- year: 2 distinct values (2024: 1 file, 2025: 2 files)'));
+      assert.ok(text.includes('- month: 3 distinct values (05: 1 file, 06: 1 file, 12: 1 file)'));
+    });
+
+    it('should require hive_partitioning for hive_types', async () => {
+      await assert.rejects(
+        async () => (server as any).loadMultipleCSVs({ pattern_or_files: path.join(tempDir, '*.csv'), hive_types: { year: 'INTEGER' } }),
+        { name: 'McpError', message: /hive_types and hive_types_autocast require hive_partitioning: true/ }
+      );
+    });
+  });
+
+  describe('Lazy Views', () => {
+    it('should register a view that reads the source file on every query', async () => {
+      const csvPath = await createTempCSVFile('anomalies.csv', sampleAnomalyData);
+
+      const loadResult = await server.loadCSV({ file_path: csvPath, table_name: 'lazy', materialize: false });
+      assert.ok(loadResult.content[0].text.includes('Registered as a view'));
+
+      const views = await (server as any).executeQuery(`SELECT view_name FROM duckdb_views() WHERE view_name = 'lazy'`);
+      assert.strictEqual(views.length, 1);
+
+      const describeResult = await (server as any).describeTable({ table_name: 'lazy' });
+      assert.ok(describeResult.content[0].text.includes('View over source files'));
+
+      const anomalyResult = await server.detectAnomalies({ table_name: 'lazy' });
+      assert.ok(anomalyResult.content[0].text.length > 0);
+
+      const tables = await (server as any).listTables();
+      assert.ok(tables.content[0].text.includes('"mode": "view"'));
+
+      // New rows in the file show up without reloading
+      await fs.writeFile(csvPath, createTestCSVContent([...sampleAnomalyData, { id: 11, value: 12, category: 'normal' }]));
+      const queryResult = await (server as any).queryCSV({ query: 'SELECT COUNT(*) as total FROM lazy' });
+      assert.strictEqual(JSON.parse(queryResult.content[0].text)[0].total, sampleAnomalyData.length + 1);
+    });
+
+    it('should switch a name between view and table', async () => {
+      const csvPath = await createTempCSVFile('transactions.csv', sampleTransactionData);
+
+      await server.loadCSV({ file_path: csvPath, table_name: 'switching', materialize: false });
+      await server.loadCSV({ file_path: csvPath, table_name: 'switching' });
+      const tables = await (server as any).executeQuery(`SELECT table_name FROM duckdb_tables() WHERE table_name = 'switching'`);
+      assert.strictEqual(tables.length, 1);
+
+      await server.loadCSV({ file_path: csvPath, table_name: 'switching', materialize: false });
+      const views = await (server as any).executeQuery(`SELECT view_name FROM duckdb_views() WHERE view_name = 'switching'`);
+      assert.strictEqual(views.length, 1);
+    });
+
+    it('should reject options that need materialized data', async () => {
+      const csvPath = await createTempCSVFile('transactions.csv', sampleTransactionData);
+
+      await assert.rejects(
+        async () => server.loadCSV({ file_path: csvPath, materialize: false, store_rejects: true }),
+        { name: 'McpError', message: /store_rejects requires materialize: true/ }
+      );
+
+      await server.loadCSV({ file_path: csvPath, table_name: 'lazy', materialize: false });
+      await assert.rejects(
+        async () => server.loadCSV({ file_path: csvPath, append_to_table: 'lazy' }),
+        { name: 'McpError', message: /Cannot append to "lazy": it is a view/ }
+      );
+    });
+  });
+
+  describe('Watching Source Files', () => {
+    const captureNotifications = () => {
+      const messages: any[] = [];
+      (server as any).server.sendLoggingMessage = async (params: any) => {
+        messages.push(params);
+      };
+      return messages;
+    };
+
+    it('should append new files that match a watched pattern', async () => {
+      await createTempCSVFile('watch_1.csv', sampleTransactionData.slice(0, 3));
+      const messages = captureNotifications();
+
+      const loadResult = await (server as any).loadMultipleCSVs({
+        pattern_or_files: path.join(tempDir, 'watch_*.csv'),
+        table_name: 'watched',
+        watch: true,
+        watch_mode: 'append'
+      });
+      assert.ok(loadResult.content[0].text.includes('Watching'));
+
+      await createTempCSVFile('watch_2.csv', sampleTransactionData.slice(3, 5));
+      await (server as any).checkWatchedTable('watched');
+
+      assert.strictEqual(messages.length, 1);
+      assert.strictEqual(messages[0].level, 'info');
+      assert.ok(messages[0].data.includes('appended: 1 new (watch_2.csv)'));
+      assert.ok(messages[0].data.includes('Rows: 3 → 5'));
+
+      // Nothing changed since the last check
+      await (server as any).checkWatchedTable('watched');
+      assert.strictEqual(messages.length, 1);
+
+      const tables = await (server as any).listTables();
+      assert.ok(tables.content[0].text.includes('append every 30s'));
+
+      await (server as any).unwatchTable({ table_name: 'watched' });
+      assert.strictEqual((server as any).watchers.size, 0);
+    });
+
+    it('should reload a watched file when it changes', async () => {
+      const csvPath = await createTempCSVFile('watched.csv', sampleTransactionData.slice(0, 2));
+      const messages = captureNotifications();
+
+      await server.loadCSV({ file_path: csvPath, watch: true, watch_interval_seconds: 5 });
+
+      await fs.writeFile(csvPath, createTestCSVContent(sampleTransactionData));
+      await (server as any).checkWatchedTable('watched');
+
+      assert.strictEqual(messages.length, 1);
+      assert.ok(messages[0].data.includes('reloaded: 1 changed (watched.csv)'));
+
+      const queryResult = await (server as any).queryCSV({ query: 'SELECT COUNT(*) as total FROM watched' });
+      assert.strictEqual(JSON.parse(queryResult.content[0].text)[0].total, sampleTransactionData.length);
+
+      await (server as any).unwatchTable({ table_name: 'watched' });
+    });
+
+    it('should report refresh failures as error notifications', async () => {
+      const csvPath = await createTempCSVFile('fragile.csv', sampleTransactionData);
+      const messages = captureNotifications();
+
+      await server.loadCSV({ file_path: csvPath, watch: true });
+
+      await fs.writeFile(csvPath, 'id,amount\n');
+      await (server as any).checkWatchedTable('fragile');
+
+      assert.strictEqual(messages[0].level, 'error');
+      assert.ok(messages[0].data.includes('Refreshing table "fragile" failed'));
+
+      await (server as any).unwatchTable({ table_name: 'fragile' });
+    });
+
+    it('should reject watch options that cannot be replayed', async () => {
+      const csvPath = await createTempCSVFile('transactions.csv', sampleTransactionData);
+
+      await assert.rejects(
+        async () => server.loadCSV({ file_path: csvPath, watch: true, materialize: false }),
+        { name: 'McpError', message: /watch is not needed with materialize: false/ }
+      );
+      await assert.rejects(
+        async () => server.loadCSV({ file_path: csvPath, watch: true, watch_interval_seconds: 0 }),
+        { name: 'McpError', message: /watch_interval_seconds must be a positive integer/ }
+      );
+      await assert.rejects(
+        async () => (server as any).unwatchTable({ table_name: 'transactions' }),
+        { name: 'McpError', message: /is not being watched/ }
+      );
+    });
+  });
+
+  describe('Reloading Tables', () => {
+    it('should replay the original load options and report changes', async () => {
+      const csvPath = path.join(tempDir, 'ledger.csv');
+      await fs.writeFile(csvPath, 'id;amount\n1;10\n2;20\n');
+
+      await server.loadCSV({ file_path: csvPath, table_name: 'ledger', delimiter: ';', column_types: { amount: 'DOUBLE' } });
+
+      await fs.writeFile(csvPath, 'id;amount;memo\n1;10;a\n2;20;b\n3;30;c\n');
+      const result = await server.reloadTable({ table_name: 'ledger' });
+      const text = result.content[0].text;
+
+      assert.ok(text.includes('by replaying load_csv'));
+      assert.ok(text.includes('Rows: 2 → 3 (+1)'));
+      assert.ok(text.includes('Added columns: memo (VARCHAR)'));
+
+      const queryResult = await (server as any).queryCSV({ query: 'SELECT SUM(amount) as total, typeof(SUM(amount)) as type FROM ledger' });
+      assert.deepStrictEqual(JSON.parse(queryResult.content[0].text), [{ total: 60, type: 'DOUBLE' }]);
+    });
+
+    it('should replay appends after the original load', async () => {
+      const januaryPath = await createTempCSVFile('january.csv', sampleTransactionData.slice(0, 2));
+      const februaryPath = await createTempCSVFile('february.csv', sampleTransactionData.slice(2, 5));
+
+      await server.loadCSV({ file_path: januaryPath, table_name: 'statements' });
+      await server.loadCSV({ file_path: februaryPath, append_to_table: 'statements' });
+
+      const result = await server.reloadTable({ table_name: 'statements' });
+      assert.ok(result.content[0].text.includes('load_csv and 1 append'));
+      assert.ok(result.content[0].text.includes('Rows: 5 → 5 (+0)'));
+      assert.ok(result.content[0].text.includes('Schema unchanged'));
+
+      const tables = await (server as any).listTables();
+      assert.ok(tables.content[0].text.includes('"loaded_by": "load_csv"'));
+    });
+
+    it('should reject tables that were not loaded from files', async () => {
+      await (server as any).executeQuery('CREATE TABLE scratch AS SELECT 1 as id');
+
+      await assert.rejects(
+        async () => server.reloadTable({ table_name: 'scratch' }),
+        { name: 'McpError', message: /no load to replay/ }
+      );
+    });
+  });
+
+  describe('Attached Databases', () => {
+    const createDuckDBFile = async (filename: string): Promise<string> => {
+      const databasePath = path.join(tempDir, filename);
+      await (server as any).executeQuery(`ATTACH '${databasePath}' AS seed`);
+      await (server as any).executeQuery(`CREATE TABLE seed.orders AS SELECT range AS id, range * 10.0 AS amount FROM range(1, 6)`);
+      await (server as any).executeQuery(`CREATE SCHEMA seed.archive`);
+      await (server as any).executeQuery(`CREATE TABLE seed.archive.orders_2023 AS SELECT 1 AS id`);
+      await (server as any).executeQuery(`DETACH seed`);
+      return databasePath;
+    };
+
+    it('should attach a DuckDB file read-only and expose its tables', async () => {
+      // Lets the INSERT below reach DuckDB, which enforces the read-only attachment
+      server = new QuackMCPServer({ queryPolicy: 'allow_ddl' });
+      const databasePath = await createDuckDBFile('shop.duckdb');
+
+      const result = await server.attachDatabase({ file_path: databasePath });
+      const text = result.content[0].text;
+      assert.ok(text.includes('attached DuckDB database'));
+      assert.ok(text.includes('as "shop" (read-only)'));
+      assert.ok(text.includes('- shop.orders'));
+      assert.ok(text.includes('- shop.archive.orders_2023'));
+
+      const queryResult = await (server as any).queryCSV({ query: 'SELECT SUM(amount) as total FROM shop.orders' });
+      assert.strictEqual(JSON.parse(queryResult.content[0].text)[0].total, 150);
+
+      const describeResult = await (server as any).describeTable({ table_name: 'shop.orders' });
+      assert.ok(describeResult.content[0].text.includes('Attached duckdb database (read-only)'));
+
+      const anomalyResult = await server.detectAnomalies({ table_name: 'shop.orders' });
+      assert.ok(anomalyResult.content[0].text.includes('shop.orders'));
+
+      const tables = await (server as any).listTables();
+      assert.ok(tables.content[0].text.includes('"table_name": "shop.orders"'));
+      assert.ok(tables.content[0].text.includes('attached duckdb (read-only) table'));
+
+      await assert.rejects(
+        async () => (server as any).queryCSV({ query: 'INSERT INTO shop.orders VALUES (6, 60)' }),
+        { name: 'McpError', message: /read-only/ }
+      );
+    });
+
+    it('should re-attach an alias with write access', async () => {
+      server = new QuackMCPServer({ queryPolicy: 'allow_ddl' });
+      const databasePath = await createDuckDBFile('warehouse.duckdb');
+
+      await server.attachDatabase({ file_path: databasePath, alias: 'wh' });
+      await server.attachDatabase({ file_path: databasePath, alias: 'wh', read_only: false });
+
+      await (server as any).queryCSV({ query: 'INSERT INTO wh.orders VALUES (6, 60)' });
+      const queryResult = await (server as any).queryCSV({ query: 'SELECT COUNT(*) as total FROM wh.orders' });
+      assert.strictEqual(JSON.parse(queryResult.content[0].text)[0].total, 6);
+    });
+
+    it('should reject files that are not databases and reserved aliases', async () => {
+      const csvPath = await createTempCSVFile('transactions.csv', sampleTransactionData);
+      const databasePath = await createDuckDBFile('main.duckdb');
+
+      await assert.rejects(
+        async () => server.attachDatabase({ file_path: csvPath }),
+        { name: 'McpError', message: /is not a SQLite or DuckDB database file/ }
+      );
+      await assert.rejects(
+        async () => server.attachDatabase({ file_path: databasePath }),
+        { name: 'McpError', message: /Alias "main" is already in use/ }
+      );
+    });
+  });
+
+  describe('Inline Data', () => {
+    it('should load pasted CSV text with loadCSV options', async () => {
+      const result = await server.loadInlineData({
+        data: 'Date|Merchant|Amount\n03/01/2025|Coffee Shop|4.50\n03/02/2025|Grocery|82.10\n',
+        table_name: 'pasted',
+        dateformat: '%m/%d/%Y',
+        column_types: { Amount: 'DECIMAL(10,2)' }
+      });
+
+      assert.ok(result.content[0].text.includes('Successfully loaded inline CSV data'));
+      assert.ok(result.content[0].text.includes('TABLE INSPECTION: "pasted"'));
+
+      const queryResult = await (server as any).queryCSV({
+        query: 'SELECT typeof("Date") as date_type, typeof(Amount) as amount_type, SUM(Amount)::DOUBLE as total FROM pasted GROUP BY ALL'
+      });
+      assert.deepStrictEqual(JSON.parse(queryResult.content[0].text), [
+        { date_type: 'DATE', amount_type: 'DECIMAL(10,2)', total: 86.6 }
+      ]);
+    });
+
+    it('should detect pasted JSON without keeping it for reloads', async () => {
+      const result = await server.loadInlineData({
+        data: JSON.stringify([{ sku: 'A1', qty: 3 }, { sku: 'B2', qty: 5 }]),
+        table_name: 'inventory'
+      });
+      assert.ok(result.content[0].text.includes('inline JSON data'));
+
+      assert.strictEqual((server as any).loadedTables.get('inventory').loads[0].args.data, undefined);
+      await assert.rejects(
+        async () => server.reloadTable({ table_name: 'inventory' }),
+        { name: 'McpError', message: /Table "inventory" was loaded from inline data, which is not kept/ }
+      );
+
+      const queryResult = await (server as any).queryCSV({ query: 'SELECT SUM(qty) as total FROM inventory' });
+      assert.strictEqual(JSON.parse(queryResult.content[0].text)[0].total, 8);
+    });
+
+    it('should reject empty data', async () => {
+      await assert.rejects(
+        async () => server.loadInlineData({ data: 'id,amount\n', table_name: 'empty' }),
+        { name: 'McpError', message: /Inline data contains no rows/ }
+      );
+      await assert.rejects(
+        async () => server.loadInlineData({ data: '  ', table_name: 'blank' }),
+        { name: 'McpError', message: /data must be a non-empty string/ }
+      );
+    });
+  });
+
+  describe('Bank Export Presets', () => {
+    const queryRows = async (query: string) => {
+      const result = await (server as any).queryCSV({ query });
+      return JSON.parse(result.content[0].text);
+    };
+
+    it('should normalize a Chase export with month-first dates', async () => {
+      const csvPath = path.join(tempDir, 'chase.csv');
+      await fs.writeFile(csvPath, [
+        'Transaction Date,Post Date,Description,Category,Type,Amount,Memo',
+        '03/04/2025,03/05/2025,STARBUCKS STORE 123,Food & Drink,Sale,-4.50,',
+        '03/06/2025,03/07/2025,Payment Thank You,,Payment,250.00,Autopay'
+      ].join('\n'));
+
+      const result = await server.loadCSV({ file_path: csvPath, table_name: 'chase', preset: 'chase' });
+      assert.ok(result.content[0].text.includes('Normalized with preset "chase"'));
+
+      const rows = await queryRows(`SELECT strftime("Date", '%Y-%m-%d') as date, "Name", "Memo", "Category", "Amount"::DOUBLE as amount FROM chase ORDER BY "Date"`);
+      assert.deepStrictEqual(rows, [
+        { date: '2025-03-04', Name: 'STARBUCKS STORE 123', Memo: null, Category: 'Food & Drink', amount: -4.5 },
+        { date: '2025-03-06', Name: 'Payment Thank You', Memo: 'Autopay', Category: null, amount: 250 }
+      ]);
+
+      const report = await server.optimizeExpenses({ table_name: 'chase' });
+      assert.ok(report.content[0].text.length > 0);
+    });
+
+    it('should flip the sign of Amex charges and fill missing optional columns', async () => {
+      const csvPath = path.join(tempDir, 'amex.csv');
+      await fs.writeFile(csvPath, 'Date,Description,Amount\n02/01/2025,NETFLIX.COM,15.99\n02/03/2025,AUTOPAY PAYMENT,-120.00\n');
+
+      await server.loadCSV({ file_path: csvPath, table_name: 'amex', preset: 'amex' });
+
+      const rows = await queryRows('SELECT "Name", "Memo", "Amount"::DOUBLE as amount FROM amex ORDER BY "Date"');
+      assert.deepStrictEqual(rows, [
+        { Name: 'NETFLIX.COM', Memo: null, amount: -15.99 },
+        { Name: 'AUTOPAY PAYMENT', Memo: null, amount: 120 }
+      ]);
+    });
+
+    it('should combine Capital One debit and credit columns', async () => {
+      const csvPath = path.join(tempDir, 'capital_one.csv');
+      await fs.writeFile(csvPath, [
+        'Transaction Date,Posted Date,Card No.,Description,Category,Debit,Credit',
+        '2025-01-10,2025-01-11,1234,SHELL OIL,Gas/Automotive,"1,045.20",',
+        '2025-01-12,2025-01-12,1234,CAPITAL ONE PAYMENT,Payment/Credit,,500.00'
+      ].join('\n'));
+
+      await server.loadCSV({ file_path: csvPath, table_name: 'capital_one', preset: 'capital_one' });
+
+      const rows = await queryRows('SELECT "Name", "Amount"::DOUBLE as amount FROM capital_one ORDER BY "Date"');
+      assert.deepStrictEqual(rows, [
+        { Name: 'SHELL OIL', amount: -1045.2 },
+        { Name: 'CAPITAL ONE PAYMENT', amount: 500 }
+      ]);
+    });
+
+    it('should read user presets from the presets file', async () => {
+      const presetsPath = path.join(tempDir, 'presets.json');
+      await fs.writeFile(presetsPath, JSON.stringify({
+        sparkasse: {
+          date: 'Buchungstag',
+          name: 'Beguenstigter',
+          memo: 'Verwendungszweck',
+          amount: 'Betrag',
+          read_options: { delimiter: ';', dateformat: '%d.%m.%Y', table_name: 'ignored' }
+        }
+      }));
+      const csvPath = path.join(tempDir, 'konto.csv');
+      await fs.writeFile(csvPath, 'Buchungstag;Beguenstigter;Verwendungszweck;Betrag\n05.02.2025;REWE;Einkauf;-23.40\n');
+
+      const previous = process.env.QUACK_MCP_PRESETS;
+      process.env.QUACK_MCP_PRESETS = presetsPath;
+      try {
+        await server.loadCSV({ file_path: csvPath, table_name: 'konto', preset: 'sparkasse' });
+      } finally {
+        if (previous === undefined) delete process.env.QUACK_MCP_PRESETS;
+        else process.env.QUACK_MCP_PRESETS = previous;
+      }
+
+      const rows = await queryRows(`SELECT strftime("Date", '%Y-%m-%d') as date, "Name", "Memo", "Amount"::DOUBLE as amount FROM konto`);
+      assert.deepStrictEqual(rows, [{ date: '2025-02-05', Name: 'REWE', Memo: 'Einkauf', amount: -23.4 }]);
+    });
+
+    it('should reject unknown presets and exports without the preset columns', async () => {
+      const csvPath = await createTempCSVFile('transactions.csv', sampleTransactionData);
+
+      await assert.rejects(
+        async () => server.loadCSV({ file_path: csvPath, preset: 'unknown_bank' }),
+        { name: 'McpError', message: /Unknown preset "unknown_bank"\. Available presets: chase, amex/ }
+      );
+      await assert.rejects(
+        async () => server.loadCSV({ file_path: csvPath, preset: 'capital_one' }),
+        { name: 'McpError', message: /Preset "capital_one" expects columns "Transaction Date", "Debit", "Credit", which the file does not have/ }
+      );
+    });
+  });
+
+  describe('File Provenance', () => {
+    const queryRows = async (query: string) => {
+      const result = await (server as any).queryCSV({ query });
+      return JSON.parse(result.content[0].text);
+    };
+
+    it('should record per-file row counts and highlight files without rows', async () => {
+      await fs.writeFile(path.join(tempDir, 'sales_01.csv'), 'date,amount\n2025-01-05,10\n2025-01-06,20\n');
+      await fs.writeFile(path.join(tempDir, 'sales_02.csv'), 'date,amount\n');
+      await fs.writeFile(path.join(tempDir, 'sales_03.csv'), 'date,amount,region\n2025-03-05,30,North\n');
+
+      const loadResult = await (server as any).loadMultipleCSVs({
+        pattern_or_files: path.join(tempDir, 'sales_*.csv'),
+        table_name: 'sales',
+        union_by_name: true
+      });
+      const text = loadResult.content[0].text;
+
+      assert.ok(text.includes('Per-file breakdown (stored in table "sales_provenance")'));
+      assert.ok(text.includes(`- ${path.join(tempDir, 'sales_01.csv')}: 2 rows, 2 columns`));
+      assert.ok(text.includes(`⚠️ ${path.join(tempDir, 'sales_02.csv')}: 0 rows, 2 columns (contributed no rows)`));
+      assert.ok(text.includes('1 of 3 files contributed no rows'));
+
+      const provenance = await queryRows(`
+        SELECT regexp_extract(file, '[^/]+$') as file, row_count, columns, file_modified IS NOT NULL as has_mtime, loaded_at IS NOT NULL as has_loaded_at
+        FROM sales_provenance ORDER BY file
+      `);
+      assert.deepStrictEqual(provenance, [
+        { file: 'sales_01.csv', row_count: 2, columns: ['date', 'amount'], has_mtime: true, has_loaded_at: true },
+        { file: 'sales_02.csv', row_count: 0, columns: ['date', 'amount'], has_mtime: true, has_loaded_at: true },
+        { file: 'sales_03.csv', row_count: 1, columns: ['date', 'amount', 'region'], has_mtime: true, has_loaded_at: true }
+      ]);
+
+      // The column used for counting does not leak into the loaded table
+      const columns = await (server as any).executeQuery('DESCRIBE sales');
+      assert.deepStrictEqual(columns.map((column: any) => column.column_name), ['date', 'amount', 'region']);
+    });
+
+    it('should add appended archive members to the provenance table', async () => {
+      const january = await createTempCSVFile('january.csv', sampleTransactionData);
+      await (server as any).loadMultipleCSVs({ pattern_or_files: [january], table_name: 'statements', include_filename: true });
+
+      const archivePath = path.join(tempDir, 'later.zip');
+      await fs.writeFile(archivePath, createZipBuffer({
+        'february.csv': createTestCSVContent(sampleTransactionData.slice(0, 2)),
+        'march.csv': createTestCSVContent(sampleTransactionData.slice(0, 1))
+      }));
+      const appendResult = await (server as any).loadMultipleCSVs({
+        pattern_or_files: [archivePath],
+        append_to_table: 'statements',
+        include_filename: true
+      });
+      assert.ok(appendResult.content[0].text.includes(`- ${archivePath}/february.csv: 2 rows`));
+
+      const provenance = await queryRows('SELECT file, row_count FROM statements_provenance ORDER BY row_count DESC');
+      assert.deepStrictEqual(provenance, [
+        { file: january, row_count: sampleTransactionData.length },
+        { file: `${archivePath}/february.csv`, row_count: 2 },
+        { file: `${archivePath}/march.csv`, row_count: 1 }
+      ]);
+    });
+
+    it('should record files without row counts for views', async () => {
+      const csvPath = await createTempCSVFile('transactions.csv', sampleTransactionData);
+
+      const loadResult = await (server as any).loadMultipleCSVs({ pattern_or_files: [csvPath], table_name: 'lazy', materialize: false });
+      assert.ok(loadResult.content[0].text.includes(`- ${csvPath}: rows not counted for views`));
+
+      const provenance = await queryRows('SELECT row_count FROM lazy_provenance');
+      assert.deepStrictEqual(provenance, [{ row_count: null }]);
+    });
+  });
+
+  describe('Schema Drift', () => {
+    const createQuarterlyFiles = async () => {
+      await fs.writeFile(path.join(tempDir, 'sales_q1.csv'), 'date,product,amount\n2025-01-15,Widget,150.00\n');
+      await fs.writeFile(path.join(tempDir, 'sales_q2.csv'), 'date,product,amount\n2025-04-10,Gadget,190.00\n');
+      await fs.writeFile(path.join(tempDir, 'sales_q3.csv'), 'date,product,discount,amount\n2025-07-01,Widget,5,160.00\n');
+      return path.join(tempDir, 'sales_q*.csv');
+    };
+
+    it('should report files whose columns would be misaligned by position', async () => {
+      const pattern = await createQuarterlyFiles();
+
+      const loadResult = await (server as any).loadMultipleCSVs({ pattern_or_files: pattern, table_name: 'sales' });
+      const text = loadResult.content[0].text;
+
+      assert.ok(text.includes(`Schema drift: 1 of 3 files have different columns than ${path.join(tempDir, 'sales_q1.csv')}`));
+      assert.ok(text.includes(`- ${path.join(tempDir, 'sales_q3.csv')}: extra discount`));
+      assert.ok(text.includes('Reload with union_by_name: true'));
+    });
+
+    it('should refuse drifting files when asked and accept them by name', async () => {
+      const pattern = await createQuarterlyFiles();
+
+      await assert.rejects(
+        async () => (server as any).loadMultipleCSVs({ pattern_or_files: pattern, table_name: 'sales', fail_on_schema_drift: true }),
+        { name: 'McpError', message: /1 of 3 files have different columns than .*sales_q1\.csv, so combining them by position would misalign data/ }
+      );
+      const tables = await (server as any).executeQuery(`SELECT table_name FROM duckdb_tables() WHERE table_name = 'sales'`);
+      assert.strictEqual(tables.length, 0);
+
+      const loadResult = await (server as any).loadMultipleCSVs({
+        pattern_or_files: pattern,
+        table_name: 'sales',
+        union_by_name: true,
+        fail_on_schema_drift: true
+      });
+      assert.ok(loadResult.content[0].text.includes('Columns are matched by name'));
+
+      const queryResult = await (server as any).queryCSV({ query: 'SELECT SUM(amount) as amount, COUNT(discount) as discounted FROM sales' });
+      assert.deepStrictEqual(JSON.parse(queryResult.content[0].text), [{ amount: 500, discounted: 1 }]);
+    });
+
+    it('should flag reordered columns and confirm matching files', async () => {
+      await fs.writeFile(path.join(tempDir, 'a.csv'), 'id,name\n1,Alice\n');
+      await fs.writeFile(path.join(tempDir, 'b.csv'), 'id,name\n2,Bob\n');
+      await fs.writeFile(path.join(tempDir, 'c.csv'), 'name,id\nCarol,3\n');
+
+      const matching = await (server as any).loadMultipleCSVs({ pattern_or_files: [path.join(tempDir, 'a.csv'), path.join(tempDir, 'b.csv')] });
+      assert.ok(matching.content[0].text.includes('All 2 files have the same columns'));
+
+      const reordered = await (server as any).loadMultipleCSVs({ pattern_or_files: [path.join(tempDir, 'a.csv'), path.join(tempDir, 'c.csv')] });
+      assert.ok(reordered.content[0].text.includes(`- ${path.join(tempDir, 'c.csv')}: column order name, id`));
+    });
+  });
+
+  describe('Sampled Loading', () => {
+    const createLargeCSV = async (filename: string, rows: number): Promise<string> => {
+      const lines = ['id,amount'];
+      for (let i = 1; i <= rows; i++) lines.push(`${i},${(i % 97) * 1.5}`);
+      const filePath = path.join(tempDir, filename);
+      await fs.writeFile(filePath, lines.join('\n'));
+      return filePath;
+    };
+
+    const queryRows = async (query: string) => {
+      const result = await (server as any).queryCSV({ query });
+      return JSON.parse(result.content[0].text);
+    };
+
+    it('should load only the first rows and flag reports as approximate', async () => {
+      const csvPath = await createLargeCSV('big.csv', 5000);
+
+      const loadResult = await server.loadCSV({ file_path: csvPath, limit_rows: 100 });
+      assert.ok(loadResult.content[0].text.includes('holds a sample of the first 100 rows'));
+
+      const rows = await queryRows('SELECT COUNT(*) as total, MIN(id) as first, MAX(id) as last FROM big');
+      assert.deepStrictEqual(rows, [{ total: 100, first: 1, last: 100 }]);
+
+      const analysis = await (server as any).analyzeCSV({ table_name: 'big' });
+      assert.ok(analysis.content[0].text.includes('Approximate: table "big" holds a sample of the first 100 rows'));
+
+      const anomalies = await server.detectAnomalies({ table_name: 'big' });
+      assert.ok(anomalies.content[0].text.includes('Approximate: table "big"'));
+
+      const tables = await (server as any).listTables();
+      assert.ok(tables.content[0].text.includes('"sample": "sample of the first 100 rows"'));
+    });
+
+    it('should draw the same reservoir sample for the same seed', async () => {
+      const csvPath = await createLargeCSV('big.csv', 5000);
+
+      await server.loadCSV({ file_path: csvPath, table_name: 'first_draw', sample_rows: 250 });
+      await server.loadCSV({ file_path: csvPath, table_name: 'second_draw', sample_rows: 250 });
+
+      const [first] = await queryRows('SELECT COUNT(*) as total, SUM(id) as ids FROM first_draw');
+      const [second] = await queryRows('SELECT COUNT(*) as total, SUM(id) as ids FROM second_draw');
+      assert.strictEqual(first.total, 250);
+      assert.deepStrictEqual(first, second);
+
+      const describeResult = await (server as any).describeTable({ table_name: 'first_draw' });
+      assert.ok(describeResult.content[0].text.includes('random sample of 250 rows (seed 42)'));
+    });
+
+    it('should sample a percentage of multiple files', async () => {
+      await createLargeCSV('part_1.csv', 1000);
+      await createLargeCSV('part_2.csv', 1000);
+
+      const loadResult = await (server as any).loadMultipleCSVs({
+        pattern_or_files: path.join(tempDir, 'part_*.csv'),
+        table_name: 'parts',
+        sample_percent: 10,
+        sample_seed: 7
+      });
+      const text = loadResult.content[0].text;
+      assert.ok(text.includes('Per-file breakdown of the sampled rows'));
+      assert.ok(text.includes('holds a random 10% sample (seed 7)'));
+
+      const [row] = await queryRows('SELECT COUNT(*) as total FROM parts');
+      assert.strictEqual(row.total, 200);
+      const [provenance] = await queryRows('SELECT SUM(row_count) as total FROM parts_provenance');
+      assert.strictEqual(provenance.total, 200);
+    });
+
+    it('should reject conflicting or invalid sample options', async () => {
+      const csvPath = await createLargeCSV('big.csv', 10);
+
+      await assert.rejects(
+        async () => server.loadCSV({ file_path: csvPath, limit_rows: 5, sample_rows: 5 }),
+        { name: 'McpError', message: /Use only one of limit_rows, sample_rows and sample_percent/ }
+      );
+      await assert.rejects(
+        async () => server.loadCSV({ file_path: csvPath, sample_percent: 150 }),
+        { name: 'McpError', message: /sample_percent must be a number greater than 0 and at most 100/ }
+      );
+      await assert.rejects(
+        async () => server.loadCSV({ file_path: csvPath, limit_rows: 5, materialize: false }),
+        { name: 'McpError', message: /require materialize: true/ }
+      );
+    });
+  });
+
   // Note: In a real implementation, you'd clean up the temp directory
   // For this example, the OS will clean it up eventually
 });
\ No newline at end of file
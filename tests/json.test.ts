@@ -0,0 +1,131 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import zlib from 'zlib';
+import { QuackMCPServer } from '../src/index.ts';
+import { createZipBuffer } from './test-data.ts';
+
+describe('QuackMCPServer JSON Tests', () => {
+  let tempDir: string;
+  let server: QuackMCPServer;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quack-mcp-json-'));
+    server = new QuackMCPServer();
+  });
+
+  const createTempFile = async (filename: string, content: string): Promise<string> => {
+    const filePath = path.join(tempDir, filename);
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  it('should load a JSON array file', async () => {
+    const filePath = await createTempFile('orders.json', JSON.stringify([
+      { id: 1, customer: 'Alice', total: 25.5 },
+      { id: 2, customer: 'Bob', total: 10 }
+    ]));
+
+    const result = await server.loadJSON({ pattern_or_files: filePath });
+
+    assert.ok(result.content[0].text.includes('Successfully loaded JSON file'));
+    assert.ok(result.content[0].text.includes('TABLE INSPECTION: "orders"'));
+  });
+
+  it('should load newline-delimited JSON files by glob', async () => {
+    await createTempFile('events_1.ndjson', '{"event":"login","user":"a"}\n{"event":"logout","user":"a"}\n');
+    await createTempFile('events_2.ndjson', '{"event":"login","user":"b"}\n');
+
+    await server.loadJSON({
+      pattern_or_files: path.join(tempDir, 'events_*.ndjson'),
+      table_name: 'events',
+      format: 'newline_delimited'
+    });
+
+    const queryResult = await (server as any).queryCSV({ query: 'SELECT COUNT(*) as total FROM events' });
+    assert.strictEqual(JSON.parse(queryResult.content[0].text)[0].total, 3);
+  });
+
+  it('should flatten nested objects into dotted columns', async () => {
+    const filePath = await createTempFile('users.json', JSON.stringify([
+      { id: 1, profile: { name: 'Alice', address: { city: 'Austin' } } },
+      { id: 2, profile: { name: 'Bob', address: { city: 'Boston' } } }
+    ]));
+
+    await server.loadJSON({ pattern_or_files: filePath, flatten_nested: true });
+
+    const queryResult = await (server as any).queryCSV({
+      query: 'SELECT "profile.name" as name, "profile.address.city" as city FROM users ORDER BY id'
+    });
+    const rows = JSON.parse(queryResult.content[0].text);
+    assert.deepStrictEqual(rows, [
+      { name: 'Alice', city: 'Austin' },
+      { name: 'Bob', city: 'Boston' }
+    ]);
+  });
+
+  it('should rename flattened columns that clash with existing columns', async () => {
+    const filePath = await createTempFile('accounts.json', JSON.stringify([
+      { 'user.id': 'legacy-1', 'USER.ID_2': 'legacy-2', user: { id: 1, name: 'Ada' } }
+    ]));
+
+    const result = await server.loadJSON({ pattern_or_files: filePath, table_name: 'accounts', flatten_nested: true });
+    assert.ok(result.content[0].text.includes('⚠️ Renamed "user.id" to "user.id_3" because the table already has a column with that name'));
+
+    const queryResult = await (server as any).queryCSV({ query: 'SELECT "user.id", "USER.ID_2", "user.id_3", "user.name" FROM accounts' });
+    assert.deepStrictEqual(JSON.parse(queryResult.content[0].text), [{ 'user.id': 'legacy-1', 'USER.ID_2': 'legacy-2', 'user.id_3': 1, 'user.name': 'Ada' }]);
+  });
+
+  it('should load compressed and archived JSON files', async () => {
+    await fs.writeFile(path.join(tempDir, 'events_1.ndjson.gz'), zlib.gzipSync('{"event":"login"}\n{"event":"logout"}\n'));
+    await fs.writeFile(path.join(tempDir, 'events_2.zip'), createZipBuffer({
+      'events_2.ndjson': '{"event":"login"}\n',
+      'notes.txt': 'not json'
+    }));
+
+    const result = await server.loadJSON({
+      pattern_or_files: path.join(tempDir, 'events_*'),
+      table_name: 'events',
+      format: 'newline_delimited',
+      include_filename: true
+    });
+
+    assert.ok(result.content[0].text.includes('Compression:'));
+
+    const queryResult = await (server as any).queryCSV({
+      query: 'SELECT COUNT(*) as total, COUNT(*) FILTER (WHERE filename LIKE \'%events_2.zip/events_2.ndjson\') as from_archive FROM events'
+    });
+    const [row] = JSON.parse(queryResult.content[0].text);
+    assert.strictEqual(row.total, 3);
+    assert.strictEqual(row.from_archive, 1);
+  });
+
+  it('should reject unsupported formats', async () => {
+    const filePath = await createTempFile('data.json', '[]');
+
+    await assert.rejects(
+      async () => {
+        await server.loadJSON({ pattern_or_files: filePath, format: 'xml' });
+      },
+      {
+        name: 'McpError',
+        message: /Failed to load JSON.*Unsupported JSON format/
+      }
+    );
+  });
+
+  it('should drop empty JSON tables', async () => {
+    const filePath = await createTempFile('empty.json', '[]');
+
+    await assert.rejects(
+      async () => {
+        await server.loadJSON({ pattern_or_files: filePath });
+      },
+      {
+        name: 'McpError'
+      }
+    );
+  });
+});
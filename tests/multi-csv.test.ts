@@ -1,27 +1,19 @@
 import { strict as assert } from 'assert';
 import { test } from 'node:test';
-import Database from 'duckdb';
+import { DuckDBInstance } from '@duckdb/node-api';
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
 
 test('Multi-CSV functionality tests', async () => {
-  const db = new Database.Database(':memory:');
+  const connection = await (await DuckDBInstance.create(':memory:')).connect();
   
   // Create a temporary directory for test files
   const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quack-mcp-test-'));
   
   // Helper function to execute queries
-  const executeQuery = (query: string): Promise<any[]> => {
-    return new Promise((resolve, reject) => {
-      db.all(query, (err, result) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(result);
-        }
-      });
-    });
+  const executeQuery = async (query: string): Promise<any[]> => {
+    return (await connection.runAndReadAll(query)).getRowObjectsJS();
   };
 
   // Helper function to create test CSV files
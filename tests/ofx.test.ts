@@ -0,0 +1,182 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { QuackMCPServer } from '../src/index.ts';
+
+const sgmlStatement = (transactions: string) => `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+SECURITY:NONE
+ENCODING:USASCII
+CHARSET:1252
+COMPRESSION:NONE
+OLDFILEUID:NONE
+NEWFILEUID:NONE
+
+<OFX>
+<SIGNONMSGSRSV1>
+<SONRS>
+<STATUS>
+<CODE>0
+<SEVERITY>INFO
+</STATUS>
+<DTSERVER>20250305120000[-5:EST]
+<LANGUAGE>ENG
+</SONRS>
+</SIGNONMSGSRSV1>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<TRNUID>1
+<STMTRS>
+<CURDEF>USD
+<BANKACCTFROM>
+<BANKID>123456789
+<ACCTID>000111222
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20250301
+<DTEND>20250305
+${transactions}
+</BANKTRANLIST>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>
+`;
+
+const sgmlTransaction = (fitid: string, date: string, amount: string, name: string, memo?: string) => `<STMTTRN>
+<TRNTYPE>${amount.startsWith('-') ? 'DEBIT' : 'CREDIT'}
+<DTPOSTED>${date}120000[-5:EST]
+<TRNAMT>${amount}
+<FITID>${fitid}
+<NAME>${name}
+${memo ? `<MEMO>${memo}\n` : ''}</STMTTRN>`;
+
+describe('QuackMCPServer OFX Tests', () => {
+  let tempDir: string;
+  let server: QuackMCPServer;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quack-mcp-ofx-'));
+    server = new QuackMCPServer();
+  });
+
+  const createTempFile = async (filename: string, content: string): Promise<string> => {
+    const filePath = path.join(tempDir, filename);
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  it('should load an SGML OFX statement', async () => {
+    const filePath = await createTempFile('checking.ofx', sgmlStatement([
+      sgmlTransaction('T1', '20250301', '-4.50', 'STARBUCKS #123', 'Card purchase'),
+      sgmlTransaction('T2', '20250302', '-82.10', 'WHOLE FOODS &amp; MARKET'),
+      sgmlTransaction('T3', '20250303', '1500.00', 'PAYROLL')
+    ].join('\n')));
+
+    const result = await server.loadOFX({ file_path: filePath });
+    const text = result.content[0].text;
+
+    assert.ok(text.includes('Successfully loaded 3 transactions'));
+    assert.ok(text.includes('as table "checking"'));
+    assert.ok(text.includes('- 000111222: 3 transactions (2025-03-01 to 2025-03-03)'));
+
+    const queryResult = await (server as any).queryCSV({
+      query: 'SELECT strftime("Date", \'%Y-%m-%d\') as date, "Name", "Memo", "Amount"::DOUBLE as amount, "Type", "FITID", "AccountId" FROM checking ORDER BY "Date"'
+    });
+    assert.deepStrictEqual(JSON.parse(queryResult.content[0].text), [
+      { date: '2025-03-01', Name: 'STARBUCKS #123', Memo: 'Card purchase', amount: -4.5, Type: 'DEBIT', FITID: 'T1', AccountId: '000111222' },
+      { date: '2025-03-02', Name: 'WHOLE FOODS & MARKET', Memo: null, amount: -82.1, Type: 'DEBIT', FITID: 'T2', AccountId: '000111222' },
+      { date: '2025-03-03', Name: 'PAYROLL', Memo: null, amount: 1500, Type: 'CREDIT', FITID: 'T3', AccountId: '000111222' }
+    ]);
+
+    const report = await server.optimizeExpenses({ table_name: 'checking' });
+    assert.ok(report.content[0].text.length > 0);
+  });
+
+  it('should load an XML QFX credit card statement', async () => {
+    const filePath = await createTempFile('card.qfx', `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <CREDITCARDMSGSRSV1>
+    <CCSTMTTRNRS>
+      <CCSTMTRS>
+        <CURDEF>USD</CURDEF>
+        <CCACCTFROM><ACCTID>4111XXXXXXXX1111</ACCTID></CCACCTFROM>
+        <BANKTRANLIST>
+          <STMTTRN>
+            <TRNTYPE>DEBIT</TRNTYPE>
+            <DTPOSTED>20250210</DTPOSTED>
+            <TRNAMT>-15,99</TRNAMT>
+            <FITID>2025021001</FITID>
+            <PAYEE><NAME>Café Netflix</NAME></PAYEE>
+          </STMTTRN>
+        </BANKTRANLIST>
+      </CCSTMTRS>
+    </CCSTMTTRNRS>
+  </CREDITCARDMSGSRSV1>
+</OFX>
+`);
+
+    await server.loadOFX({ file_path: filePath, table_name: 'card' });
+
+    const queryResult = await (server as any).queryCSV({ query: 'SELECT "Name", "Amount"::DOUBLE as amount, "AccountId" FROM card' });
+    assert.deepStrictEqual(JSON.parse(queryResult.content[0].text), [
+      { Name: 'Café Netflix', amount: -15.99, AccountId: '4111XXXXXXXX1111' }
+    ]);
+  });
+
+  it('should read amounts with thousands separators and decimal commas', async () => {
+    const filePath = await createTempFile('savings.ofx', sgmlStatement([
+      sgmlTransaction('T1', '20250301', '1,234.56', 'BONUS'),
+      sgmlTransaction('T2', '20250302', '-1.234,56', 'TUITION'),
+      sgmlTransaction('T3', '20250303', '-12,5', 'LUNCH'),
+      sgmlTransaction('T4', '20250304', '1,234,567.89', 'HOUSE SALE')
+    ].join('\n')));
+
+    await server.loadOFX({ file_path: filePath, table_name: 'savings' });
+
+    const queryResult = await (server as any).queryCSV({ query: 'SELECT "FITID", "Amount"::DOUBLE as amount FROM savings ORDER BY "FITID"' });
+    assert.deepStrictEqual(JSON.parse(queryResult.content[0].text), [
+      { FITID: 'T1', amount: 1234.56 },
+      { FITID: 'T2', amount: -1234.56 },
+      { FITID: 'T3', amount: -12.5 },
+      { FITID: 'T4', amount: 1234567.89 }
+    ]);
+  });
+
+  it('should drop transactions repeated across overlapping downloads', async () => {
+    await createTempFile('march_1.ofx', sgmlStatement([
+      sgmlTransaction('T1', '20250301', '-4.50', 'STARBUCKS'),
+      sgmlTransaction('T2', '20250302', '-9.99', 'SPOTIFY')
+    ].join('\n')));
+    await createTempFile('march_2.ofx', sgmlStatement([
+      sgmlTransaction('T2', '20250302', '-9.99', 'SPOTIFY'),
+      sgmlTransaction('T3', '20250304', '-30.00', 'SHELL OIL')
+    ].join('\n')));
+
+    const result = await server.loadOFX({ file_path: path.join(tempDir, 'march_*.ofx') });
+    assert.ok(result.content[0].text.includes('as table "ofx_transactions"'));
+    assert.ok(result.content[0].text.includes('Dropped 1 duplicate transactions'));
+
+    const queryResult = await (server as any).queryCSV({ query: 'SELECT COUNT(*) as total FROM ofx_transactions' });
+    assert.strictEqual(JSON.parse(queryResult.content[0].text)[0].total, 3);
+  });
+
+  it('should reject files that are not OFX', async () => {
+    const filePath = await createTempFile('statement.ofx', 'Date,Name,Amount\n2025-03-01,Coffee,-4.50\n');
+
+    await assert.rejects(
+      async () => {
+        await server.loadOFX({ file_path: filePath });
+      },
+      {
+        name: 'McpError',
+        message: /Failed to load OFX.*no <OFX> element found/
+      }
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { QuackMCPServer } from '../src/index.ts';
+
+describe('QuackMCPServer Output Format Tests', () => {
+  let server: QuackMCPServer;
+
+  beforeEach(async () => {
+    server = new QuackMCPServer();
+    await (server as any).executeQuery(`
+      CREATE TABLE payments AS SELECT * FROM (VALUES
+        (1::BIGINT, 'Rent | April', 1200.5::DECIMAL(10,2), DATE '2024-04-01', TIMESTAMP '2024-04-01 09:30:00'),
+        (2::BIGINT, 'Coffee, "large"', 3.25::DECIMAL(10,2), DATE '2024-04-02', NULL)
+      ) t(id, name, amount, paid_on, processed_at)
+    `);
+  });
+
+  const query = async (args: any) => (await (server as any).queryCSV(args)).content[0].text;
+
+  it('should render an aligned markdown table with values formatted by column type', async () => {
+    const text = await query({ query: 'SELECT * FROM payments ORDER BY id', format: 'markdown' });
+
+    assert.strictEqual(text, [
+      '|  id | name            |  amount | paid_on    | processed_at        |',
+      '| --: | --------------- | ------: | ---------- | ------------------- |',
+      '|   1 | Rent \\| April   | 1200.50 | 2024-04-01 | 2024-04-01 09:30:00 |',
+      '|   2 | Coffee, "large" |    3.25 | 2024-04-02 | NULL                |',
+    ].join('\n'));
+  });
+
+  it('should render CSV with quoting and JSON lines', async () => {
+    const csv = await query({ query: 'SELECT id, name, amount, paid_on, processed_at FROM payments ORDER BY id', format: 'csv' });
+    assert.strictEqual(csv, [
+      'id,name,amount,paid_on,processed_at',
+      '1,Rent | April,1200.50,2024-04-01,2024-04-01 09:30:00',
+      '2,"Coffee, ""large""",3.25,2024-04-02,',
+    ].join('\n'));
+
+    const jsonl = await query({ query: 'SELECT id, name FROM payments ORDER BY id', format: 'jsonl' });
+    assert.deepStrictEqual(jsonl.split('\n').map((line: string) => JSON.parse(line)), [
+      { id: 1, name: 'Rent | April' },
+      { id: 2, name: 'Coffee, "large"' },
+    ]);
+  });
+
+  it('should print wide DECIMAL values with all their digits', async () => {
+    const sql = "SELECT 12345678901234567890.1234567890::DECIMAL(38,10) AS total, -0.05::DECIMAL(4,2) AS fee, [1.10::DECIMAL(5,2)] AS parts";
+    assert.strictEqual(await query({ query: sql, format: 'csv' }), 'total,fee,parts\n12345678901234567890.1234567890,-0.05,[1.1]');
+    assert.deepStrictEqual(JSON.parse(await query({ query: sql })), [{ total: 12345678901234567000, fee: -0.05, parts: [1.1] }]);
+  });
+
+  it('should keep pretty-printed JSON as the default', async () => {
+    const text = await query({ query: 'SELECT id FROM payments ORDER BY id' });
+    assert.strictEqual(text, JSON.stringify([{ id: 1 }, { id: 2 }], null, 2));
+  });
+
+  it('should format truncated pages and keep their cursor', async () => {
+    const result = await (server as any).queryCSV({ query: 'SELECT id, amount FROM payments ORDER BY id', format: 'csv', max_rows: 1 });
+    assert.strictEqual(result.content[0].text, 'id,amount\n1,1200.50');
+
+    const cursor = result.content[1].text.match(/cursor "([^"]+)"/)[1];
+    const next = await (server as any).queryCSV({ cursor, format: 'markdown' });
+    assert.ok(next.content[0].text.includes('|   2 |   3.25 |'));
+  });
+
+  it('should format describe_table and list_tables output', async () => {
+    const schema = await (server as any).describeTable({ table_name: 'payments', format: 'csv' });
+    assert.ok(schema.content[0].text.startsWith('Schema for table "payments":\ncolumn_name,column_type,null,key,default,extra\n'));
+    assert.ok(schema.content[0].text.includes('amount,"DECIMAL(10,2)",YES,,,'));
+
+    assert.ok((await (server as any).listTables({ format: 'markdown' })).content[0].text.endsWith('Loaded tables:\n_No rows_'));
+
+    await (server as any).loadInlineData({ data: 'id,name\n1,Rent', table_name: 'pasted' });
+    const tables = (await (server as any).listTables({ format: 'markdown' })).content[0].text.split('\n');
+    assert.match(tables[1], /^\| table_name \| file_path +\| files_loaded \| loaded_by +\| mode +\| sample \| watch \|$/);
+    assert.match(tables[3], /^\| pasted +\| .+ \| +0 \| load_inline_data \| table \| NULL +\| +\|$/);
+  });
+
+  it('should reject unknown formats', async () => {
+    await assert.rejects(
+      async () => (server as any).queryCSV({ query: 'SELECT 1', format: 'xml' }),
+      { name: 'McpError', message: /Invalid format "xml"\. Use one of: json, jsonl, markdown, csv/ }
+    );
+  });
+});
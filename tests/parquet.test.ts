@@ -0,0 +1,109 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { QuackMCPServer } from '../src/index.ts';
+
+describe('QuackMCPServer Parquet Tests', () => {
+  let tempDir: string;
+  let server: QuackMCPServer;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quack-mcp-parquet-'));
+    server = new QuackMCPServer();
+  });
+
+  // Use DuckDB itself to write Parquet fixtures
+  const createParquetFile = async (filename: string, selectQuery: string): Promise<string> => {
+    const filePath = path.join(tempDir, filename);
+    await (server as any).executeQuery(`COPY (${selectQuery}) TO '${filePath.replace(/'/g, "''")}' (FORMAT parquet)`);
+    return filePath;
+  };
+
+  it('should load a single Parquet file', async () => {
+    const filePath = await createParquetFile('sales.parquet',
+      `SELECT * FROM (VALUES ('2024-01-15', 'Widget A', 150.0), ('2024-01-16', 'Widget B', 200.5)) t(date, product, amount)`);
+
+    const result = await server.loadParquet({ file_path: filePath });
+
+    assert.ok(result.content[0].text.includes('Successfully loaded Parquet file'));
+    assert.ok(result.content[0].text.includes('TABLE INSPECTION: "sales"'));
+
+    const queryResult = await (server as any).queryCSV({ query: 'SELECT COUNT(*) as total FROM sales' });
+    assert.strictEqual(JSON.parse(queryResult.content[0].text)[0].total, 2);
+  });
+
+  it('should throw error for non-existent Parquet file', async () => {
+    await assert.rejects(
+      async () => {
+        await server.loadParquet({ file_path: path.join(tempDir, 'missing.parquet') });
+      },
+      {
+        name: 'McpError',
+        message: /Failed to load Parquet.*ENOENT/
+      }
+    );
+  });
+
+  it('should load multiple Parquet files by glob with union_by_name and filename', async () => {
+    await createParquetFile('q1.parquet', `SELECT 1 as id, 'North' as region`);
+    await createParquetFile('q2.parquet', `SELECT 2 as id, 'South' as region, 'online' as channel`);
+
+    const result = await server.loadMultipleParquets({
+      pattern_or_files: path.join(tempDir, 'q*.parquet'),
+      table_name: 'quarters',
+      union_by_name: true,
+      include_filename: true
+    });
+
+    assert.ok(result.content[0].text.includes('Successfully loaded 2 files as table "quarters"'));
+
+    const queryResult = await (server as any).queryCSV({
+      query: 'SELECT COUNT(*) as total, COUNT(channel) as with_channel, COUNT(DISTINCT filename) as files FROM quarters'
+    });
+    const [row] = JSON.parse(queryResult.content[0].text);
+    assert.strictEqual(row.total, 2);
+    assert.strictEqual(row.with_channel, 1);
+    assert.strictEqual(row.files, 2);
+  });
+
+  it('should load a list of Parquet files', async () => {
+    const file1 = await createParquetFile('a.parquet', `SELECT 1 as id`);
+    const file2 = await createParquetFile('b.parquet', `SELECT 2 as id`);
+
+    await server.loadMultipleParquets({ pattern_or_files: [file1, file2], table_name: 'ids' });
+
+    const queryResult = await (server as any).queryCSV({ query: 'SELECT SUM(id) as total FROM ids' });
+    assert.strictEqual(JSON.parse(queryResult.content[0].text)[0].total, 3);
+  });
+
+  it('should load hive-partitioned Parquet files with partition columns', async () => {
+    for (const region of ['north', 'south']) {
+      await fs.mkdir(path.join(tempDir, `region=${region}`));
+      await createParquetFile(path.join(`region=${region}`, 'data.parquet'), `SELECT 1 as id, 10.5 as amount`);
+    }
+
+    const result = await server.loadMultipleParquets({
+      pattern_or_files: path.join(tempDir, 'region=*', '*.parquet'),
+      table_name: 'regions',
+      hive_partitioning: true
+    });
+    assert.ok(result.content[0].text.includes('Hive partition columns: region (VARCHAR)'));
+
+    const queryResult = await (server as any).queryCSV({ query: 'SELECT region FROM regions ORDER BY region' });
+    assert.deepStrictEqual(JSON.parse(queryResult.content[0].text), [{ region: 'north' }, { region: 'south' }]);
+  });
+
+  it('should reject missing files in a Parquet file list', async () => {
+    await assert.rejects(
+      async () => {
+        await server.loadMultipleParquets({ pattern_or_files: [path.join(tempDir, 'missing.parquet')] });
+      },
+      {
+        name: 'McpError',
+        message: /Multi-Parquet loading failed.*File not found/
+      }
+    );
+  });
+});
@@ -52,13 +52,23 @@ describe('QuackMCPServer', () => {
 
         await assert.rejects(
           async () => {
-            await (server as any).queryCSV({ query: 'INVALID SQL' });
+            await (server as any).queryCSV({ query: 'SELECT * FROM broken' });
           },
           {
             name: 'McpError',
             message: /Query failed.*SQL syntax error/
           }
         );
+
+        await assert.rejects(
+          async () => {
+            await (server as any).queryCSV({ query: 'INVALID SQL' });
+          },
+          {
+            name: 'McpError',
+            message: /Query rejected: Unrecognized statement "INVALID"/
+          }
+        );
       });
     });
 
@@ -87,8 +97,20 @@ describe('QuackMCPServer', () => {
         const server = new QuackMCPServer();
 
         // Add some tables to the internal map
-        (server as any).loadedTables.set('table1', '/path/to/table1.csv');
-        (server as any).loadedTables.set('table2', '/path/to/table2.csv');
+        (server as any).loadedTables.set('table1', {
+          source: '/path/to/table1.csv',
+          files: ['/path/to/table1.csv'],
+          mode: 'table',
+          loads: [{ loader: 'load_csv', args: { file_path: '/path/to/table1.csv' } }],
+          sample: null
+        });
+        (server as any).loadedTables.set('table2', {
+          source: '/path/to/table2.csv',
+          files: ['/path/to/table2.csv'],
+          mode: 'table',
+          loads: [{ loader: 'load_csv', args: { file_path: '/path/to/table2.csv' } }],
+          sample: null
+        });
 
         const result = await (server as any).listTables();
 
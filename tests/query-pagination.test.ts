@@ -0,0 +1,102 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { QuackMCPServer } from '../src/index.ts';
+
+describe('QuackMCPServer Query Pagination Tests', () => {
+  let server: QuackMCPServer;
+
+  beforeEach(async () => {
+    server = new QuackMCPServer({ queryPolicy: 'allow_ddl' });
+    await (server as any).executeQuery('CREATE TABLE events AS SELECT range AS id, range % 7 AS bucket FROM range(2500)');
+  });
+
+  const query = (args: any) => (server as any).queryCSV(args);
+
+  it('should return small results whole, without paging information', async () => {
+    const result = await query({ query: 'SELECT id FROM events WHERE id < 3 ORDER BY id' });
+
+    assert.strictEqual(result.content.length, 1);
+    assert.deepStrictEqual(JSON.parse(result.content[0].text), [{ id: 0 }, { id: 1 }, { id: 2 }]);
+  });
+
+  it('should cap large results and page through them with cursors', async () => {
+    const first = await query({ query: 'SELECT id FROM events ORDER BY id DESC' });
+
+    assert.strictEqual(JSON.parse(first.content[0].text).length, 1000);
+    assert.deepStrictEqual(JSON.parse(first.content[0].text)[0], { id: 2499 });
+    assert.ok(first.content[1].text.includes('Truncated: showing rows 1-1000 of 2500. Call query_csv with cursor "q1:1000"'));
+
+    const cursor = first.content[1].text.match(/cursor "([^"]+)"/)[1];
+    const second = await query({ cursor });
+    const secondRows = JSON.parse(second.content[0].text);
+    assert.strictEqual(secondRows.length, 1000);
+    assert.deepStrictEqual(secondRows[0], { id: 1499 });
+
+    const nextCursor = second.content[1].text.match(/cursor "([^"]+)"/)[1];
+    const last = await query({ cursor: nextCursor, max_rows: 2000 });
+    const lastRows = JSON.parse(last.content[0].text);
+    assert.strictEqual(lastRows.length, 500);
+    assert.deepStrictEqual(lastRows[lastRows.length - 1], { id: 0 });
+    assert.ok(last.content[1].text.includes('Last page: rows 2001-2500 of 2500.'));
+  });
+
+  it('should run the query again for each page instead of copying the result', async (t) => {
+    const executeQuery = t.mock.method(server as any, 'executeQuery');
+    const first = await query({ query: 'SELECT id FROM events WHERE bucket = 0 ORDER BY id', max_rows: 100 });
+    const cursor = first.content[1].text.match(/cursor "([^"]+)"/)[1];
+    assert.deepStrictEqual(executeQuery.mock.calls.map((call: any) => call.arguments[0]), [
+      'SELECT * FROM (\nSELECT id FROM events WHERE bucket = 0 ORDER BY id\n) LIMIT 101 OFFSET 0',
+      'SELECT COUNT(*) AS total FROM (\nSELECT id FROM events WHERE bucket = 0 ORDER BY id\n)',
+    ]);
+    assert.ok(first.content[1].text.includes('showing rows 1-100 of 358'));
+
+    const second = await query({ cursor, max_rows: 100 });
+    assert.deepStrictEqual(JSON.parse(second.content[0].text)[0], { id: 700 });
+    assert.strictEqual(executeQuery.mock.callCount(), 3);
+
+    const tables = await (server as any).executeQuery("SELECT COUNT(*) as total FROM duckdb_tables() WHERE temporary");
+    assert.strictEqual(Number(tables[0].total), 0);
+
+    await query({ query: 'DELETE FROM events' });
+    await assert.rejects(query({ cursor }), { name: 'McpError', message: /past the last row of the result/ });
+  });
+
+  it('should cap statements that cannot be used as a subquery', async () => {
+    const first = await query({ query: 'CALL range(5)', max_rows: 2 });
+    assert.deepStrictEqual(JSON.parse(first.content[0].text).map((row: any) => Number(row.range)), [0, 1]);
+    assert.ok(first.content[1].text.includes('showing rows 1-2 of 5'));
+
+    const cursor = first.content[1].text.match(/cursor "([^"]+)"/)[1];
+    const second = await query({ cursor, max_rows: 2 });
+    assert.deepStrictEqual(JSON.parse(second.content[0].text).map((row: any) => Number(row.range)), [2, 3]);
+  });
+
+  it('should keep a limited number of rows of statements that cannot be used as a subquery', async () => {
+    const first = await query({ query: 'CALL range(12000)', max_rows: 6000 });
+    assert.ok(first.content[1].text.includes('showing rows 1-6000 of 12000'));
+
+    const cursor = first.content[1].text.match(/cursor "([^"]+)"/)[1];
+    const second = await query({ cursor, max_rows: 6000 });
+    const rows = JSON.parse(second.content[0].text);
+    assert.strictEqual(rows.length, 4000);
+    assert.strictEqual(Number(rows[rows.length - 1].range), 9999);
+    assert.ok(second.content[1].text.includes('Last kept page: rows 6001-10000 of 12000. Only the first 10000 rows'));
+
+    await assert.rejects(query({ cursor: cursor.replace(/:\d+$/, ':10000') }), { name: 'McpError', message: /past the last kept row \(10000 of 12000 rows are kept\)/ });
+  });
+
+  it('should reject invalid, mismatched and expired cursors', async () => {
+    await assert.rejects(query({ query: 'SELECT 1', max_rows: 0 }), { name: 'McpError', message: /max_rows must be a positive integer/ });
+    await assert.rejects(query({ cursor: 'not-a-cursor' }), { name: 'McpError', message: /Invalid cursor "not-a-cursor"/ });
+
+    const first = await query({ query: 'SELECT id FROM events', max_rows: 10 });
+    const cursor = first.content[1].text.match(/cursor "([^"]+)"/)[1];
+    await assert.rejects(query({ query: 'SELECT 1', cursor }), { name: 'McpError', message: /belongs to a different query/ });
+    await assert.rejects(query({ cursor: cursor.replace(/:\d+$/, ':5000') }), { name: 'McpError', message: /past the last row \(the result has 2500 rows\)/ });
+
+    for (let i = 0; i < 10; i++) {
+      await query({ query: `SELECT id FROM events WHERE id >= ${i}`, max_rows: 10 });
+    }
+    await assert.rejects(query({ cursor }), { name: 'McpError', message: /has expired/ });
+  });
+});
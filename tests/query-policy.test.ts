@@ -0,0 +1,191 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { QuackMCPServer } from '../src/index.ts';
+
+describe('QuackMCPServer Query Policy Tests', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quack-mcp-query-policy-'));
+  });
+
+  const createServer = async (queryPolicy?: 'read_only' | 'allow_ddl' | 'full') => {
+    const server = new QuackMCPServer(queryPolicy ? { queryPolicy } : {});
+    await (server as any).executeQuery('CREATE TABLE expenses AS SELECT * FROM (VALUES (1, 12.5), (2, 30.0)) t(id, amount)');
+    return server;
+  };
+
+  const query = async (server: QuackMCPServer, sql: string) => {
+    const result = await (server as any).queryCSV({ query: sql });
+    return JSON.parse(result.content[0].text);
+  };
+
+  const assertRejected = async (server: QuackMCPServer, sql: string, message: RegExp) => {
+    await assert.rejects(
+      async () => (server as any).queryCSV({ query: sql }),
+      { name: 'McpError', message }
+    );
+  };
+
+  it('should allow statements that read data by default', async () => {
+    const server = await createServer();
+
+    assert.deepStrictEqual(await query(server, 'SELECT COUNT(*) as total FROM expenses'), [{ total: 2 }]);
+    assert.deepStrictEqual(await query(server, 'FROM expenses SELECT SUM(amount) as total'), [{ total: 42.5 }]);
+    assert.deepStrictEqual(await query(server, 'WITH big AS (SELECT * FROM expenses WHERE amount > 20) SELECT id FROM big'), [{ id: 2 }]);
+    assert.deepStrictEqual(await query(server, "SELECT 'DROP TABLE expenses; --' as text -- DELETE FROM expenses"), [{ text: 'DROP TABLE expenses; --' }]);
+
+    for (const sql of ['DESCRIBE expenses', 'SHOW TABLES', 'SUMMARIZE expenses', "PRAGMA table_info('expenses')", 'EXPLAIN SELECT * FROM expenses']) {
+      await (server as any).queryCSV({ query: sql });
+    }
+  });
+
+  it('should reject statements that change data under the read_only policy', async () => {
+    const server = await createServer();
+
+    await assertRejected(server, 'DROP TABLE expenses', /Query rejected: DROP statements are not allowed by the read_only query policy.*QUACK_MCP_QUERY_POLICY=allow_ddl/);
+    await assertRejected(server, 'SELECT 1; DELETE FROM expenses', /DELETE statements are not allowed/);
+    await assertRejected(server, 'WITH ids AS (SELECT 1 AS id) DELETE FROM expenses WHERE id IN (SELECT id FROM ids)', /DELETE statements are not allowed/);
+    await assertRejected(server, 'EXPLAIN ANALYZE UPDATE expenses SET amount = 0', /UPDATE statements are not allowed/);
+    await assertRejected(server, 'SET threads = 1', /SET statements are not allowed by the read_only query policy.*QUACK_MCP_QUERY_POLICY=full/);
+
+    assert.deepStrictEqual(await query(server, 'SELECT COUNT(*) as total FROM expenses'), [{ total: 2 }]);
+  });
+
+  it('should not be fooled by statements hidden with quoting and comments', async () => {
+    const server = await createServer();
+
+    await assertRejected(server, "SELECT E'\\''; DROP TABLE expenses; --'", /DROP statements are not allowed/);
+    await assertRejected(server, "SELECT 1 /* /* */ ' */; DROP TABLE expenses; -- '", /DROP statements are not allowed/);
+    await assertRejected(server, "SELECT 1; -- comment\rDROP TABLE expenses", /DROP statements are not allowed/);
+    await assertRejected(server, "SELECT $a1$'$a1$; DROP TABLE expenses; --'", /DROP statements are not allowed/);
+    await assertRejected(server, "SELECT * FROM query('SELECT 1')", /The query\(\) function is not allowed by the read_only query policy/);
+
+    assert.deepStrictEqual(await query(server, 'SELECT COUNT(*) as total FROM expenses'), [{ total: 2 }]);
+  });
+
+  it('should only CALL table functions that read data and reject functions with side effects', async () => {
+    for (const policy of ['read_only', 'allow_ddl'] as const) {
+      const server = await createServer(policy);
+      const logPath = path.join(tempDir, 'logs');
+
+      await assertRejected(server, `CALL enable_logging(storage='file', storage_path='${logPath}')`, new RegExp(`The enable_logging\\(\\) function is not allowed by the ${policy} query policy because it changes logging settings.*QUACK_MCP_QUERY_POLICY=full`));
+      await assertRejected(server, 'CALL disable_logging()', /The disable_logging\(\) function is not allowed/);
+      await assertRejected(server, 'CALL truncate_duckdb_logs()', /The truncate_duckdb_logs\(\) function is not allowed/);
+      await assertRejected(server, 'CALL enable_profiling()', /The enable_profiling\(\) function is not allowed/);
+      await assertRejected(server, 'CALL my_extension_function()', new RegExp(`CALL my_extension_function\\(\\) statements are not allowed by the ${policy} query policy.*QUACK_MCP_QUERY_POLICY=full`));
+      await assertRejected(server, `SELECT * FROM enable_logging(storage='file', storage_path='${logPath}')`, /The enable_logging\(\) function is not allowed .* because it changes logging settings/);
+      await assertRejected(server, 'SELECT * FROM disable_logging()', /The disable_logging\(\) function is not allowed/);
+      await assertRejected(server, 'FROM truncate_duckdb_logs()', /The truncate_duckdb_logs\(\) function is not allowed .* because it deletes the logs/);
+      await assertRejected(server, 'SELECT * FROM "enable_profiling"()', /The enable_profiling\(\) function is not allowed/);
+      await assertRejected(server, 'SELECT setseed(0.5)', /The setseed\(\) function is not allowed .* because it changes the random seed setting/);
+
+      assert.deepStrictEqual((await query(server, 'CALL range(2)')).map((row: any) => Number(row.range)), [0, 1]);
+      assert.deepStrictEqual((await query(server, "CALL pragma_table_info('expenses')")).map((row: any) => row.name), ['id', 'amount']);
+      await query(server, "CALL duckdb_settings()");
+      await assert.rejects(fs.access(logPath));
+    }
+  });
+
+  it('should report statements it does not recognize without suggesting another policy', async () => {
+    const server = await createServer();
+
+    for (const [sql, verb] of [['INVALID SQL', 'INVALID'], ['SELEC * FROM expenses', 'SELEC'], ['SELECT 1; DORP TABLE expenses', 'DORP']]) {
+      await assert.rejects(
+        async () => (server as any).queryCSV({ query: sql }),
+        (error: any) => {
+          assert.strictEqual(error.name, 'McpError');
+          assert.match(error.message, new RegExp(`Query rejected: Unrecognized statement "${verb}"\\. Check the SQL for typos`));
+          assert.doesNotMatch(error.message, /QUACK_MCP_QUERY_POLICY/);
+          return true;
+        }
+      );
+    }
+  });
+
+  it('should not load extensions on its own to read URLs unless the policy is full', async () => {
+    for (const policy of ['read_only', 'allow_ddl'] as const) {
+      const server = await createServer(policy);
+
+      await assert.rejects(query(server, "SELECT * FROM 'https://example.com/expenses.csv'"), /requires the extension httpfs to be loaded/);
+      await assert.rejects(query(server, "SELECT * FROM read_parquet('s3://bucket/expenses.parquet')"), /requires the extension httpfs to be loaded/);
+    }
+
+    const server = await createServer('full');
+    assert.deepStrictEqual(await query(server, "SELECT current_setting('autoload_known_extensions') AS autoload"), [{ autoload: true }]);
+  });
+
+  it('should allow table changes but not files, extensions or settings under allow_ddl', async () => {
+    const server = await createServer('allow_ddl');
+
+    await query(server, 'CREATE TABLE big_expenses AS SELECT * FROM expenses WHERE amount > 20');
+    await query(server, 'INSERT INTO big_expenses VALUES (3, 99.0)');
+    assert.deepStrictEqual(await query(server, 'SELECT COUNT(*) as total FROM big_expenses'), [{ total: 2 }]);
+    await query(server, 'DROP TABLE big_expenses');
+
+    const exportPath = path.join(tempDir, 'expenses.csv');
+    await assertRejected(server, `COPY expenses TO '${exportPath}'`, /COPY \.\.\. TO statements are not allowed by the allow_ddl query policy/);
+    await assertRejected(server, 'INSTALL httpfs', /INSTALL statements are not allowed/);
+    await assertRejected(server, 'LOAD httpfs', /LOAD statements are not allowed/);
+    await assertRejected(server, `ATTACH '${path.join(tempDir, 'new.duckdb')}' AS scratch`, /ATTACH statements are not allowed/);
+    await assertRejected(server, 'CALL force_checkpoint()', /force_checkpoint\(\) function is not allowed/);
+
+    await assert.rejects(fs.access(exportPath));
+  });
+
+  it('should allow every statement under the full policy', async () => {
+    const server = await createServer('full');
+    const exportPath = path.join(tempDir, 'expenses.csv');
+
+    await (server as any).queryCSV({ query: `COPY expenses TO '${exportPath}' (HEADER)` });
+    assert.ok((await fs.readFile(exportPath, 'utf8')).startsWith('id,amount'));
+  });
+
+  it('should not run table and column names given to the analysis tools as SQL', async () => {
+    const server = await createServer();
+    const exportPath = path.join(tempDir, 'x.csv');
+    const injected = `expenses; COPY (SELECT 42) TO '${exportPath}'`;
+
+    await assert.rejects((server as any).describeTable({ table_name: injected }), { name: 'McpError', message: /Table ".*" does not exist; use a name from list_tables/ });
+    await assert.rejects((server as any).analyzeCSV({ table_name: injected }), /does not exist/);
+    await assert.rejects(server.detectAnomalies({ table_name: injected }), /does not exist/);
+    await assert.rejects(server.optimizeExpenses({ table_name: injected }), /does not exist/);
+    await assert.rejects((server as any).analyzeCSV({ table_name: 'expenses', columns: [`amount) FROM expenses; COPY (SELECT 42) TO '${exportPath}'; SELECT (1`] }), /not found/);
+    await assert.rejects(fs.access(exportPath));
+
+    assert.ok((await (server as any).describeTable({ table_name: 'main.Expenses' })).content[0].text.includes('amount'));
+    const analysis = await (server as any).analyzeCSV({ table_name: 'expenses', columns: ['amount'] });
+    assert.ok(analysis.content[0].text.includes('"amount_max": 30'));
+  });
+
+  it('should only run several statements in one string for query_csv', async () => {
+    const server = await createServer('allow_ddl');
+
+    await query(server, 'CREATE TABLE first_copy AS SELECT * FROM expenses; CREATE TABLE second_copy AS SELECT * FROM expenses');
+    assert.deepStrictEqual(await query(server, 'SELECT COUNT(*) as total FROM second_copy'), [{ total: 2 }]);
+
+    await assert.rejects(
+      async () => (server as any).executeQuery('SELECT 1; DROP TABLE expenses'),
+      /Expected a single SQL statement but got 2/
+    );
+    assert.deepStrictEqual(await query(server, 'SELECT COUNT(*) as total FROM expenses'), [{ total: 2 }]);
+  });
+
+  it('should read the policy from QUACK_MCP_QUERY_POLICY', async () => {
+    const previous = process.env.QUACK_MCP_QUERY_POLICY;
+    try {
+      process.env.QUACK_MCP_QUERY_POLICY = 'allow_ddl';
+      const server = await createServer();
+      await query(server, 'DROP TABLE expenses');
+
+      process.env.QUACK_MCP_QUERY_POLICY = 'everything';
+      assert.throws(() => new QuackMCPServer(), /Invalid QUACK_MCP_QUERY_POLICY "everything"\. Use one of: read_only, allow_ddl, full/);
+    } finally {
+      if (previous === undefined) delete process.env.QUACK_MCP_QUERY_POLICY;
+      else process.env.QUACK_MCP_QUERY_POLICY = previous;
+    }
+  });
+});
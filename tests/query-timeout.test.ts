@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { QuackMCPServer } from '../src/index.ts';
+
+// Takes about a second, well past the timeouts below
+const SLOW_QUERY = 'SELECT count(*) AS matches FROM range(60000000) t(x) WHERE hash(x) % 7 = 3';
+
+// Would take minutes if it were left to finish
+const ENDLESS_QUERY = 'SELECT count(*) AS matches FROM range(100000000000) t(x) WHERE hash(x) % 7 = 3';
+
+describe('QuackMCPServer Query Timeout Tests', () => {
+  it('should time out slow queries with a distinct error', async () => {
+    const server = new QuackMCPServer();
+
+    await assert.rejects(
+      async () => (server as any).queryCSV({ query: SLOW_QUERY, timeout_seconds: 0.05 }),
+      (error: any) => {
+        assert.strictEqual(error.name, 'McpError');
+        assert.strictEqual(error.code, -32001);
+        assert.match(error.message, /Query timed out after 0.05 seconds/);
+        return true;
+      }
+    );
+  });
+
+  it('should use the server default timeout unless the call sets one', async () => {
+    const server = new QuackMCPServer({ queryTimeoutSeconds: 0.05 });
+
+    await assert.rejects(
+      async () => (server as any).queryCSV({ query: SLOW_QUERY }),
+      { name: 'McpError', message: /Query timed out after 0.05 seconds/ }
+    );
+
+    const result = await (server as any).queryCSV({ query: SLOW_QUERY, timeout_seconds: 0 });
+    assert.ok(JSON.parse(result.content[0].text)[0].matches > 0);
+  });
+
+  it('should stop waiting for the query when the client cancels the request', async () => {
+    const server = new QuackMCPServer();
+    const controller = new AbortController();
+    setTimeout(() => controller.abort('Cancelled by the user'), 50);
+
+    await assert.rejects(
+      async () => (server as any).queryCSV({ query: SLOW_QUERY }, controller.signal),
+      { name: 'McpError', message: /Query cancelled by the client/ }
+    );
+
+    await (server as any).executeQuery('CREATE TABLE events AS SELECT range AS id FROM range(10)');
+    await assert.rejects(
+      async () => (server as any).queryCSV({ query: 'SELECT * FROM events', max_rows: 5 }, controller.signal),
+      { name: 'McpError', message: /Query cancelled by the client/ }
+    );
+    assert.strictEqual((server as any).queryResults.size, 0);
+  });
+
+  it('should interrupt the running statement so the next query does not wait for it', async () => {
+    const server = new QuackMCPServer();
+    const controller = new AbortController();
+    setTimeout(() => controller.abort('Cancelled by the user'), 50);
+
+    const started = Date.now();
+    await assert.rejects(
+      async () => (server as any).queryCSV({ query: ENDLESS_QUERY }, controller.signal),
+      { name: 'McpError', message: /Query cancelled by the client/ }
+    );
+    await assert.rejects(
+      async () => (server as any).queryCSV({ query: ENDLESS_QUERY, timeout_seconds: 0.05 }),
+      { name: 'McpError', message: /Query timed out after 0.05 seconds/ }
+    );
+
+    const result = await (server as any).queryCSV({ query: 'SELECT 1 AS ready', timeout_seconds: 0 });
+    assert.deepStrictEqual(JSON.parse(result.content[0].text), [{ ready: 1 }]);
+    assert.ok(Date.now() - started < 5000, `took ${Date.now() - started}ms`);
+  });
+
+  it('should reject invalid timeouts', async () => {
+    const server = new QuackMCPServer();
+
+    await assert.rejects(
+      async () => (server as any).queryCSV({ query: 'SELECT 1', timeout_seconds: -1 }),
+      { name: 'McpError', message: /timeout_seconds must be a number of seconds/ }
+    );
+
+    const previous = process.env.QUACK_MCP_QUERY_TIMEOUT;
+    try {
+      process.env.QUACK_MCP_QUERY_TIMEOUT = 'soon';
+      assert.throws(() => new QuackMCPServer(), /Invalid QUACK_MCP_QUERY_TIMEOUT "soon"/);
+    } finally {
+      if (previous === undefined) delete process.env.QUACK_MCP_QUERY_TIMEOUT;
+      else process.env.QUACK_MCP_QUERY_TIMEOUT = previous;
+    }
+  });
+});